@@ -13,14 +13,16 @@ CREATE TABLE cafes (
   -- Basic info
   name TEXT NOT NULL,
   address TEXT NOT NULL,
-  city TEXT DEFAULT 'Toronto',
+  city TEXT NOT NULL,   -- A city name from shared/cities.ts
   google_place_id TEXT UNIQUE,
   google_maps_url TEXT,
-  opening_hours JSONB,  -- Store hours as JSON: {"monday": "7:00-18:00", "tuesday": "7:00-18:00", ...}
-  image_url TEXT,       -- Cafe photo URL
+  opening_hours JSONB,  -- {"timezone": "America/Toronto", "intervals": [{"start": 450, "end": 1020}, ...], "weekday_text": {"monday": "7:30 AM - 5:00 PM", ...}}
+                        -- Intervals are minutes since Sunday 00:00 local time (see shared/opening-hours.ts)
+  image_url TEXT,       -- Cover photo: our mirrored copy (cafe_photos position 0), never a Google URL
   google_rating DECIMAL(2,1),  -- Google's overall rating (1-5)
   google_review_count INTEGER, -- Total number of Google reviews
   google_reviews JSONB,        -- Store recent Google reviews as JSON
+  tags TEXT[] DEFAULT '{}',    -- Curation tags from import manifests (e.g. "leslieville", "patio")
   -- Location (for map)
   latitude DECIMAL(9, 6) NOT NULL,
   longitude DECIMAL(9, 6) NOT NULL,
@@ -28,14 +30,36 @@ CREATE TABLE cafes (
   
   -- Work scores (0-10, calculated by AI from reviews)
   work_score DECIMAL(3, 1),
+  work_score_calibrated DECIMAL(3, 1),  -- work_score ranked within the city: 4.5 = top 10% (see score_calibrations)
+  -- The score the map shows; filter and sort on this one, not on work_score
+  work_score_shown DECIMAL(3, 1) GENERATED ALWAYS AS (COALESCE(work_score_calibrated, work_score)) STORED,
   wifi_quality DECIMAL(3, 1),
-  noise_level DECIMAL(3, 1),
+  noise_level DECIMAL(3, 1),          -- 0 = silent; NULL = no review mentions noise
+  outlet_availability DECIMAL(3, 1),  -- 0 = not mentioned, 5 = outlets at nearly every seat
+  seating_comfort DECIMAL(3, 1),      -- Comfort and capacity together
+  lighting_quality DECIMAL(3, 1),
   
-  -- AI-generated summary
+  -- AI-generated summary, always English, plus one in the city's language
   summary TEXT,
+  summary_localized TEXT,
+  summary_language TEXT,              -- ISO 639-1 code of summary_localized
+  tagline TEXT,                       -- A few words for map tooltips (HoverPopup)
+  summary_long TEXT,                  -- A paragraph for the details view
+  pros TEXT[] DEFAULT '{}',           -- Short points for remote workers, for and against
+  cons TEXT[] DEFAULT '{}',
+  confidence TEXT,                    -- high / medium / low, as the scorer reported it
+  supporting_review_count INTEGER,    -- Work-related reviews behind the scores (0 = estimated from general reviews)
+  evidence TEXT[] DEFAULT '{}',       -- 2-3 review quotes shown as "why this score"
+  scored_by TEXT,       -- Which scorer produced the scores: "gemini:<model>" or "heuristic"
+  needs_review BOOLEAN DEFAULT FALSE,  -- AI output had to be clamped or failed validation
+  needs_review_reason TEXT,
+  
+  -- Columns set by hand ("npm run process set"); the pipeline leaves them alone
+  manual_overrides TEXT[] DEFAULT '{}',
   
   -- Tracking
   review_count INTEGER DEFAULT 0,
+  language_mix JSONB,                 -- Stored reviews per detected language: {"en": 31, "fr": 17, "und": 2}
   last_scraped_at TIMESTAMP,          -- When we scraped reviews
   last_analyzed_at TIMESTAMP,         -- When AI analyzed them
   last_updated TIMESTAMP DEFAULT NOW(),
@@ -53,10 +77,11 @@ CREATE TABLE reviews (
   author TEXT,
   rating INTEGER,
   text TEXT,
-  date TIMESTAMP,
+  date TIMESTAMP,                     -- Newer reviews weigh more in scoring (backend/src/recency.ts)
   google_review_id TEXT UNIQUE,       -- Prevent duplicates
+  language TEXT,                      -- Detected ISO 639-1 code, "und" when unclear
   
-  -- AI analysis flags (set by Gemini)
+  -- Analysis flags (derived from review_aspects)
   is_work_related BOOLEAN DEFAULT FALSE,
   mentions_wifi BOOLEAN DEFAULT FALSE,
   mentions_noise BOOLEAN DEFAULT FALSE,
@@ -65,6 +90,144 @@ CREATE TABLE reviews (
   created_at TIMESTAMP DEFAULT NOW()
 );
 
+-- =====================================================
+-- TABLE 3: REVIEW ASPECTS (one row per aspect a review mentions)
+-- =====================================================
+CREATE TABLE review_aspects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID REFERENCES reviews(id) ON DELETE CASCADE,
+  cafe_id UUID REFERENCES cafes(id) ON DELETE CASCADE,
+
+  aspect TEXT NOT NULL CHECK (aspect IN ('wifi', 'outlets', 'seating', 'noise', 'lighting', 'laptop_policy', 'time_limits', 'calls')),
+  polarity TEXT NOT NULL CHECK (polarity IN ('positive', 'negative', 'neutral')),  -- For remote work: quiet = positive
+  evidence TEXT,                       -- The clause the aspect was found in
+
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- =====================================================
+-- TABLE 4: CAFE SCORE SNAPSHOTS (history of every analysis)
+-- =====================================================
+CREATE TABLE cafe_score_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cafe_id UUID REFERENCES cafes(id) ON DELETE CASCADE,
+  analyzed_at TIMESTAMP DEFAULT NOW(),
+
+  -- Scores as produced by this analysis
+  work_score DECIMAL(3, 1),
+  work_score_calibrated DECIMAL(3, 1), -- work_score within the city at the time, as the map showed it; NULL = shown raw
+  wifi_quality DECIMAL(3, 1),
+  noise_level DECIMAL(3, 1),
+  outlet_availability DECIMAL(3, 1),
+  seating_comfort DECIMAL(3, 1),
+  lighting_quality DECIMAL(3, 1),
+  summary TEXT,
+  confidence TEXT,                     -- high / medium / low
+  needs_review BOOLEAN DEFAULT FALSE,
+
+  -- What the analysis was based on
+  review_count INTEGER,
+  review_ids TEXT[],                   -- Sorted google_review_ids the scorer saw
+  scorer TEXT,                         -- e.g. "gemini:gemini-2.0-flash-exp", "heuristic"
+  scorer_version TEXT,                 -- Prompt (or heuristic) version
+
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- =====================================================
+-- TABLE 5: CAFE PHOTOS (mirrored from Google Places)
+-- =====================================================
+-- Files live in the public Supabase Storage bucket "cafe-photos" (or a local
+-- directory in development) at <google_place_id>/<position>-<content hash>.<ext>;
+-- a replaced photo gets a new name, so CDN and browser caches never serve the old one
+CREATE TABLE cafe_photos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cafe_id UUID REFERENCES cafes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,           -- 0 = cover photo, copied to cafes.image_url
+
+  storage_path TEXT NOT NULL,
+  url TEXT NOT NULL,                   -- Public URL of our copy
+  width INTEGER,
+  height INTEGER,
+  content_type TEXT,
+
+  -- Where it came from; Google requires showing the author attributions
+  source_photo_name TEXT,              -- places/<id>/photos/<ref>
+  attributions JSONB DEFAULT '[]',     -- [{"display_name": "...", "uri": "..."}]
+
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (cafe_id, position)
+);
+
+-- =====================================================
+-- TABLE 6: PIPELINE COSTS (one row per metered API call)
+-- =====================================================
+-- Costs are estimates from the price table in backend/src/cost-meter.ts,
+-- stored at the time of the call
+CREATE TABLE pipeline_costs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL,                -- One processor invocation
+  command TEXT,                        -- import, rescore, update, ...
+
+  provider TEXT NOT NULL,              -- outscraper | google_places | gemini
+  call_type TEXT NOT NULL,             -- outscraper_reviews, places_photo, gemini_input, ...
+  units NUMERIC NOT NULL,              -- Reviews, requests, photos or tokens
+  unit TEXT NOT NULL,
+  estimated_cost NUMERIC(10, 5) NOT NULL,  -- USD
+
+  google_place_id TEXT,                -- Cafe the call was made for, if any
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- =====================================================
+-- TABLE 7: PIPELINE RUNS (audit trail of processor commands)
+-- =====================================================
+-- id matches pipeline_costs.run_id. The row is rewritten after every cafe,
+-- so a crashed run still shows how far it got (status stays 'running').
+CREATE TABLE pipeline_runs (
+  id UUID PRIMARY KEY,
+  command TEXT NOT NULL,               -- import, rescore, update, aspects, <place_id>
+  args JSONB DEFAULT '[]',             -- Full command line
+  status TEXT NOT NULL,                -- running | completed | stopped | failed
+
+  started_at TIMESTAMP NOT NULL,
+  finished_at TIMESTAMP,
+
+  cafe_count INTEGER DEFAULT 0,
+  error_count INTEGER DEFAULT 0,
+  -- [{"google_place_id": "...", "outcome": "updated", "fields_changed": ["google_rating"], "error": "...", "finished_at": "..."}]
+  cafes JSONB DEFAULT '[]',
+  errors JSONB DEFAULT '[]',           -- Errors that ended the run
+  stop_reason TEXT                     -- e.g. budget reached, out of credits
+);
+
+-- =====================================================
+-- TABLE 8: SCORE CALIBRATIONS (per-city work score distributions)
+-- =====================================================
+-- Rebuilt by `npm run process calibrate`; cafes scored in between are
+-- calibrated against the stored quantiles (backend/src/calibration.ts)
+CREATE TABLE score_calibrations (
+  city TEXT PRIMARY KEY,               -- A city name from shared/cities.ts
+  quantiles NUMERIC[] NOT NULL,        -- Raw work_score at 0%, 5%, ..., 100%
+  cafe_count INTEGER NOT NULL,         -- Scored cafes the quantiles came from
+  computed_at TIMESTAMP NOT NULL
+);
+
+-- =====================================================
+-- TABLE 9: API CACHE (paid answers reused across runs)
+-- =====================================================
+-- key is a sha256 of everything the answer depends on, see
+-- backend/src/response-cache.ts; `--no-cache` bypasses it
+CREATE TABLE api_cache (
+  key TEXT PRIMARY KEY,
+  namespace TEXT NOT NULL,             -- gemini | google_places
+  value JSONB NOT NULL,                -- Validated scores or transformed place details
+  created_at TIMESTAMP DEFAULT NOW(),
+  expires_at TIMESTAMP,                -- NULL = never
+  hits INTEGER DEFAULT 0,              -- Times reused since it was stored
+  last_hit_at TIMESTAMP
+);
+
 -- =====================================================
 -- AUTO-GENERATE LOCATION
 -- =====================================================
@@ -86,9 +249,16 @@ CREATE TRIGGER auto_location
 -- =====================================================
 CREATE INDEX idx_cafes_location ON cafes USING GIST (location);
 CREATE INDEX idx_cafes_city ON cafes (city);
-CREATE INDEX idx_cafes_work_score ON cafes (work_score DESC) WHERE work_score IS NOT NULL;
+CREATE INDEX idx_cafes_work_score_shown ON cafes (work_score_shown DESC) WHERE work_score_shown IS NOT NULL;
 CREATE INDEX idx_reviews_cafe ON reviews (cafe_id);
 CREATE INDEX idx_reviews_work_related ON reviews (cafe_id, is_work_related) WHERE is_work_related = TRUE;
+CREATE INDEX idx_review_aspects_review ON review_aspects (review_id);
+CREATE INDEX idx_review_aspects_cafe ON review_aspects (cafe_id, aspect);
+CREATE INDEX idx_score_snapshots_cafe ON cafe_score_snapshots (cafe_id, analyzed_at DESC);
+CREATE INDEX idx_pipeline_costs_created ON pipeline_costs (created_at);
+CREATE INDEX idx_pipeline_costs_place ON pipeline_costs (google_place_id);
+CREATE INDEX idx_pipeline_runs_started ON pipeline_runs (started_at DESC);
+CREATE INDEX idx_api_cache_namespace ON api_cache (namespace);
 
 -- =====================================================
 -- HELPER QUERIES
@@ -0,0 +1,459 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import fs from 'fs/promises';
+import path from 'path';
+import { normalizeOpeningHours } from '../../shared/opening-hours';
+import { CITIES, findCity } from '../../shared/cities';
+import {
+  EXPORT_FORMATS,
+  exportCafes,
+  filterCafes,
+  type CafeFilters,
+  type ExportCafe,
+  type ExportFormat,
+} from '../../shared/cafe-export';
+import { formatLanguageMix } from './language';
+import { log } from './logger';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface CafeRef {
+  id: string;
+  name: string;
+  google_place_id: string;
+}
+
+export type ListSort = 'name' | 'score' | 'updated';
+
+export interface ListFilters {
+  city?: string;
+  tag?: string;
+  minScore?: number;
+  maxScore?: number;
+  needsReview?: boolean;
+  missing?: string;      // Only cafes where this column is null
+  sort: ListSort;
+  limit: number;
+}
+
+type FieldType = 'text' | 'required_text' | 'city' | 'score' | 'coordinate' | 'boolean' | 'tags' | 'points';
+
+// Columns `set` may override by hand. Everything else is derived by the
+// pipeline (or is bookkeeping) and would be overwritten or inconsistent.
+export const EDITABLE_FIELDS: Record<string, FieldType> = {
+  name: 'required_text',
+  address: 'required_text',
+  city: 'city',
+  summary: 'text',
+  tagline: 'text',
+  summary_long: 'text',
+  image_url: 'text',
+  google_maps_url: 'text',
+  needs_review_reason: 'text',
+  tags: 'tags',
+  pros: 'points',
+  cons: 'points',
+  work_score: 'score',
+  wifi_quality: 'score',
+  noise_level: 'score',
+  outlet_availability: 'score',
+  seating_comfort: 'score',
+  lighting_quality: 'score',
+  latitude: 'coordinate',
+  longitude: 'coordinate',
+  needs_review: 'boolean',
+};
+
+export const SCORE_FIELDS = ['work_score', 'wifi_quality', 'noise_level', 'outlet_availability', 'seating_comfort', 'lighting_quality'];
+
+// Columns `list --missing` can filter on: the ones that can be null
+export const NULLABLE_FIELDS = [
+  'google_place_id', 'google_maps_url', 'opening_hours', 'image_url', 'google_rating', 'google_review_count',
+  'google_reviews', 'work_score', 'work_score_calibrated', ...SCORE_FIELDS.slice(1), 'summary', 'summary_localized',
+  'summary_language', 'tagline', 'summary_long', 'confidence', 'supporting_review_count', 'scored_by',
+  'needs_review_reason', 'language_mix', 'last_scraped_at', 'last_analyzed_at',
+];
+
+// Reported by `stats` when null: what the frontend shows a gap for
+const EXPECTED_FIELDS = ['address', 'opening_hours', 'image_url', 'google_rating', 'summary', ...SCORE_FIELDS];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Supabase caps a single select, so whole-table reads go a page at a time
+const PAGE_SIZE = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =====================================================
+// ARGUMENT PARSING
+// =====================================================
+
+// "45m", "12h", "30d", "2w" -> milliseconds
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([mhdw])$/i);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}" (use e.g. 45m, 12h, 30d or 2w)`);
+  }
+  const minutes = { m: 1, h: 60, d: 60 * 24, w: 60 * 24 * 7 }[match[2].toLowerCase() as 'm' | 'h' | 'd' | 'w'];
+  return Number(match[1]) * minutes * 60 * 1000;
+}
+
+function parseValue(field: string, type: FieldType, raw: string): unknown {
+  if (raw === 'null') {
+    if (type === 'required_text' || type === 'city' || type === 'coordinate') throw new Error(`${field} can't be null`);
+    return type === 'tags' || type === 'points' ? [] : null;
+  }
+
+  switch (type) {
+    case 'text':
+    case 'required_text':
+      return raw;
+    case 'city': {
+      const city = findCity(raw);
+      if (!city) throw new Error(`Unknown city "${raw}" (registered: ${CITIES.map(c => c.name).join(', ')})`);
+      return city.name;
+    }
+    case 'tags':
+      return raw.split(/[,;|]/).map(tag => tag.trim()).filter(Boolean);
+    case 'points':
+      // Points are short sentences and may contain commas
+      return raw.split('|').map(point => point.trim()).filter(Boolean);
+    case 'boolean':
+      if (!['true', 'false'].includes(raw)) throw new Error(`${field} must be true or false`);
+      return raw === 'true';
+    case 'score': {
+      const score = Number(raw);
+      if (!Number.isFinite(score) || score < 0 || score > 5) throw new Error(`${field} must be a number from 0 to 5`);
+      return Math.round(score * 10) / 10;
+    }
+    case 'coordinate': {
+      const coordinate = Number(raw);
+      const limit = field === 'latitude' ? 90 : 180;
+      if (!Number.isFinite(coordinate) || Math.abs(coordinate) > limit) throw new Error(`${field} must be a number from -${limit} to ${limit}`);
+      return coordinate;
+    }
+  }
+}
+
+// "field=value" -> typed column update; "null" clears nullable columns
+export function parseAssignment(arg: string): { field: string; value: unknown } {
+  const separator = arg.indexOf('=');
+  if (separator <= 0) {
+    throw new Error(`Expected field=value, got "${arg}"`);
+  }
+
+  const field = arg.slice(0, separator).trim();
+  const type = EDITABLE_FIELDS[field];
+  if (!type) {
+    throw new Error(`${field} can't be set by hand (editable: ${Object.keys(EDITABLE_FIELDS).join(', ')})`);
+  }
+  return { field, value: parseValue(field, type, arg.slice(separator + 1).trim()) };
+}
+
+// =====================================================
+// QUERIES
+// =====================================================
+
+// Cafes are addressed by either their UUID or their Google Place ID
+export async function resolveCafe(supabase: SupabaseClient, idOrPlaceId: string): Promise<CafeRef | null> {
+  const { data, error } = await supabase
+    .from('cafes')
+    .select('id, name, google_place_id')
+    .eq(UUID_PATTERN.test(idOrPlaceId) ? 'id' : 'google_place_id', idOrPlaceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchAllRows(supabase: SupabaseClient, table: string, columns: string): Promise<Record<string, any>[]> {
+  const rows: Record<string, any>[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((data || []) as unknown as Record<string, any>[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function countRows(supabase: SupabaseClient, table: string, cafeId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .eq('cafe_id', cafeId);
+
+  if (error) throw error;
+  return count || 0;
+}
+
+// What deleting a cafe takes with it (all by ON DELETE CASCADE)
+export async function countDependents(supabase: SupabaseClient, cafeId: string) {
+  const [reviews, photos, snapshots, favorites, notes] = await Promise.all([
+    countRows(supabase, 'reviews', cafeId),
+    countRows(supabase, 'cafe_photos', cafeId),
+    countRows(supabase, 'cafe_score_snapshots', cafeId),
+    countRows(supabase, 'user_favorites', cafeId),
+    countRows(supabase, 'user_notes', cafeId),
+  ]);
+  return { reviews, photos, snapshots, favorites, notes };
+}
+
+// =====================================================
+// OUTPUT
+// =====================================================
+
+function formatScore(value: unknown): string {
+  return value === null || value === undefined ? '—' : Number(value).toFixed(1);
+}
+
+function formatDate(value: unknown): string {
+  return typeof value === 'string' ? value.slice(0, 10) : 'never';
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
+
+function printTable(headers: string[], rows: string[][]) {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  log.info(line(headers));
+  log.info(widths.map(width => '-'.repeat(width)).join('  '));
+  rows.forEach(row => log.info(line(row)));
+}
+
+function section(title: string) {
+  log.info('\n' + '='.repeat(60));
+  log.info(title);
+  log.info('='.repeat(60));
+}
+
+// =====================================================
+// COMMANDS
+// =====================================================
+
+export async function listCafes(supabase: SupabaseClient, filters: ListFilters) {
+  let query = supabase
+    .from('cafes')
+    .select('id, name, city, google_place_id, work_score_shown, needs_review, last_updated');
+
+  if (filters.city) query = query.ilike('city', filters.city);
+  if (filters.tag) query = query.contains('tags', [filters.tag]);
+  // The score the map shows: calibrated where the city has been, raw otherwise
+  if (filters.minScore !== undefined) query = query.gte('work_score_shown', filters.minScore);
+  if (filters.maxScore !== undefined) query = query.lte('work_score_shown', filters.maxScore);
+  if (filters.needsReview) query = query.eq('needs_review', true);
+  if (filters.missing) query = query.is(filters.missing, null);
+
+  if (filters.sort === 'score') query = query.order('work_score_shown', { ascending: false, nullsFirst: false });
+  else if (filters.sort === 'updated') query = query.order('last_updated', { ascending: true });
+  else query = query.order('name');
+
+  const { data: cafes, error } = await query.limit(filters.limit);
+  if (error) throw error;
+
+  if (!cafes || cafes.length === 0) {
+    log.info('\n📭 No cafes match those filters\n');
+    return;
+  }
+
+  log.info('');
+  printTable(
+    ['Name', 'City', 'Work', 'Updated', 'Place ID'],
+    cafes.map(cafe => [
+      truncate(`${cafe.needs_review ? '⚠️ ' : ''}${cafe.name}`, 36),
+      cafe.city || '—',
+      formatScore(cafe.work_score_shown),
+      formatDate(cafe.last_updated),
+      cafe.google_place_id || '—',
+    ])
+  );
+  log.info(`\n📍 ${cafes.length} cafe(s)${cafes.length === filters.limit ? ` (limit ${filters.limit}, use --limit for more)` : ''}\n`);
+}
+
+export async function showCafe(supabase: SupabaseClient, cafe: CafeRef) {
+  const { data: row, error } = await supabase
+    .from('cafes')
+    .select('*')
+    .eq('id', cafe.id)
+    .single();
+
+  if (error) throw error;
+
+  const [dependents, workReviews, pendingReviews] = await Promise.all([
+    countDependents(supabase, cafe.id),
+    supabase.from('reviews').select('id', { count: 'exact', head: true }).eq('cafe_id', cafe.id).eq('is_work_related', true),
+    supabase.from('reviews').select('id', { count: 'exact', head: true }).eq('cafe_id', cafe.id).is('analyzed_at', null),
+  ]);
+
+  section(`☕ ${row.name}`);
+  log.info(`   ID:         ${row.id}`);
+  log.info(`   Place ID:   ${row.google_place_id || '—'}`);
+  log.info(`   Address:    ${row.address || '—'}`);
+  log.info(`   City:       ${row.city || '—'}`);
+  log.info(`   Location:   ${row.latitude}, ${row.longitude}`);
+  log.info(`   Tags:       ${(row.tags || []).join(', ') || '—'}`);
+  log.info(`   Cover:      ${row.image_url || '—'}`);
+
+  log.info(`\n📊 Scores (by ${row.scored_by || 'nobody yet'}, ${row.confidence || 'unknown'} confidence, ${row.supporting_review_count ?? 0} supporting reviews):`);
+  SCORE_FIELDS.forEach(field => log.info(`   ${field.padEnd(20)} ${formatScore(row[field])}`));
+  log.info(`   calibrated           ${formatScore(row.work_score_calibrated)} (work_score ranked within ${row.city || 'its city'})`);
+  log.info(`   google_rating        ${formatScore(row.google_rating)} (${row.google_review_count ?? 0} Google reviews)`);
+  if (row.tagline) log.info(`\n🏷️  ${row.tagline}`);
+  if (row.summary) log.info(`\n💬 "${row.summary}"`);
+  if (row.summary_localized) log.info(`   ${row.summary_language || '?'}: "${row.summary_localized}"`);
+  if (row.summary_long) log.info(`\n   ${row.summary_long}`);
+  (row.pros || []).forEach((point: string) => log.info(`   + ${point}`));
+  (row.cons || []).forEach((point: string) => log.info(`   - ${point}`));
+  (row.evidence || []).forEach((quote: string) => log.info(`   • "${quote}"`));
+  if (row.needs_review) log.info(`\n⚠️  Needs review: ${row.needs_review_reason || 'no reason given'}`);
+  if (row.manual_overrides?.length) log.info(`\n🔒 Manual overrides: ${row.manual_overrides.join(', ')}`);
+
+  log.info(`\n📈 Data:`);
+  log.info(`   Reviews:         ${dependents.reviews} (${workReviews.count || 0} work-related, ${pendingReviews.count || 0} not yet analyzed)`);
+  log.info(`   Languages:       ${formatLanguageMix(row.language_mix)}`);
+  log.info(`   Photos:          ${dependents.photos}`);
+  log.info(`   Score snapshots: ${dependents.snapshots}`);
+  log.info(`   Favorites:       ${dependents.favorites}`);
+  log.info(`   Notes:           ${dependents.notes}`);
+  log.info(`   Opening hours:   ${row.opening_hours ? 'yes' : 'missing'}`);
+
+  log.info(`\n🕒 Last scraped ${formatDate(row.last_scraped_at)}, analyzed ${formatDate(row.last_analyzed_at)}, updated ${formatDate(row.last_updated)}\n`);
+}
+
+export async function printStats(supabase: SupabaseClient) {
+  const cafes = await fetchAllRows(supabase, 'cafes', ['city', 'needs_review', 'scored_by', ...EXPECTED_FIELDS].join(', '));
+
+  if (cafes.length === 0) {
+    log.info('\n📭 No cafes in the database yet\n');
+    return;
+  }
+
+  section('📊 CAFE DATASET STATS');
+
+  const byCity = new Map<string, number>();
+  cafes.forEach(cafe => byCity.set(cafe.city || '(none)', (byCity.get(cafe.city || '(none)') || 0) + 1));
+  log.info(`\n☕ ${cafes.length} cafes, ${cafes.filter(cafe => cafe.needs_review).length} flagged for review`);
+  [...byCity.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([city, count]) => log.info(`   ${city.padEnd(20)} ${count}`));
+
+  const byScorer = new Map<string, number>();
+  cafes.forEach(cafe => byScorer.set(cafe.scored_by || '(unscored)', (byScorer.get(cafe.scored_by || '(unscored)') || 0) + 1));
+  log.info(`\n🤖 Scored by:`);
+  [...byScorer.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([scorer, count]) => log.info(`   ${scorer.padEnd(32)} ${count}`));
+
+  // One bucket per whole point; 5.0 goes in the top bucket
+  log.info(`\n📈 Score distribution:`);
+  printTable(
+    ['Field', '0-1', '1-2', '2-3', '3-4', '4-5', 'Avg', 'Missing'],
+    SCORE_FIELDS.map(field => {
+      const scores = cafes.map(cafe => cafe[field]).filter(value => value !== null).map(Number);
+      const buckets = [0, 0, 0, 0, 0];
+      scores.forEach(score => buckets[Math.min(4, Math.floor(score))]++);
+      const average = scores.length ? (scores.reduce((sum, score) => sum + score, 0) / scores.length).toFixed(2) : '—';
+      return [field, ...buckets.map(String), average, String(cafes.length - scores.length)];
+    })
+  );
+
+  log.info(`\n🕳️  Missing fields:`);
+  EXPECTED_FIELDS.forEach(field => {
+    const missing = cafes.filter(cafe => cafe[field] === null || cafe[field] === undefined).length;
+    if (missing > 0) log.info(`   ${field.padEnd(20)} ${missing}/${cafes.length}`);
+  });
+  log.info('');
+}
+
+// Decimal columns come back from PostgREST as strings
+function toNumberOrNull(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function toExportCafe(row: Record<string, any>): ExportCafe {
+  return {
+    id: row.id,
+    name: row.name,
+    address: row.address,
+    city: row.city,
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+    work_score: toNumberOrNull(row.work_score_calibrated ?? row.work_score),   // What the map shows
+    wifi_quality: toNumberOrNull(row.wifi_quality),
+    noise_level: toNumberOrNull(row.noise_level),
+    outlet_availability: toNumberOrNull(row.outlet_availability),
+    seating_comfort: toNumberOrNull(row.seating_comfort),
+    lighting_quality: toNumberOrNull(row.lighting_quality),
+    google_rating: toNumberOrNull(row.google_rating),
+    review_count: row.review_count,
+    summary: row.summary,
+    opening_hours: normalizeOpeningHours(row.opening_hours),
+    google_maps_url: row.google_maps_url,
+    google_place_id: row.google_place_id,
+  };
+}
+
+// Format from --format, or else from the file extension
+export function exportFormatFor(file: string, format?: string): ExportFormat {
+  const name = (format || path.extname(file).slice(1)).toLowerCase();
+  const resolved = name === 'json' ? 'geojson' : name;
+  if (!EXPORT_FORMATS.includes(resolved as ExportFormat)) {
+    throw new Error(`Unknown export format "${name}" (use ${EXPORT_FORMATS.join(', ')})`);
+  }
+  return resolved as ExportFormat;
+}
+
+// Writes the (filtered) dataset in the same format the Discover page downloads
+export async function exportDataset(supabase: SupabaseClient, file: string, format: ExportFormat, filters: CafeFilters) {
+  const rows = await fetchAllRows(
+    supabase,
+    'cafes',
+    'id, name, address, city, latitude, longitude, work_score, work_score_calibrated, wifi_quality, noise_level, outlet_availability, ' +
+    'seating_comfort, lighting_quality, google_rating, review_count, summary, opening_hours, google_maps_url, google_place_id'
+  );
+  const cafes = filterCafes(rows.map(toExportCafe), filters)
+    .sort((a, b) => (b.work_score ?? -1) - (a.work_score ?? -1) || a.name.localeCompare(b.name));
+
+  const title = filters.city ? `Cafe Compass - ${filters.city}` : 'Cafe Compass';
+  await fs.writeFile(file, exportCafes(cafes, format, title).content);
+  log.info(`\n✅ Exported ${cafes.length} of ${rows.length} cafes to ${file} (${format})\n`);
+}
+
+// Cafes whose reviews haven't been scraped within `olderThanMs`, oldest first
+export async function listStaleCafes(supabase: SupabaseClient, olderThanMs: number) {
+  const cutoff = new Date(Date.now() - olderThanMs).toISOString();
+
+  const { data: cafes, error } = await supabase
+    .from('cafes')
+    .select('name, google_place_id, last_scraped_at, last_updated')
+    .or(`last_scraped_at.is.null,last_scraped_at.lt.${cutoff}`)
+    .order('last_scraped_at', { ascending: true, nullsFirst: true });
+
+  if (error) throw error;
+
+  if (!cafes || cafes.length === 0) {
+    log.info(`\n✅ Every cafe was scraped since ${formatDate(cutoff)}\n`);
+    return;
+  }
+
+  log.info('');
+  printTable(
+    ['Name', 'Last scraped', 'Age', 'Place ID'],
+    cafes.map(cafe => [
+      truncate(cafe.name, 36),
+      formatDate(cafe.last_scraped_at),
+      cafe.last_scraped_at ? `${Math.floor((Date.now() - Date.parse(cafe.last_scraped_at)) / DAY_MS)}d` : '—',
+      cafe.google_place_id || '—',
+    ])
+  );
+  log.info(`\n🕒 ${cafes.length} cafe(s) not scraped since ${formatDate(cutoff)}`);
+  log.info('💡 Refresh one with "npm run process <place_id>", or details only with "npm run process update <place_id>"\n');
+}
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  aggregateAspects,
+  aspectScore,
+  EVIDENCE_MAX_LENGTH,
+  extractAspects,
+  isWorkRelated,
+  strongestEvidence,
+  toEvidence,
+  type AspectSummary,
+  type WeightedAspect,
+} from './aspects';
+
+const polarities = (text: string) => extractAspects(text).map(({ aspect, polarity }) => [aspect, polarity]);
+
+const summary = (overrides: Partial<AspectSummary> = {}): AspectSummary => ({
+  aspect: 'wifi',
+  positive: 0,
+  negative: 0,
+  neutral: 0,
+  evidence: [],
+  ...overrides,
+});
+
+describe('extractAspects', () => {
+  it('flips a cue after a negation', () => {
+    assert.deepEqual(polarities('Not loud at all, perfect for reading'), [['noise', 'positive']]);
+    assert.deepEqual(polarities('It is not quiet'), [['noise', 'negative']]);
+  });
+
+  it('reads each clause on its own', () => {
+    assert.deepEqual(extractAspects('Great coffee but slow wifi'), [
+      { aspect: 'wifi', polarity: 'negative', evidence: 'slow wifi' },
+    ]);
+  });
+
+  it('calls an aspect neutral when its clauses disagree', () => {
+    assert.deepEqual(polarities('Fast wifi. The wifi drops sometimes'), [['wifi', 'neutral']]);
+  });
+
+  it('ignores words that need a cue when none is there', () => {
+    assert.deepEqual(extractAspects('We grabbed a table by the door. Open late hours.'), []);
+  });
+
+  it('counts a mention without a cue as neutral', () => {
+    assert.deepEqual(polarities('I worked here all day on my laptop'), [['laptop_policy', 'neutral']]);
+  });
+});
+
+describe('isWorkRelated', () => {
+  it('counts reviews that mention an aspect or working', () => {
+    assert.equal(isWorkRelated('Fast wifi', 'en', extractAspects('Fast wifi')), true);
+    assert.equal(isWorkRelated('I worked here all day on my laptop', 'en', []), true);
+  });
+
+  it('does not count tables and opening hours as work', () => {
+    const text = 'We grabbed a table by the door. Open late hours.';
+    assert.equal(isWorkRelated(text, 'en', extractAspects(text)), false);
+    assert.equal(isWorkRelated('Great croissants', 'en', []), false);
+  });
+});
+
+describe('toEvidence', () => {
+  it('shortens long clauses with an ellipsis', () => {
+    const evidence = toEvidence('x'.repeat(EVIDENCE_MAX_LENGTH + 20));
+    assert.equal(evidence.length, EVIDENCE_MAX_LENGTH);
+    assert.ok(evidence.endsWith('…'));
+  });
+});
+
+describe('aggregateAspects', () => {
+  const mentions: WeightedAspect[] = [
+    { aspect: 'wifi', polarity: 'positive', evidence: 'Fast wifi' },
+    { aspect: 'wifi', polarity: 'positive', evidence: 'Wifi was great', weight: 0.5 },
+    { aspect: 'wifi', polarity: 'negative', evidence: 'Wifi kept dropping', weight: 0.25 },
+    { aspect: 'outlets', polarity: 'neutral', evidence: 'Some outlets' },
+  ];
+
+  it('adds up weights per aspect and polarity', () => {
+    const wifi = aggregateAspects(mentions).get('wifi');
+    assert.equal(wifi?.positive, 1.5);
+    assert.equal(wifi?.negative, 0.25);
+    assert.equal(wifi?.neutral, 0);
+    assert.equal(aggregateAspects(mentions).get('outlets')?.neutral, 1);
+  });
+
+  it('keeps at most maxEvidence quotes per aspect', () => {
+    assert.deepEqual(aggregateAspects(mentions, 2).get('wifi')?.evidence, [
+      { polarity: 'positive', text: 'Fast wifi' },
+      { polarity: 'positive', text: 'Wifi was great' },
+    ]);
+  });
+});
+
+describe('aspectScore', () => {
+  it('averages positive, neutral and negative mentions by weight', () => {
+    assert.equal(aspectScore(summary({ positive: 1 })), 5);
+    assert.equal(aspectScore(summary({ positive: 1, negative: 1 })), 3);
+    assert.equal(aspectScore(summary({ positive: 1.5, negative: 0.5 })), 4);
+  });
+
+  it('scores an aspect nobody mentioned as 0', () => {
+    assert.equal(aspectScore(summary()), 0);
+  });
+});
+
+describe('strongestEvidence', () => {
+  it('quotes the most-mentioned aspects first, preferring a clause that takes a side', () => {
+    assert.deepEqual(strongestEvidence([
+      { aspect: 'outlets', polarity: 'positive', evidence: 'Outlets everywhere' },
+      { aspect: 'wifi', polarity: 'neutral', evidence: 'There is wifi' },
+      { aspect: 'wifi', polarity: 'negative', evidence: 'Slow wifi' },
+    ]), ['Slow wifi', 'Outlets everywhere']);
+  });
+});
@@ -0,0 +1,170 @@
+import { LEXICONS, type Aspect, type Lexicon, type ReviewLanguage } from './keywords';
+import { detectLanguage, lexiconLanguage, originalReviewText } from './language';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+// Polarity is from a remote worker's point of view: "quiet" is positive noise
+export type Polarity = 'positive' | 'negative' | 'neutral';
+
+export interface ReviewAspect {
+  aspect: Aspect;
+  polarity: Polarity;
+  evidence: string;   // The clause that mentions the aspect
+}
+
+// A mention counted as `weight` mentions, e.g. the review's recency weight
+export type WeightedAspect = ReviewAspect & { weight?: number };
+
+export interface AspectSummary {
+  aspect: Aspect;
+  positive: number;
+  negative: number;
+  neutral: number;
+  evidence: { polarity: Polarity; text: string }[];
+}
+
+export const EVIDENCE_MAX_LENGTH = 140;
+
+// How many words before a cue are checked for a negation
+const NEGATION_WINDOW = 3;
+
+// =====================================================
+// EXTRACTION
+// =====================================================
+
+// Clauses rather than sentences, so "great coffee but slow wifi" keeps the
+// two halves apart
+function splitClauses(text: string, clauseBreaks: RegExp): string[] {
+  return text
+    .split(clauseBreaks)
+    .map(clause => clause.trim())
+    .filter(Boolean);
+}
+
+function isNegated(clause: string, matchIndex: number, negations: RegExp): boolean {
+  const before = clause.slice(0, matchIndex).trim().split(/\s+/).slice(-NEGATION_WINDOW).join(' ');
+  return negations.test(before);
+}
+
+// +1 per positive cue, -1 per negative cue, flipped when negated
+function cueScore(clause: string, positive: RegExp[], negative: RegExp[], negations: RegExp): { score: number; cues: number } {
+  let score = 0;
+  let cues = 0;
+
+  const apply = (patterns: RegExp[], sign: number) => {
+    patterns.forEach(pattern => {
+      const match = pattern.exec(clause);
+      if (!match) return;
+      cues++;
+      score += isNegated(clause, match.index, negations) ? -sign : sign;
+    });
+  };
+
+  apply(positive, 1);
+  apply(negative, -1);
+  return { score, cues };
+}
+
+export function toEvidence(clause: string): string {
+  return clause.length > EVIDENCE_MAX_LENGTH ? `${clause.slice(0, EVIDENCE_MAX_LENGTH - 1)}…` : clause;
+}
+
+// One entry per aspect per review; when a review mentions an aspect in several
+// clauses the cue scores are summed and the strongest clause is kept as evidence.
+// `language` picks the lexicon (see language.ts for detecting it).
+export function extractAspects(reviewText: string, language: ReviewLanguage = 'en'): ReviewAspect[] {
+  if (!reviewText) return [];
+
+  const lexicon: Lexicon = LEXICONS[language];
+  const found = new Map<Aspect, { score: number; evidence: string; strength: number }>();
+
+  for (const clause of splitClauses(reviewText, lexicon.clauseBreaks)) {
+    for (const rule of lexicon.rules) {
+      if (!rule.mention.test(clause)) continue;
+
+      const { score, cues } = cueScore(clause, rule.positive, rule.negative, lexicon.negations);
+      if (rule.requireCue && cues === 0) continue;
+
+      const existing = found.get(rule.aspect);
+      if (!existing) {
+        found.set(rule.aspect, { score, evidence: clause, strength: Math.abs(score) });
+      } else {
+        existing.score += score;
+        if (Math.abs(score) > existing.strength) {
+          existing.evidence = clause;
+          existing.strength = Math.abs(score);
+        }
+      }
+    }
+  }
+
+  return [...found.entries()].map(([aspect, { score, evidence }]) => ({
+    aspect,
+    polarity: score > 0 ? 'positive' : score < 0 ? 'negative' : 'neutral',
+    evidence: toEvidence(evidence),
+  }));
+}
+
+export function isWorkRelated(
+  reviewText: string,
+  language: ReviewLanguage = 'en',
+  aspects: ReviewAspect[] = extractAspects(reviewText, language)
+): boolean {
+  return aspects.length > 0 || LEXICONS[language].workTerms.test(reviewText || '');
+}
+
+// A review's original text (not Google's translation), its detected language
+// and the aspects found with that language's lexicon. Reviews whose language
+// can't be told are read with the city's.
+export function readReview(reviewText: string | null | undefined, cityLanguage: string) {
+  const text = originalReviewText(reviewText || '');
+  const language = detectLanguage(text);
+  const lexicon = lexiconLanguage(language, cityLanguage);
+  const aspects = extractAspects(text, lexicon);
+  return { text, language, lexicon, aspects, isWork: isWorkRelated(text, lexicon, aspects) };
+}
+
+// =====================================================
+// AGGREGATION (cafe level)
+// =====================================================
+
+// Counts are fractional when mentions carry weights. Evidence is kept in the
+// order given, so callers wanting the newest quotes sort the mentions first.
+export function aggregateAspects(aspects: WeightedAspect[], maxEvidence = 3): Map<Aspect, AspectSummary> {
+  const summaries = new Map<Aspect, AspectSummary>();
+
+  for (const { aspect, polarity, evidence, weight = 1 } of aspects) {
+    let summary = summaries.get(aspect);
+    if (!summary) {
+      summary = { aspect, positive: 0, negative: 0, neutral: 0, evidence: [] };
+      summaries.set(aspect, summary);
+    }
+    summary[polarity] += weight;
+    if (summary.evidence.length < maxEvidence) {
+      summary.evidence.push({ polarity, text: evidence });
+    }
+  }
+
+  return summaries;
+}
+
+// One quote per aspect, most-mentioned aspects first, preferring clauses that
+// take a side over neutral mentions. What a cafe shows as "why this score"
+// when the scorer didn't pick its own quotes.
+export function strongestEvidence(aspects: ReviewAspect[], max = 3): string[] {
+  return [...aggregateAspects(aspects, Infinity).values()]
+    .sort((a, b) => (b.positive + b.negative + b.neutral) - (a.positive + a.negative + a.neutral))
+    .map(summary => (summary.evidence.find(e => e.polarity !== 'neutral') || summary.evidence[0]).text)
+    .filter((text, index, texts) => texts.indexOf(text) === index)
+    .slice(0, max);
+}
+
+// Weighted 0-5 score for an aspect: positive mentions count as `good`,
+// neutral as `neutral` and negative as `bad`
+export function aspectScore(summary: AspectSummary, good = 5, neutral = 3, bad = 1): number {
+  const total = summary.positive + summary.neutral + summary.negative;
+  if (total === 0) return 0;
+  return (summary.positive * good + summary.neutral * neutral + summary.negative * bad) / total;
+}
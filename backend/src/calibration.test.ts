@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildCalibration,
+  buildQuantiles,
+  calibrateScore,
+  MIN_CALIBRATION_CAFES,
+  percentileOf,
+  targetScore,
+} from './calibration';
+
+// 20 cafes from 2.0 to 3.9, one every 0.1
+const spread = Array.from({ length: 20 }, (_, i) => Math.round((2 + i / 10) * 10) / 10);
+
+describe('buildQuantiles', () => {
+  it('stores 21 quantiles from the lowest to the highest score', () => {
+    const quantiles = buildQuantiles(spread);
+    assert.equal(quantiles.length, 21);
+    assert.equal(quantiles[0], 2);
+    assert.equal(quantiles[20], 3.9);
+  });
+
+  it('interpolates between neighbouring cafes', () => {
+    assert.deepEqual(buildQuantiles([1, 3]).slice(0, 3), [1, 1.1, 1.2]);
+    assert.equal(buildQuantiles([1, 3])[10], 2);
+  });
+
+  it('does not depend on the input order', () => {
+    assert.deepEqual(buildQuantiles([...spread].reverse()), buildQuantiles(spread));
+  });
+});
+
+describe('buildCalibration', () => {
+  it('leaves a city with too few scored cafes uncalibrated', () => {
+    assert.equal(buildCalibration('Toronto', spread.slice(0, MIN_CALIBRATION_CAFES - 1)), null);
+    assert.equal(buildCalibration('Toronto', []), null);
+  });
+
+  it('calibrates a city from MIN_CALIBRATION_CAFES on', () => {
+    const calibration = buildCalibration('Toronto', spread.slice(0, MIN_CALIBRATION_CAFES));
+    assert.equal(calibration?.city, 'Toronto');
+    assert.equal(calibration?.cafe_count, MIN_CALIBRATION_CAFES);
+    assert.deepEqual(calibration?.quantiles, buildQuantiles(spread.slice(0, MIN_CALIBRATION_CAFES)));
+  });
+});
+
+describe('percentileOf', () => {
+  const quantiles = buildQuantiles(spread);
+
+  it('puts scores outside the distribution at its ends', () => {
+    assert.equal(percentileOf(1.5, quantiles), 0);
+    assert.equal(percentileOf(4.5, quantiles), 1);
+  });
+
+  it('gives a score shared by every cafe the middle', () => {
+    assert.equal(percentileOf(3.5, buildQuantiles(Array(12).fill(3.5))), 0.5);
+  });
+
+  it('gives a run of tied scores the middle of the run', () => {
+    const tied = buildQuantiles([...Array(10).fill(3), ...Array(10).fill(4)]);
+    const percentile = percentileOf(3, tied);
+    assert.ok(percentile > 0 && percentile < 0.5, `${percentile}`);
+  });
+});
+
+describe('targetScore', () => {
+  it('hits the anchors', () => {
+    assert.equal(targetScore(0), 1);
+    assert.equal(targetScore(0.5), 3.3);
+    assert.equal(targetScore(0.9), 4.5);
+    assert.equal(targetScore(1), 5);
+  });
+
+  it('interpolates between anchors', () => {
+    assert.equal(targetScore(0.125), 1.75);
+  });
+});
+
+describe('calibrateScore', () => {
+  const quantiles = buildQuantiles(spread);
+
+  it('maps the median cafe to 3.3 and the best to 5', () => {
+    assert.equal(calibrateScore(3.9, quantiles), 5);
+    assert.equal(calibrateScore(2, quantiles), 1);
+    assert.equal(calibrateScore(2.95, quantiles), 3.3);
+  });
+
+  it('keeps the order of raw scores', () => {
+    const calibrated = spread.map(raw => calibrateScore(raw, quantiles));
+    assert.deepEqual(calibrated, [...calibrated].sort((a, b) => a - b));
+  });
+
+  it('rounds to one decimal', () => {
+    const calibrated = calibrateScore(3.33, quantiles);
+    assert.equal(calibrated, Math.round(calibrated * 10) / 10);
+  });
+
+  it('scores a city where every cafe ties at the median', () => {
+    assert.equal(calibrateScore(3.5, buildQuantiles(Array(12).fill(3.5))), 3.3);
+  });
+});
@@ -0,0 +1,91 @@
+// Raw work scores cluster (most cafes land between 3 and 4), and a 3.8 means
+// something different in a city full of laptop cafes than in one without.
+// Calibration maps each raw score to where it ranks among the other cafes in
+// its city, then onto one fixed scale: a calibrated 4.5 is the top 10% of its
+// city, 3.3 the median. Raw scores stay in work_score; the calibrated one goes
+// to work_score_calibrated. `npm run process calibrate` rebuilds every city's
+// distribution; cafes scored in between are calibrated against the last one.
+
+// =====================================================
+// TYPES
+// =====================================================
+
+// One city's raw work scores at every QUANTILE_STEP, as stored in score_calibrations
+export interface CityCalibration {
+  city: string;
+  quantiles: number[];
+  cafe_count: number;
+  computed_at: string;
+}
+
+// Percentile in the city → calibrated score, interpolated linearly in between
+export const CALIBRATION_TARGET: [percentile: number, score: number][] = [
+  [0, 1],
+  [0.25, 2.5],
+  [0.5, 3.3],
+  [0.75, 4],
+  [0.9, 4.5],
+  [1, 5],
+];
+
+// Below this many scored cafes a city's ranking says too little; its cafes
+// keep work_score_calibrated empty and show their raw score
+export const MIN_CALIBRATION_CAFES = 10;
+
+// Quantiles are stored every 5%
+const QUANTILE_STEPS = 20;
+
+// =====================================================
+// DISTRIBUTION
+// =====================================================
+
+// Raw score at 0%, 5%, ..., 100%, interpolated between neighbouring cafes
+export function buildQuantiles(rawScores: number[]): number[] {
+  const sorted = [...rawScores].sort((a, b) => a - b);
+  return Array.from({ length: QUANTILE_STEPS + 1 }, (_, step) => {
+    const position = (step / QUANTILE_STEPS) * (sorted.length - 1);
+    const [below, above] = [Math.floor(position), Math.ceil(position)];
+    return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+  });
+}
+
+// Where `raw` falls in the distribution, 0-1. A score shared by many cafes
+// (a run of equal quantiles) gets the middle of that run, so ties aren't
+// all pushed to the bottom or the top.
+export function percentileOf(raw: number, quantiles: number[]): number {
+  const last = quantiles.length - 1;
+  if (raw < quantiles[0]) return 0;
+  if (raw > quantiles[last]) return 1;
+
+  const first = quantiles.findIndex(q => q >= raw);
+  if (quantiles[first] === raw) {
+    let end = first;
+    while (end < last && quantiles[end + 1] === raw) end++;
+    return (first + end) / 2 / last;
+  }
+
+  const [low, high] = [quantiles[first - 1], quantiles[first]];
+  return (first - 1 + (raw - low) / (high - low)) / last;
+}
+
+export function targetScore(percentile: number): number {
+  const upper = CALIBRATION_TARGET.findIndex(([p]) => p >= percentile);
+  if (upper <= 0) return CALIBRATION_TARGET[0][1];
+  const [[p0, s0], [p1, s1]] = [CALIBRATION_TARGET[upper - 1], CALIBRATION_TARGET[upper]];
+  return s0 + ((s1 - s0) * (percentile - p0)) / (p1 - p0);
+}
+
+// Null below MIN_CALIBRATION_CAFES: the city's cafes keep their raw scores
+export function buildCalibration(city: string, rawScores: number[]): CityCalibration | null {
+  if (rawScores.length < MIN_CALIBRATION_CAFES) return null;
+  return {
+    city,
+    quantiles: buildQuantiles(rawScores),
+    cafe_count: rawScores.length,
+    computed_at: new Date().toISOString(),
+  };
+}
+
+export function calibrateScore(raw: number, quantiles: number[]): number {
+  return Math.round(targetScore(percentileOf(raw, quantiles)) * 10) / 10;
+}
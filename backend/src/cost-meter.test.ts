@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { BudgetExceededError, createCostMeter, estimateCost } from './cost-meter';
+
+// Keeps the ledger rows the meter inserts
+function fakeSupabase() {
+  const rows: Array<{ call_type: string; units: number; google_place_id: string | null }> = [];
+  const client = { from: () => ({ insert: async (inserted: typeof rows) => { rows.push(...inserted); return { error: null }; } }) };
+  return { rows, client: client as unknown as SupabaseClient };
+}
+
+describe('createCostMeter track', () => {
+  it('records the usage the result reports, against the current cafe', async () => {
+    const { rows, client } = fakeSupabase();
+    const meter = createCostMeter(client);
+    await meter.forPlace('ChIJ1', () => meter.track({ gemini_input: 1000 }, async () => 1200, tokens => ({ gemini_input: tokens })));
+    assert.deepEqual(rows.map(({ call_type, units, google_place_id }) => [call_type, units, google_place_id]), [['gemini_input', 1200, 'ChIJ1']]);
+    assert.equal(meter.spent(), estimateCost('gemini_input', 1200));
+  });
+
+  it('records the estimate when the call throws', async () => {
+    const { rows, client } = fakeSupabase();
+    const meter = createCostMeter(client);
+    await assert.rejects(meter.track({ places_details: 1 }, async () => { throw new Error('HTTP 500'); }, () => ({})), /HTTP 500/);
+    assert.deepEqual(rows.map(row => [row.call_type, row.units]), [['places_details', 1]]);
+    assert.equal(meter.spent(), estimateCost('places_details', 1));
+  });
+
+  it('refuses a call that would go over the budget', async () => {
+    const { rows, client } = fakeSupabase();
+    const meter = createCostMeter(client);
+    meter.start('import', 0.01);
+    let called = false;
+    await assert.rejects(meter.track({ places_details: 1 }, async () => { called = true; }, () => ({})), BudgetExceededError);
+    assert.equal(called, false);
+    assert.deepEqual(rows, []);
+  });
+});
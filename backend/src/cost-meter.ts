@@ -0,0 +1,144 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { log } from './logger';
+
+// =====================================================
+// PRICING (estimates, USD)
+// =====================================================
+
+// Update when a provider changes its prices; the ledger stores the cost at
+// the time of the call so history is unaffected
+export const PRICING = {
+  outscraper_place: { provider: 'outscraper', unit: 'place', cost: 0.003 },
+  outscraper_reviews: { provider: 'outscraper', unit: 'review', cost: 0.001 },
+  places_details: { provider: 'google_places', unit: 'request', cost: 0.025 },
+  places_photo: { provider: 'google_places', unit: 'photo', cost: 0.007 },
+  gemini_input: { provider: 'gemini', unit: 'token', cost: 0.10 / 1_000_000 },
+  gemini_output: { provider: 'gemini', unit: 'token', cost: 0.40 / 1_000_000 },
+} as const;
+
+export type CallType = keyof typeof PRICING;
+
+export function estimateCost(callType: CallType, units: number): number {
+  return PRICING[callType].cost * units;
+}
+
+// =====================================================
+// METER
+// =====================================================
+
+// Thrown before a call that would take the run past --budget
+export class BudgetExceededError extends Error {
+  constructor(public budget: number, public spent: number, public nextCost: number) {
+    super(`Budget of $${budget.toFixed(2)} reached ($${spent.toFixed(3)} spent, next call ~$${nextCost.toFixed(3)})`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export type Usage = Partial<Record<CallType, number>>;
+
+export function usageCost(usage: Usage): number {
+  return Object.entries(usage).reduce((sum, [callType, units]) => sum + estimateCost(callType as CallType, units || 0), 0);
+}
+
+// Every paid API call goes through track(): the budget is checked against the
+// estimated usage before the call, and the usage the result reports is
+// recorded after it. A call that throws is recorded at its estimate. Costs are attributed to whichever cafe the surrounding
+// forPlace() call is working on, so concurrent imports don't mix up their ledgers.
+export interface CostMeter {
+  readonly runId: string;
+  start(command: string, budget: number | null): void;
+  spent(): number;
+  track<T>(estimate: Usage, call: () => Promise<T>, used: (result: T) => Usage): Promise<T>;
+  forPlace<T>(googlePlaceId: string, fn: () => Promise<T>): Promise<T>;
+}
+
+export function createCostMeter(supabase: SupabaseClient): CostMeter {
+  const runId = randomUUID();
+  const currentPlace = new AsyncLocalStorage<string>();
+  let command = 'unknown';
+  let budget: number | null = null;
+  let total = 0;
+  // Estimated cost of calls in flight, so parallel lanes can't all squeeze under the cap
+  let pending = 0;
+
+  async function record(usage: Usage) {
+    const rows = Object.entries(usage)
+      .filter(([, units]) => units && units > 0)
+      .map(([callType, units]) => {
+        const price = PRICING[callType as CallType];
+        const cost = estimateCost(callType as CallType, units!);
+        total += cost;
+        return {
+          run_id: runId,
+          command,
+          provider: price.provider,
+          call_type: callType,
+          units,
+          unit: price.unit,
+          estimated_cost: cost,
+          google_place_id: currentPlace.getStore() || null,
+        };
+      });
+    if (rows.length === 0) return;
+
+    const { error } = await supabase.from('pipeline_costs').insert(rows);
+
+    // A missing ledger row shouldn't fail the cafe; the run total is still right
+    if (error) log.warn(`⚠️  Could not record API costs: ${error.message}`);
+  }
+
+  return {
+    runId,
+
+    start(runCommand, runBudget) {
+      command = runCommand;
+      budget = runBudget;
+    },
+
+    spent() {
+      return total;
+    },
+
+    async track(estimate, call, used) {
+      const nextCost = usageCost(estimate);
+      if (budget !== null && total + pending + nextCost > budget) {
+        throw new BudgetExceededError(budget, total + pending, nextCost);
+      }
+
+      pending += nextCost;
+      try {
+        // A failed call may still be billed; the estimate is the best we know
+        const result = await call().catch(async error => {
+          await record(estimate);
+          throw error;
+        });
+        await record(used(result));
+        return result;
+      } finally {
+        pending = Math.max(0, pending - nextCost);
+      }
+    },
+
+    forPlace(googlePlaceId, fn) {
+      return currentPlace.run(googlePlaceId, fn);
+    },
+  };
+}
+
+// A meter that never blocks or writes, for callers that don't track costs
+export function createNullMeter(): CostMeter {
+  let total = 0;
+  return {
+    runId: 'untracked',
+    start() {},
+    spent: () => total,
+    async track(_estimate, call, used) {
+      const result = await call();
+      total += usageCost(used(result));
+      return result;
+    },
+    forPlace: (_googlePlaceId, fn) => fn(),
+  };
+}
@@ -0,0 +1,249 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { readReview } from './aspects';
+import { log } from './logger';
+import { findCity } from '../../shared/cities';
+import type { AIScores, ReviewScorer, ScorableReview } from './scorers';
+
+// Offline evaluation of a scorer against backend/eval/golden-set.json: cafes
+// with their reviews and scores a person gave them after working there.
+// Gemini runs replay backend/eval/recorded-responses.json unless --live. The
+// checked-in answers are synthetic fixtures, marked as such in the file, until
+// someone records real ones: until then Gemini numbers only show the eval works.
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export const EVAL_DIR = path.join(__dirname, '../eval');
+
+export const EVAL_METRICS = [
+  'work_score', 'wifi_quality', 'noise_level', 'outlet_availability', 'seating_comfort', 'lighting_quality',
+] as const;
+
+export type EvalMetric = typeof EVAL_METRICS[number];
+
+export interface GoldenCafe {
+  id: string;                          // Stable key; not a database id
+  name: string;
+  city: string;                        // A city name from shared/cities.ts
+  reviews: { rating: number; text: string; date?: string }[];
+  labels: Record<EvalMetric, number>;  // Human scores, same 0-5 scales as the prompt
+}
+
+export interface EvalRun {
+  scorer: string;
+  version: string;
+  predictions: Map<string, AIScores>;   // By golden cafe id
+  failures: { cafe: string; error: string }[];
+}
+
+export interface MetricResult {
+  metric: EvalMetric;
+  count: number;
+  mae: number;                // Mean absolute error against the labels
+  bias: number;               // Mean signed error: positive = scores too high
+  spearman: number | null;    // Rank correlation with the labels; null below 3 cafes or with ties only
+}
+
+export interface MetricDrift {
+  metric: EvalMetric;
+  count: number;              // Cafes both versions scored
+  meanShift: number;          // Mean absolute difference between the two versions' scores
+  moved: number;              // Cafes whose score moved by DRIFT_THRESHOLD or more
+  maeChange: number;          // Negative = the current version is closer to the labels
+}
+
+// A score moving this much between versions is worth a look
+export const DRIFT_THRESHOLD = 0.5;
+
+// =====================================================
+// GOLDEN SET
+// =====================================================
+
+export async function loadGoldenSet(file: string): Promise<GoldenCafe[]> {
+  const { cafes } = JSON.parse(await fs.readFile(file, 'utf-8')) as { cafes: GoldenCafe[] };
+  const seen = new Set<string>();
+
+  cafes.forEach((cafe, index) => {
+    const where = `${path.basename(file)} cafe ${index + 1} (${cafe.id || 'no id'})`;
+    if (!cafe.id || seen.has(cafe.id)) throw new Error(`${where}: missing or duplicate id`);
+    if (!findCity(cafe.city)) throw new Error(`${where}: unknown city "${cafe.city}"`);
+    if (!Array.isArray(cafe.reviews) || cafe.reviews.length === 0) throw new Error(`${where}: no reviews`);
+    EVAL_METRICS.forEach(metric => {
+      const label = cafe.labels?.[metric];
+      if (typeof label !== 'number' || label < 0 || label > 5) throw new Error(`${where}: "${metric}" label must be 0-5`);
+    });
+    seen.add(cafe.id);
+  });
+
+  return cafes;
+}
+
+// Same selection as the pipeline: work-related reviews when there are any,
+// every review otherwise
+function scorableReviews(cafe: GoldenCafe, cityLanguage: string): { reviews: ScorableReview[]; hasWorkReviews: boolean } {
+  const read = cafe.reviews.map((review, index) => {
+    const { text, language, aspects, isWork } = readReview(review.text, cityLanguage);
+    return {
+      isWork,
+      review: {
+        google_review_id: `${cafe.id}-${index + 1}`,
+        rating: review.rating,
+        text,
+        language,
+        date: review.date ?? null,
+        mentions_wifi: aspects.some(a => a.aspect === 'wifi'),
+        mentions_noise: aspects.some(a => a.aspect === 'noise'),
+        review_aspects: aspects,
+      },
+    };
+  });
+
+  const work = read.filter(r => r.isWork);
+  return work.length > 0
+    ? { reviews: work.map(r => r.review), hasWorkReviews: true }
+    : { reviews: read.map(r => r.review), hasWorkReviews: false };
+}
+
+// One cafe failing (no recording, invalid answer) is reported, not fatal
+export async function runGoldenSet(cafes: GoldenCafe[], scorer: ReviewScorer): Promise<EvalRun> {
+  const run: EvalRun = { scorer: scorer.name, version: scorer.version, predictions: new Map(), failures: [] };
+
+  for (const cafe of cafes) {
+    const city = findCity(cafe.city)!;
+    const { reviews, hasWorkReviews } = scorableReviews(cafe, city.language);
+    try {
+      run.predictions.set(cafe.id, await scorer.score(reviews, hasWorkReviews, { city }));
+    } catch (error: any) {
+      run.failures.push({ cafe: cafe.id, error: error.message });
+    }
+  }
+
+  return run;
+}
+
+// =====================================================
+// METRICS
+// =====================================================
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// 1-based ranks, ties sharing the average of the ranks they span
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) result[order[i].index] = rank;
+    start = end + 1;
+  }
+  return result;
+}
+
+// Spearman's rho: Pearson correlation of the ranks, which handles ties
+export function spearman(xs: number[], ys: number[]): number | null {
+  if (xs.length !== ys.length || xs.length < 3) return null;
+  const [rx, ry] = [ranks(xs), ranks(ys)];
+  const [mx, my] = [mean(rx), mean(ry)];
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < rx.length; i++) {
+    covariance += (rx[i] - mx) * (ry[i] - my);
+    varianceX += (rx[i] - mx) ** 2;
+    varianceY += (ry[i] - my) ** 2;
+  }
+  return varianceX === 0 || varianceY === 0 ? null : covariance / Math.sqrt(varianceX * varianceY);
+}
+
+// A scorer may leave a metric empty (the heuristic's unmentioned noise);
+// such a cafe doesn't count towards that metric
+function predictionOf(run: EvalRun, cafe: GoldenCafe, metric: EvalMetric): number | null {
+  return run.predictions.get(cafe.id)?.[metric] ?? null;
+}
+
+export function scoreRun(cafes: GoldenCafe[], run: EvalRun): MetricResult[] {
+  return EVAL_METRICS.map(metric => {
+    const scored = cafes.filter(cafe => predictionOf(run, cafe, metric) !== null);
+    const labels = scored.map(cafe => cafe.labels[metric]);
+    const predicted = scored.map(cafe => predictionOf(run, cafe, metric)!);
+    const errors = predicted.map((value, i) => value - labels[i]);
+    return {
+      metric,
+      count: scored.length,
+      mae: mean(errors.map(Math.abs)),
+      bias: mean(errors),
+      spearman: spearman(predicted, labels),
+    };
+  });
+}
+
+// Compared on the cafes both runs scored, so a missing recording on one side
+// doesn't show up as drift
+export function compareRuns(cafes: GoldenCafe[], current: EvalRun, previous: EvalRun): MetricDrift[] {
+  const shared = cafes.filter(cafe => current.predictions.has(cafe.id) && previous.predictions.has(cafe.id));
+  const [currentResults, previousResults] = [scoreRun(shared, current), scoreRun(shared, previous)];
+
+  return EVAL_METRICS.map((metric, i) => {
+    const both = shared.filter(cafe => predictionOf(current, cafe, metric) !== null && predictionOf(previous, cafe, metric) !== null);
+    const shifts = both.map(cafe => Math.abs(predictionOf(current, cafe, metric)! - predictionOf(previous, cafe, metric)!));
+    return {
+      metric,
+      count: both.length,
+      meanShift: mean(shifts),
+      moved: shifts.filter(shift => shift >= DRIFT_THRESHOLD).length,
+      maeChange: currentResults[i].mae - previousResults[i].mae,
+    };
+  });
+}
+
+// =====================================================
+// REPORT
+// =====================================================
+
+function formatNumber(value: number | null, signed = false): string {
+  if (value === null) return '—';
+  return `${signed && value > 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+function printRows(rows: string[][]) {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  rows.forEach(row => log.info(`   ${row.map((cell, column) => cell.padEnd(widths[column])).join('  ')}`.trimEnd()));
+}
+
+// `synthetic` labels a run replayed from hand-written answers
+export function printEvalReport(cafes: GoldenCafe[], run: EvalRun, previous: EvalRun | null, synthetic = false) {
+  const label = synthetic ? ' (synthetic answers: a plumbing check, not a prompt evaluation)' : '';
+  log.info(`\n🧪 ${run.scorer} ${run.version} on ${cafes.length} golden cafes${label}\n`);
+
+  const results = scoreRun(cafes, run);
+  printRows([
+    ['metric', 'cafes', 'MAE', 'bias', 'spearman'],
+    ...results.map(r => [r.metric, String(r.count), formatNumber(r.mae), formatNumber(r.bias, true), formatNumber(r.spearman)]),
+  ]);
+  log.info(`\n   Mean MAE: ${formatNumber(mean(results.map(r => r.mae)))} over ${results[0].count} cafes`);
+
+  if (run.failures.length > 0) {
+    log.warn(`\n⚠️  ${run.failures.length} cafe(s) not scored:`);
+    run.failures.forEach(({ cafe, error }) => log.warn(`   ${cafe}: ${error}`));
+  }
+
+  if (!previous) return;
+
+  log.info(`\n↔️  Drift from ${previous.version}${label}:\n`);
+  const drift = compareRuns(cafes, run, previous);
+  printRows([
+    ['metric', 'mean shift', `moved ≥${DRIFT_THRESHOLD}`, 'MAE change'],
+    ...drift.map(d => [d.metric, formatNumber(d.meanShift), `${d.moved}/${d.count}`, formatNumber(d.maeChange, true)]),
+  ]);
+
+  if (previous.failures.length > 0) {
+    log.warn(`\n⚠️  ${previous.failures.length} cafe(s) not scored with ${previous.version}:`);
+    previous.failures.forEach(({ cafe, error }) => log.warn(`   ${cafe}: ${error}`));
+  }
+}
@@ -0,0 +1,122 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHttpClient, HttpTimeoutError, parseRetryAfter, type HttpClientOptions } from './http-client';
+import { configureLogging } from './logger';
+
+configureLogging({ level: 'error', format: 'pretty' });
+
+// Fast enough that retries don't slow the suite down
+const options = (overrides: Partial<HttpClientOptions> = {}): HttpClientOptions => ({
+  requestsPerSecond: 1000,
+  burst: 10,
+  timeoutMs: 1000,
+  maxRetries: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 5,
+  ...overrides,
+});
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-10-19T10:00:00Z');
+
+  it('reads seconds', () => {
+    assert.equal(parseRetryAfter('30', now), 30_000);
+  });
+
+  it('reads an HTTP date', () => {
+    assert.equal(parseRetryAfter('Mon, 19 Oct 2026 10:00:10 GMT', now), 10_000);
+    assert.equal(parseRetryAfter('Mon, 19 Oct 2026 09:59:00 GMT', now), 0);
+  });
+
+  it('ignores a missing or garbled header', () => {
+    assert.equal(parseRetryAfter(null, now), null);
+    assert.equal(parseRetryAfter('soon', now), null);
+  });
+});
+
+describe('createHttpClient run', () => {
+  it('retries transient errors until the call succeeds', async () => {
+    let calls = 0;
+    const client = createHttpClient('gemini', options());
+    const result = await client.run(async () => {
+      if (++calls < 3) throw httpError(503);
+      return 'scored';
+    });
+    assert.equal(result, 'scored');
+    assert.equal(calls, 3);
+  });
+
+  it('gives up after maxRetries with the last error', async () => {
+    let calls = 0;
+    const client = createHttpClient('gemini', options());
+    await assert.rejects(client.run(async () => {
+      calls++;
+      throw httpError(429);
+    }), /HTTP 429/);
+    assert.equal(calls, 3);
+  });
+
+  it('does not retry errors that are the caller\'s problem', async () => {
+    let calls = 0;
+    const client = createHttpClient('gemini', options());
+    await assert.rejects(client.run(async () => {
+      calls++;
+      throw httpError(400);
+    }), /HTTP 400/);
+    assert.equal(calls, 1);
+  });
+
+  it('turns a call that runs past timeoutMs into an HttpTimeoutError', async () => {
+    const client = createHttpClient('gemini', options({ timeoutMs: 20, maxRetries: 0 }));
+    // AbortSignal.timeout doesn't keep the process alive; a hanging request would
+    await assert.rejects(
+      client.run(signal => new Promise((_, reject) => {
+        const hanging = setTimeout(() => {}, 1000);
+        signal.addEventListener('abort', () => {
+          clearTimeout(hanging);
+          reject(signal.reason);
+        });
+      })),
+      HttpTimeoutError
+    );
+  });
+
+  it('spaces out calls beyond the burst', async () => {
+    const client = createHttpClient('gemini', options({ requestsPerSecond: 20, burst: 1 }));
+    const start = Date.now();
+    await Promise.all([1, 2, 3].map(() => client.run(async () => null)));
+    // The first token is free, the next two take 50ms each
+    assert.ok(Date.now() - start >= 90, `${Date.now() - start}ms`);
+  });
+});
+
+describe('createHttpClient fetch', () => {
+  const realFetch = globalThis.fetch;
+  afterEach(() => { globalThis.fetch = realFetch; });
+
+  it('retries a 429 after Retry-After and returns the good response', async () => {
+    const statuses = [429, 200];
+    globalThis.fetch = async () => new Response('{}', { status: statuses.shift(), headers: { 'retry-after': '0' } });
+    const response = await createHttpClient('google_places', options()).fetch('https://example.test/places');
+    assert.equal(response.status, 200);
+    assert.deepEqual(statuses, []);
+  });
+
+  it('returns the last retryable response once retries run out', async () => {
+    let calls = 0;
+    globalThis.fetch = async () => { calls++; return new Response('', { status: 503 }); };
+    const response = await createHttpClient('google_places', options()).fetch('https://example.test/places');
+    assert.equal(response.status, 503);
+    assert.equal(calls, 3);
+  });
+
+  it('returns other errors as they are', async () => {
+    let calls = 0;
+    globalThis.fetch = async () => { calls++; return new Response('', { status: 404 }); };
+    const response = await createHttpClient('google_places', options()).fetch('https://example.test/places');
+    assert.equal(response.status, 404);
+    assert.equal(calls, 1);
+  });
+});
@@ -0,0 +1,193 @@
+import { log } from './logger';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type Provider = 'outscraper' | 'google_places' | 'gemini';
+
+export interface HttpClientOptions {
+  requestsPerSecond: number;   // Sustained rate of the token bucket
+  burst: number;               // Requests allowed back-to-back before throttling
+  timeoutMs: number;           // Per attempt, not for the whole retry sequence
+  maxRetries: number;
+  baseDelayMs: number;         // First backoff step, doubled on each retry
+  maxDelayMs: number;          // Cap for both backoff and Retry-After
+}
+
+// One client per provider, shared by every module that calls it, so the
+// rate limit holds across photo downloads, place details and scoring alike.
+// `run` is for SDK calls (Gemini) that don't go through fetch directly.
+export interface HttpClient {
+  provider: Provider;
+  fetch(url: string, init?: RequestInit): Promise<Response>;
+  run<T>(call: (signal: AbortSignal) => Promise<T>): Promise<T>;
+}
+
+// Thrown when the last attempt of a request runs past timeoutMs
+export class HttpTimeoutError extends Error {
+  constructor(public provider: Provider, public timeoutMs: number) {
+    super(`${provider} request timed out after ${(timeoutMs / 1000).toFixed(0)}s`);
+    this.name = 'HttpTimeoutError';
+  }
+}
+
+// Outscraper's synchronous endpoints hold the connection open while they
+// scrape, hence the long timeout; Gemini's free tier allows ~15 requests/minute
+export const PROVIDER_LIMITS: Record<Provider, HttpClientOptions> = {
+  outscraper: { requestsPerSecond: 1, burst: 2, timeoutMs: 180_000, maxRetries: 3, baseDelayMs: 2_000, maxDelayMs: 60_000 },
+  google_places: { requestsPerSecond: 10, burst: 10, timeoutMs: 15_000, maxRetries: 4, baseDelayMs: 500, maxDelayMs: 30_000 },
+  gemini: { requestsPerSecond: 0.25, burst: 2, timeoutMs: 60_000, maxRetries: 4, baseDelayMs: 4_000, maxDelayMs: 60_000 },
+};
+
+// Rate limiting and server hiccups; everything else is the caller's problem
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// "Full jitter": a random delay up to the exponential step, so parallel
+// import lanes that failed together don't retry together
+function backoffDelay(attempt: number, options: HttpClientOptions): number {
+  return Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// Gemini reports its retry hint as a RetryInfo detail like { retryDelay: "31s" }
+function geminiRetryDelay(error: any): number | null {
+  const retryInfo = error?.errorDetails?.find((detail: any) => String(detail['@type']).endsWith('RetryInfo'));
+  const seconds = parseFloat(retryInfo?.retryDelay);
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+interface TokenBucket {
+  take(): Promise<void>;
+}
+
+function createTokenBucket(requestsPerSecond: number, burst: number): TokenBucket {
+  let tokens = burst;
+  let updatedAt = Date.now();
+  // Callers queue up so tokens are handed out in arrival order
+  let queue = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + (now - updatedAt) / 1000 * requestsPerSecond);
+    updatedAt = now;
+  };
+
+  return {
+    take() {
+      queue = queue.then(async () => {
+        refill();
+        if (tokens < 1) {
+          await sleep((1 - tokens) / requestsPerSecond * 1000);
+          refill();
+        }
+        tokens -= 1;
+      });
+      return queue;
+    },
+  };
+}
+
+// =====================================================
+// CLIENT
+// =====================================================
+
+interface Transient {
+  reason: string;
+  retryAfterMs: number | null;
+}
+
+export function createHttpClient(provider: Provider, options: HttpClientOptions = PROVIDER_LIMITS[provider]): HttpClient {
+  const bucket = createTokenBucket(options.requestsPerSecond, options.burst);
+
+  function transientError(error: any, signal: AbortSignal): Transient | null {
+    // SDKs wrap the abort in their own error types, so trust the signal
+    if (signal.aborted) return { reason: 'timed out', retryAfterMs: null };
+    if (RETRYABLE_STATUS.has(error?.status)) {
+      return { reason: `HTTP ${error.status}`, retryAfterMs: geminiRetryDelay(error) };
+    }
+    if (error instanceof TypeError || String(error?.message).includes('fetch failed')) {
+      return { reason: 'network error', retryAfterMs: null };
+    }
+    return null;
+  }
+
+  async function execute<T>(
+    call: (signal: AbortSignal) => Promise<T>,
+    transientResult: (result: T) => Transient | null,
+    discard: (result: T) => Promise<void> = async () => {}
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await bucket.take();
+      const signal = AbortSignal.timeout(options.timeoutMs);
+      let transient: Transient | null;
+
+      try {
+        const result = await call(signal);
+        transient = transientResult(result);
+        if (!transient || attempt >= options.maxRetries) return result;
+        await discard(result);
+      } catch (error) {
+        transient = transientError(error, signal);
+        if (!transient || attempt >= options.maxRetries) {
+          throw signal.aborted ? new HttpTimeoutError(provider, options.timeoutMs) : error;
+        }
+      }
+
+      const delay = Math.min(options.maxDelayMs, transient.retryAfterMs ?? backoffDelay(attempt, options));
+      log.warn(`   ⏳ ${provider} ${transient.reason}, retrying in ${(delay / 1000).toFixed(1)}s (${attempt + 1}/${options.maxRetries})`, {
+        provider,
+        reason: transient.reason,
+        attempt: attempt + 1,
+        delay_ms: Math.round(delay),
+      });
+      await sleep(delay);
+    }
+  }
+
+  return {
+    provider,
+
+    fetch(url, init = {}) {
+      return execute(
+        signal => fetch(url, { ...init, signal }),
+        response => RETRYABLE_STATUS.has(response.status)
+          ? { reason: `HTTP ${response.status}`, retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) }
+          : null,
+        // Free the connection before retrying
+        async response => { await response.body?.cancel(); }
+      );
+    },
+
+    run(call) {
+      return execute(call, () => null);
+    },
+  };
+}
+
+const clients = new Map<Provider, HttpClient>();
+
+export function getHttpClient(provider: Provider): HttpClient {
+  let client = clients.get(provider);
+  if (!client) {
+    client = createHttpClient(provider);
+    clients.set(provider, client);
+  }
+  return client;
+}
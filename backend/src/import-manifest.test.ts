@@ -0,0 +1,132 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { loadCheckpoint, loadManifest, runWithConcurrency, saveCheckpoint, splitCsvLine } from './import-manifest';
+
+let dir: string;
+
+before(async () => { dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cafe-manifest-')); });
+after(() => fs.rm(dir, { recursive: true, force: true }));
+
+async function manifest(name: string, content: string): Promise<string> {
+  const file = path.join(dir, name);
+  await fs.writeFile(file, content);
+  return file;
+}
+
+describe('splitCsvLine', () => {
+  it('splits on commas and trims cells', () => {
+    assert.deepEqual(splitCsvLine('ChIJ1, Toronto ,patio'), ['ChIJ1', 'Toronto', 'patio']);
+  });
+
+  it('keeps commas and escaped quotes inside quoted cells', () => {
+    assert.deepEqual(splitCsvLine('ChIJ1,"Toronto, ON","say ""hi"""'), ['ChIJ1', 'Toronto, ON', 'say "hi"']);
+  });
+
+  it('keeps empty cells', () => {
+    assert.deepEqual(splitCsvLine('ChIJ1,,'), ['ChIJ1', '', '']);
+  });
+});
+
+describe('loadManifest', () => {
+  it('reads a CSV with a header, in any column order', async () => {
+    const file = await manifest('header.csv', 'tags,place_id,city\n"patio;leslieville",ChIJ1,Toronto\n');
+    assert.deepEqual(await loadManifest(file), [{ place_id: 'ChIJ1', city: 'Toronto', tags: ['patio', 'leslieville'] }]);
+  });
+
+  it('splits tags on | too', async () => {
+    const file = await manifest('pipes.csv', 'place_id,tags\nChIJ1,patio | quiet\n');
+    assert.deepEqual((await loadManifest(file))[0].tags, ['patio', 'quiet']);
+  });
+
+  it('accepts google_place_id as the header', async () => {
+    const file = await manifest('google.csv', 'google_place_id\nChIJ1\n');
+    assert.deepEqual(await loadManifest(file), [{ place_id: 'ChIJ1', city: undefined, tags: undefined }]);
+  });
+
+  it('reads a bare list of place IDs, skipping comments and blank lines', async () => {
+    const file = await manifest('bare.txt', '# Leslieville\nChIJ1\n\nChIJ2\r\n');
+    assert.deepEqual((await loadManifest(file)).map(entry => entry.place_id), ['ChIJ1', 'ChIJ2']);
+  });
+
+  it('drops duplicates and blanks, keeping the first occurrence', async () => {
+    const file = await manifest('dupes.csv', 'place_id,city\nChIJ1,Toronto\n,Toronto\nChIJ1,Montreal\nChIJ2,\n');
+    assert.deepEqual(await loadManifest(file), [
+      { place_id: 'ChIJ1', city: 'Toronto', tags: undefined },
+      { place_id: 'ChIJ2', city: undefined, tags: undefined },
+    ]);
+  });
+
+  it('reads JSON strings and objects', async () => {
+    const file = await manifest('list.json', JSON.stringify(['ChIJ1', { place_id: 'ChIJ2', city: 'Montreal', tags: ['plateau'] }]));
+    assert.deepEqual(await loadManifest(file), [
+      { place_id: 'ChIJ1', city: undefined, tags: undefined },
+      { place_id: 'ChIJ2', city: 'Montreal', tags: ['plateau'] },
+    ]);
+  });
+
+  it('rejects JSON that is not an array', async () => {
+    const file = await manifest('object.json', '{"place_id": "ChIJ1"}');
+    await assert.rejects(loadManifest(file), /JSON manifest must be an array/);
+  });
+});
+
+describe('loadCheckpoint', () => {
+  it('starts empty when there is no checkpoint yet', async () => {
+    const checkpoint = await loadCheckpoint(path.join(dir, 'none.checkpoint.json'), 'cafes.csv');
+    assert.equal(checkpoint.manifest, path.resolve('cafes.csv'));
+    assert.deepEqual(checkpoint.completed, {});
+  });
+
+  it('resumes a checkpoint written for the same manifest', async () => {
+    const file = path.join(dir, 'same.checkpoint.json');
+    const checkpoint = await loadCheckpoint(file, 'cafes.csv');
+    checkpoint.completed.ChIJ1 = { cafe_id: 'cafe-1', status: 'processed', finished_at: '2026-10-19T10:00:00Z' };
+    await saveCheckpoint(file, checkpoint);
+    assert.deepEqual(Object.keys((await loadCheckpoint(file, 'cafes.csv')).completed), ['ChIJ1']);
+  });
+
+  it('refuses a checkpoint written for another manifest', async () => {
+    const file = path.join(dir, 'other.checkpoint.json');
+    await saveCheckpoint(file, await loadCheckpoint(file, 'montreal.csv'));
+    await assert.rejects(loadCheckpoint(file, 'toronto.csv'), /belongs to .*montreal\.csv/);
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('runs every item with at most `limit` in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const done: number[] = [];
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      done.push(item);
+      inFlight--;
+    });
+    assert.equal(peak, 2);
+    assert.deepEqual(done.sort(), [1, 2, 3, 4, 5]);
+  });
+
+  it('starts nothing new once told to stop, letting in-flight items finish', async () => {
+    const started: number[] = [];
+    const finished: number[] = [];
+    let stop = false;
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+      started.push(item);
+      if (item === 2) stop = true;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      finished.push(item);
+    }, () => stop);
+    assert.deepEqual(started, [1, 2]);
+    assert.deepEqual(finished.sort(), [1, 2]);
+  });
+
+  it('handles an empty list', async () => {
+    let calls = 0;
+    await runWithConcurrency([], 4, async () => { calls++; });
+    assert.equal(calls, 0);
+  });
+});
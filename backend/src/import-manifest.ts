@@ -0,0 +1,165 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface ManifestEntry {
+  place_id: string;
+  city?: string;
+  tags?: string[];
+}
+
+export interface ImportCheckpoint {
+  manifest: string;
+  updated_at: string;
+  completed: Record<string, { cafe_id: string; status: string; finished_at: string }>;
+  failed: Record<string, { error: string; failed_at: string }>;
+}
+
+// =====================================================
+// MANIFEST PARSING
+// =====================================================
+
+// Tags can be separated by ; or | inside a CSV cell, or given as a JSON array
+function parseTags(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    return value.map(tag => String(tag).trim()).filter(Boolean);
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value.split(/[;|]/).map(tag => tag.trim()).filter(Boolean);
+  }
+  return undefined;
+}
+
+function toEntry(row: Record<string, unknown>): ManifestEntry {
+  const placeId = String(row.place_id || row.google_place_id || '').trim();
+  const city = typeof row.city === 'string' && row.city.trim() !== '' ? row.city.trim() : undefined;
+  return { place_id: placeId, city, tags: parseTags(row.tags) };
+}
+
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      current += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+// CSV with a header row (place_id required; city and tags optional), or a bare
+// list with one place ID per line
+function parseCsvManifest(content: string): ManifestEntry[] {
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  if (lines.length === 0) return [];
+
+  const header = splitCsvLine(lines[0]).map(cell => cell.toLowerCase());
+  const hasHeader = header.includes('place_id') || header.includes('google_place_id');
+  if (!hasHeader) {
+    return lines.map(line => toEntry({ place_id: splitCsvLine(line)[0] }));
+  }
+
+  return lines.slice(1).map(line => {
+    const cells = splitCsvLine(line);
+    const row: Record<string, string> = {};
+    header.forEach((column, i) => { row[column] = cells[i] || ''; });
+    return toEntry(row);
+  });
+}
+
+// JSON: ["ChIJ...", ...] or [{ "place_id": "ChIJ...", "city": "...", "tags": [...] }, ...]
+function parseJsonManifest(content: string): ManifestEntry[] {
+  const data = JSON.parse(content);
+  if (!Array.isArray(data)) {
+    throw new Error('JSON manifest must be an array of place IDs or { place_id, city, tags } objects');
+  }
+  return data.map(item => typeof item === 'string' ? toEntry({ place_id: item }) : toEntry(item));
+}
+
+export async function loadManifest(file: string): Promise<ManifestEntry[]> {
+  const content = await fs.readFile(file, 'utf-8');
+  const entries = path.extname(file).toLowerCase() === '.json'
+    ? parseJsonManifest(content)
+    : parseCsvManifest(content);
+
+  // Drop blanks and duplicates, keeping the first occurrence
+  const seen = new Set<string>();
+  return entries.filter(entry => {
+    if (!entry.place_id || seen.has(entry.place_id)) return false;
+    seen.add(entry.place_id);
+    return true;
+  });
+}
+
+// =====================================================
+// CHECKPOINT
+// =====================================================
+
+export function defaultCheckpointPath(manifestFile: string): string {
+  return `${manifestFile}.checkpoint.json`;
+}
+
+// A checkpoint written for another manifest would silently skip its place
+// IDs here, so it is refused rather than resumed
+export async function loadCheckpoint(file: string, manifestFile: string): Promise<ImportCheckpoint> {
+  const manifest = path.resolve(manifestFile);
+  let checkpoint: ImportCheckpoint;
+  try {
+    checkpoint = JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') throw error;
+    return { manifest, updated_at: new Date().toISOString(), completed: {}, failed: {} };
+  }
+
+  if (checkpoint.manifest !== manifest) {
+    throw new Error(`Checkpoint ${file} belongs to ${checkpoint.manifest}, not ${manifest}; pass another --checkpoint or delete it`);
+  }
+  return checkpoint;
+}
+
+// Writes to a temp file first so a crash mid-write can't corrupt the checkpoint
+export async function saveCheckpoint(file: string, checkpoint: ImportCheckpoint): Promise<void> {
+  checkpoint.updated_at = new Date().toISOString();
+  const tempFile = `${file}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(checkpoint, null, 2));
+  await fs.rename(tempFile, file);
+}
+
+// =====================================================
+// CONCURRENCY
+// =====================================================
+
+// Runs `worker` over `items` with at most `limit` in flight. Once `shouldStop`
+// returns true no new items are started; in-flight ones are allowed to finish.
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+
+  async function lane() {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+}
@@ -0,0 +1,185 @@
+// =====================================================
+// ASPECT LEXICON
+// =====================================================
+
+export const ASPECTS = [
+  'wifi', 'outlets', 'seating', 'noise', 'lighting', 'laptop_policy', 'time_limits', 'calls',
+] as const;
+
+export type Aspect = typeof ASPECTS[number];
+
+// How a clause is recognised as talking about an aspect, and which cues make it
+// good (positive) or bad (negative) for remote work. Cues preceded by a negation
+// ("not loud at all", "no time limit") flip polarity. Aspects with requireCue
+// are only tagged when a cue is present, since words like "table" or "call"
+// show up in plenty of reviews that say nothing about working there.
+export interface AspectRule {
+  aspect: Aspect;
+  mention: RegExp;
+  positive: RegExp[];
+  negative: RegExp[];
+  requireCue?: boolean;
+}
+
+export const ASPECT_RULES: AspectRule[] = [
+  {
+    aspect: 'wifi',
+    mention: /\b(wi-?fi|internet|connection)\b/i,
+    positive: [/\bfast(er|est)?\b/i, /\breliable\b/i, /\b(good|great|excellent|solid|decent|strong|stable)\b/i, /\bfree\b/i],
+    negative: [/\bslow(er|est)?\b/i, /\bspotty\b/i, /\bweak\b/i, /\bunreliable\b/i, /\b(bad|terrible|awful|patchy)\b/i, /\bdrop(s|ped|ping)?\b/i, /\b(no|without)\s+(free\s+)?(wi-?fi|internet)\b/i],
+  },
+  {
+    aspect: 'outlets',
+    mention: /\b(outlets?|plugs?|sockets?|charging|power)\b/i,
+    positive: [/\b(plenty|lots|many|ample)\b/i, /\b(available|everywhere|easy)\b/i, /\bevery (table|seat)\b/i],
+    negative: [/\b(few|limited|scarce)\b/i, /\bhard to find\b/i, /\b(no|without)\s+(outlets?|plugs?|sockets?)\b/i],
+  },
+  {
+    aspect: 'seating',
+    mention: /\b(seat(s|ing)?|tables?|chairs?|couch(es)?|benches?|booths?|space)\b/i,
+    positive: [/\b(comfortable|comfy|spacious|roomy|ample|plenty|lots)\b/i, /\b(big|large|long|communal)\b/i],
+    negative: [/\b(uncomfortable|cramped|tiny|small|limited|few)\b/i, /\b(crowded|packed|full)\b/i, /\bnowhere to sit\b/i],
+    requireCue: true,
+  },
+  {
+    aspect: 'noise',
+    mention: /\b(quiet|loud|noisy|noise|music|calm|peaceful|chatter)\b/i,
+    positive: [/\b(quiet|calm|peaceful)\b/i, /\b(low|soft)\b/i],
+    negative: [/\b(loud|noisy|blasting|chatter)\b/i, /\bhard to hear\b/i],
+    requireCue: true,
+  },
+  {
+    aspect: 'lighting',
+    mention: /\b(light(ing)?|lit|windows?|sunlight|sunny|bright|dark|dim|lamps?)\b/i,
+    positive: [/\b(bright|sunny|airy)\b/i, /\b(natural|plenty of|lots of) (light|sunlight)\b/i, /\b(big|large|huge) windows?\b/i, /\bwell[- ]lit\b/i],
+    negative: [/\b(dark|dim|dimly|gloomy|cave-like)\b/i, /\bpoor(ly)? (lighting|lit)\b/i],
+    requireCue: true,
+  },
+  {
+    aspect: 'laptop_policy',
+    mention: /\b(laptops?|macbooks?|computers?)\b/i,
+    positive: [/\b(welcome|allowed|friendly|fine|ok|okay)\b/i, /\b(brought|bring|plenty of)\b/i],
+    negative: [/\b(banned|prohibited|discouraged?|frowned)\b/i, /\blaptop-free\b/i, /\bno\s+laptops?\b/i],
+  },
+  {
+    aspect: 'time_limits',
+    mention: /\b(time limits?|\d+[- ]?(hours?|hrs?|minutes?|mins?)\s+(limit|max)|stay(ed|ing)?|kicked out|asked to leave|rushed|bother(ing|ed)?)\b/i,
+    positive: [/\bas long as\b/i, /\ball day\b/i, /\bfor (hours|\w+ hours)\b/i],
+    negative: [/\blimits?\b/i, /\bmax\b/i, /\bkicked out\b/i, /\basked to leave\b/i, /\brushed\b/i, /\bbother(ing|ed)?\b/i],
+    requireCue: true,
+  },
+  {
+    aspect: 'calls',
+    mention: /\b((phone|video|zoom|work) calls?|take (a )?calls?|took (a )?calls?|meetings?|zoom)\b/i,
+    positive: [/\b(fine|easy|possible|good|great|perfect)\b/i, /\btook\b/i],
+    negative: [/\b(hard|difficult|impossible|awkward|tough)\b/i, /\bcan'?t\b/i],
+  },
+];
+
+// Mentions of working there that don't belong to a specific aspect
+export const WORK_TERMS = /\b(work(ing)?|study(ing)?|remote|focus|productive|cowork(ing)?|workspace|laptops?)\b/i;
+
+export const NEGATIONS = /\b(not|no|never|isn'?t|wasn'?t|aren'?t|weren'?t|don'?t|doesn'?t|didn'?t|without|hardly|barely)\b|n't\b/i;
+
+// Sentence ends and contrastive conjunctions, so "great coffee but slow wifi"
+// keeps the two halves apart
+export const CLAUSE_BREAKS = /[.!?;\n]+|\bbut\b|\bhowever\b|\bthough\b/i;
+
+// =====================================================
+// FRENCH LEXICON
+// =====================================================
+
+// \b only knows ASCII letters, so "café" or "prises" after an apostrophe
+// ("l'éclairage") need Unicode-aware boundaries instead
+function fr(pattern: string): RegExp {
+  return new RegExp(`(?<!\\p{L})(?:${pattern})(?!\\p{L})`, 'iu');
+}
+
+export const FRENCH_ASPECT_RULES: AspectRule[] = [
+  {
+    aspect: 'wifi',
+    mention: fr('wi-?fi|internet|connexion|réseau'),
+    positive: [fr('rapides?'), fr('fiables?'), fr('bon|bonne|excellente?|stable|solide'), fr('gratuite?')],
+    negative: [fr('lente?s?'), fr('faible'), fr('instable'), fr('mauvaise?|nulle?|capricieuse?'), fr('coupe|coupures?'), fr('(pas de|sans) (wi-?fi|internet)')],
+  },
+  {
+    aspect: 'outlets',
+    mention: fr('prises?( électriques?)?|recharger|chargeurs?|brancher'),
+    positive: [fr('plein|beaucoup|nombreuses|plusieurs'), fr('disponibles?|partout|facile'), fr('à chaque (table|place)'), fr('(il y a |on trouve )?des prises')],
+    negative: [fr('peu|rares?|limitées?'), fr('difficiles? à trouver'), fr('(pas de|aucune|sans) prises?')],
+  },
+  {
+    aspect: 'seating',
+    mention: fr('places?|tables?|chaises?|fauteuils?|canapés?|banquettes?|espace'),
+    positive: [fr('confortables?|spacieux|spacieuse|vaste|beaucoup'), fr('grande?s?|longues?|communes?')],
+    negative: [fr('inconfortables?|serrée?s?|petite?s?|exiguë?|limitée?s?'), fr('bondée?s?|pleine?|complet'), fr('nulle part où s\'asseoir')],
+    requireCue: true,
+  },
+  {
+    aspect: 'noise',
+    mention: fr('calme|bruyante?s?|bruit|musique|tranquille|paisible|silencieux|silencieuse'),
+    positive: [fr('calme|tranquille|paisible|silencieux|silencieuse'), fr('basse|douce|doux')],
+    negative: [fr('bruyante?s?|bruit'), fr('forte?|trop fort')],
+    requireCue: true,
+  },
+  {
+    aspect: 'lighting',
+    mention: fr('lumière|lumineux|lumineuse|éclairage|éclairée?|fenêtres?|soleil|ensoleillée?|sombre'),
+    positive: [fr('lumineux|lumineuse|ensoleillée?'), fr('lumière naturelle'), fr('grandes? fenêtres?|baies vitrées'), fr('bien éclairée?')],
+    negative: [fr('sombre|obscure?|tamisée?'), fr('mal éclairée?')],
+    requireCue: true,
+  },
+  {
+    aspect: 'laptop_policy',
+    mention: fr('ordinateurs?( portables?)?|ordis?|laptops?|macbooks?'),
+    positive: [fr('bienvenus?|acceptés?|permis|autorisés?'), fr('apporter|apporté|plein de')],
+    negative: [fr('interdits?|interdiction'), fr('sans ordinateurs?|sans laptops?')],
+  },
+  {
+    aspect: 'time_limits',
+    mention: fr('limite de temps|temps limité|\\d+ ?(h|heures?|minutes?|min) (max|maximum)|rester|resté|mise? dehors|demandé de partir|pressée?s?|déranger|dérangée?s?'),
+    positive: [fr('aussi longtemps'), fr('toute la journée'), fr('pendant des heures')],
+    negative: [fr('limites?|limitée?'), fr('max|maximum'), fr('mise? dehors'), fr('demandé de partir'), fr('pressée?s?'), fr('déranger|dérangée?s?')],
+    requireCue: true,
+  },
+  {
+    aspect: 'calls',
+    mention: fr('appels?( vidéo| téléphoniques?)?|visio(conférences?)?|réunions?|zoom|téléphoner'),
+    positive: [fr('facile|possible|bien|parfait'), fr('fait|passé')],
+    negative: [fr('difficile|impossible|gênant|compliqué')],
+  },
+];
+
+export const FRENCH_WORK_TERMS = fr('travailler|travail|télétravail|étudier|études?|réviser|concentrer|concentration|productive?|productif|coworking|bosser|ordis?');
+
+// "ne"/"n'" are left out: spoken French drops them, and the "pas" or "jamais"
+// that follows is what negates. Keeping them would flip cues like "pas de wifi".
+export const FRENCH_NEGATIONS = fr('pas|jamais|aucune?|sans|guère|plus vraiment|ni');
+
+export const FRENCH_CLAUSE_BREAKS = new RegExp(`[.!?;\\n]+|${fr('mais|cependant|pourtant|par contre|toutefois').source}`, 'iu');
+
+// =====================================================
+// LEXICONS BY LANGUAGE
+// =====================================================
+
+// Review languages we can tag aspects in (ISO 639-1). Reviews in any other
+// language are still stored and scored, just with the fallback lexicon.
+export const REVIEW_LANGUAGES = ['en', 'fr'] as const;
+
+export type ReviewLanguage = typeof REVIEW_LANGUAGES[number];
+
+export interface Lexicon {
+  rules: AspectRule[];
+  workTerms: RegExp;
+  negations: RegExp;
+  clauseBreaks: RegExp;
+}
+
+export const LEXICONS: Record<ReviewLanguage, Lexicon> = {
+  en: { rules: ASPECT_RULES, workTerms: WORK_TERMS, negations: NEGATIONS, clauseBreaks: CLAUSE_BREAKS },
+  fr: { rules: FRENCH_ASPECT_RULES, workTerms: FRENCH_WORK_TERMS, negations: FRENCH_NEGATIONS, clauseBreaks: FRENCH_CLAUSE_BREAKS },
+};
+
+export function isReviewLanguage(language: string | null | undefined): language is ReviewLanguage {
+  return (REVIEW_LANGUAGES as readonly string[]).includes(language ?? '');
+}
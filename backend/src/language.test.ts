@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractAspects, readReview } from './aspects';
+import { detectLanguage, formatLanguageMix, languageMix, lexiconLanguage, originalReviewText } from './language';
+
+const polarities = (text: string) => extractAspects(text, 'fr').map(({ aspect, polarity }) => [aspect, polarity]);
+
+describe('detectLanguage', () => {
+  it('tells English from French by their function words', () => {
+    assert.equal(detectLanguage('The wifi is fast and there are plenty of outlets'), 'en');
+    assert.equal(detectLanguage('Le wifi est rapide et il y a des prises'), 'fr');
+  });
+
+  it('leaves short or mixed reviews undetermined', () => {
+    assert.equal(detectLanguage('Great coffee!'), 'und');
+    assert.equal(detectLanguage(''), 'und');
+    assert.equal(detectLanguage('Le wifi is great et the outlets est bon'), 'und');
+  });
+});
+
+describe('originalReviewText', () => {
+  it('keeps the original behind a Google translation', () => {
+    const text = '(Translated by Google) Fast wifi\n\n(Original)\nLe wifi est rapide';
+    assert.equal(originalReviewText(text), 'Le wifi est rapide');
+    assert.equal(originalReviewText('(Traduit par Google) Wifi rapide\n\n(Texte d\'origine)\nFast wifi'), 'Fast wifi');
+  });
+
+  it('leaves untranslated reviews alone', () => {
+    assert.equal(originalReviewText('Fast wifi'), 'Fast wifi');
+  });
+});
+
+describe('lexiconLanguage', () => {
+  it('reads a review in its own language when there is a lexicon for it', () => {
+    assert.equal(lexiconLanguage('fr', 'en'), 'fr');
+  });
+
+  it('falls back to the city\'s language, then English', () => {
+    assert.equal(lexiconLanguage('und', 'fr'), 'fr');
+    assert.equal(lexiconLanguage(null, 'fr'), 'fr');
+    assert.equal(lexiconLanguage('de', 'de'), 'en');
+  });
+});
+
+describe('languageMix', () => {
+  it('counts reviews per language, unknown ones as und', () => {
+    assert.deepEqual(languageMix(['en', 'fr', 'en', 'und', null, 'de']), { en: 2, fr: 1, und: 3 });
+  });
+
+  it('formats the largest share first', () => {
+    assert.equal(formatLanguageMix({ fr: 1, en: 3 }), 'en 75%, fr 25%');
+    assert.equal(formatLanguageMix(null), '-');
+  });
+});
+
+describe('French aspects', () => {
+  it('reads outlets that are simply there as a plus', () => {
+    assert.deepEqual(polarities('Le wifi est rapide et il y a des prises'), [['wifi', 'positive'], ['outlets', 'positive']]);
+    assert.deepEqual(polarities('On trouve des prises près des fenêtres'), [['outlets', 'positive']]);
+  });
+
+  it('reads missing or scarce outlets as a minus', () => {
+    assert.deepEqual(polarities('Il n\'y a pas de prises'), [['outlets', 'negative']]);
+    assert.deepEqual(polarities('Peu de prises'), [['outlets', 'negative']]);
+  });
+
+  it('flips a cue after a negation', () => {
+    assert.deepEqual(polarities('Pas bruyant du tout'), [['noise', 'positive']]);
+  });
+
+  it('splits clauses on mais', () => {
+    assert.deepEqual(extractAspects('Des prises partout, mais la musique est trop forte', 'fr'), [
+      { aspect: 'outlets', polarity: 'positive', evidence: 'Des prises partout,' },
+      { aspect: 'noise', polarity: 'negative', evidence: 'la musique est trop forte' },
+    ]);
+  });
+
+  it('reads the original of a translated review with the French lexicon', () => {
+    const review = readReview('(Translated by Google) Fast wifi\n\n(Original)\nLe wifi est rapide et il y a des prises', 'en');
+    assert.equal(review.language, 'fr');
+    assert.equal(review.lexicon, 'fr');
+    assert.equal(review.isWork, true);
+  });
+});
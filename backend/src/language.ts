@@ -0,0 +1,80 @@
+import { isReviewLanguage, type ReviewLanguage } from './keywords';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+// 'und' (undetermined, as in BCP 47) for reviews too short or too mixed to call
+export type DetectedLanguage = ReviewLanguage | 'und';
+
+// Review counts per language, as stored in cafes.language_mix
+export type LanguageMix = Partial<Record<DetectedLanguage, number>>;
+
+// Frequent function words that rarely appear in the other language. Short
+// reviews ("Great coffee!") often have none, which is what 'und' is for.
+const STOPWORDS: Record<ReviewLanguage, Set<string>> = {
+  en: new Set([
+    'the', 'and', 'is', 'was', 'it', 'to', 'of', 'for', 'with', 'this', 'that', 'but', 'very', 'are',
+    'have', 'has', 'not', 'they', 'you', 'my', 'we', 'i', 'great', 'good', 'place', 'there', 'if', 'in',
+  ]),
+  fr: new Set([
+    'le', 'la', 'les', 'et', 'est', 'un', 'une', 'des', 'du', 'de', 'très', 'pour', 'avec', 'mais', 'pas',
+    'je', 'nous', 'il', 'elle', 'on', 'au', 'aux', 'sur', 'dans', 'bien', 'bon', 'bonne', 'c', 'j', 'qui', 'y',
+  ]),
+};
+
+// The winning language needs this many stopword hits, and this share of all hits
+const MIN_STOPWORDS = 2;
+const MIN_SHARE = 0.6;
+
+// =====================================================
+// DETECTION
+// =====================================================
+
+// Google sometimes serves machine translations as
+// "(Translated by Google) ...\n\n(Original)\n...". Only the original tells us
+// what language the reviewer wrote in, and it's what the lexicons should read.
+export function originalReviewText(text: string): string {
+  const match = /\((?:Original|Texte d'origine|Avis d'origine)\)\s*([\s\S]+)$/i.exec(text || '');
+  return match ? match[1].trim() : text || '';
+}
+
+export function detectLanguage(text: string): DetectedLanguage {
+  const words = (text || '').toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+
+  const hits = (Object.keys(STOPWORDS) as ReviewLanguage[])
+    .map(language => ({ language, count: words.filter(word => STOPWORDS[language].has(word)).length }))
+    .sort((a, b) => b.count - a.count);
+
+  const total = hits.reduce((sum, { count }) => sum + count, 0);
+  const [best] = hits;
+  if (best.count < MIN_STOPWORDS || best.count / total < MIN_SHARE) return 'und';
+  return best.language;
+}
+
+// Undetermined reviews (and any language without a lexicon) are read with
+// the city's main language, falling back to English
+export function lexiconLanguage(language: string | null | undefined, cityLanguage: string): ReviewLanguage {
+  if (isReviewLanguage(language)) return language;
+  return isReviewLanguage(cityLanguage) ? cityLanguage : 'en';
+}
+
+export function languageMix(languages: (string | null | undefined)[]): LanguageMix {
+  const mix: LanguageMix = {};
+  for (const language of languages) {
+    const key: DetectedLanguage = isReviewLanguage(language) ? language : 'und';
+    mix[key] = (mix[key] || 0) + 1;
+  }
+  return mix;
+}
+
+// "en 64%, fr 36%" for logs and admin output, largest first
+export function formatLanguageMix(mix: LanguageMix | null | undefined): string {
+  const entries = Object.entries(mix || {}).filter(([, count]) => count && count > 0) as [string, number][];
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+  if (total === 0) return '-';
+  return entries
+    .sort((a, b) => b[1] - a[1])
+    .map(([language, count]) => `${language} ${Math.round((count / total) * 100)}%`)
+    .join(', ');
+}
@@ -0,0 +1,86 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'pretty' | 'json';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // A heading between pipeline stages; a ===== banner when pretty-printing
+  section(title: string): void;
+}
+
+export interface LoggingOptions {
+  level: LogLevel;
+  format: LogFormat;
+  fields?: LogFields;   // Added to every JSON line, e.g. the run ID
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// =====================================================
+// LOGGER
+// =====================================================
+
+let options: LoggingOptions = { level: 'info', format: 'pretty' };
+const context = new AsyncLocalStorage<LogFields>();
+
+export function configureLogging(next: LoggingOptions) {
+  options = next;
+}
+
+// Fields such as the cafe being processed, attached to every line logged
+// inside `fn` (including from concurrent import lanes)
+export function withLogContext<T>(fields: LogFields, fn: () => Promise<T>): Promise<T> {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+// JSON lines carry the facts in fields; the emoji and layout are for people
+function plainMessage(message: string): string {
+  return message.replace(/[\p{Extended_Pictographic}\u{FE0F}]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+function write(level: LogLevel, message: string, fields?: LogFields) {
+  if (LEVELS[level] < LEVELS[options.level]) return;
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      msg: plainMessage(message),
+      ...options.fields,
+      ...context.getStore(),
+      ...fields,
+    }));
+    return;
+  }
+
+  if (level === 'error') console.error(message);
+  // Pretty output already says it all in the message, except for debug detail
+  else if (level === 'debug' && fields) console.log(`${message}: ${JSON.stringify(fields)}`);
+  else console.log(message);
+}
+
+export const log: Logger = {
+  debug: (message, fields) => write('debug', message, fields),
+  info: (message, fields) => write('info', message, fields),
+  warn: (message, fields) => write('warn', message, fields),
+  error: (message, fields) => write('error', message, fields),
+
+  section(title) {
+    if (options.format === 'json') {
+      write('info', title);
+      return;
+    }
+    write('info', '\n' + '='.repeat(60));
+    write('info', title);
+    write('info', '='.repeat(60));
+  },
+};
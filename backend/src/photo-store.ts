@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getHttpClient } from './http-client';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface PhotoAttribution {
+  display_name: string;
+  uri?: string;
+}
+
+// A photo as listed by Google Places; `name` is places/<id>/photos/<ref>
+export interface PlacePhoto {
+  name: string;
+  width: number;
+  height: number;
+  attributions: PhotoAttribution[];
+}
+
+export interface DownloadedPhoto {
+  data: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+}
+
+// Where mirrored photos live. `save` returns the public URL the frontend
+// should use; nothing it returns may point back at Google.
+export interface PhotoStore {
+  name: string;
+  save(storagePath: string, data: Buffer, contentType: string): Promise<string>;
+  remove(storagePaths: string[]): Promise<void>;
+}
+
+export const DEFAULT_PHOTO_BUCKET = 'cafe-photos';
+export const PHOTO_MAX_WIDTH = 1200;
+
+// =====================================================
+// STORES
+// =====================================================
+
+export function createSupabasePhotoStore(supabase: SupabaseClient, bucket = DEFAULT_PHOTO_BUCKET): PhotoStore {
+  return {
+    name: `supabase:${bucket}`,
+
+    async save(storagePath, data, contentType) {
+      const { error } = await supabase.storage
+        .from(bucket)
+        .upload(storagePath, data, { contentType, upsert: true });
+      if (error) throw error;
+      return supabase.storage.from(bucket).getPublicUrl(storagePath).data.publicUrl;
+    },
+
+    async remove(storagePaths) {
+      if (storagePaths.length === 0) return;
+      const { error } = await supabase.storage.from(bucket).remove(storagePaths);
+      if (error) throw error;
+    },
+  };
+}
+
+// Stand-in for Supabase Storage in development: files go under `dir` and are
+// served from `baseUrl` (by default the frontend's public folder)
+export function createLocalPhotoStore(dir: string, baseUrl: string): PhotoStore {
+  return {
+    name: `local:${dir}`,
+
+    async save(storagePath, data) {
+      const file = path.join(dir, storagePath);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, data);
+      return `${baseUrl.replace(/\/$/, '')}/${storagePath}`;
+    },
+
+    async remove(storagePaths) {
+      await Promise.all(storagePaths.map(storagePath => fs.rm(path.join(dir, storagePath), { force: true })));
+    },
+  };
+}
+
+// =====================================================
+// DOWNLOAD (Google Places photo media)
+// =====================================================
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+// The content hash makes every new photo a new object: public URLs can be
+// cached forever, and the file it replaced is deleted rather than overwritten
+export function photoStoragePath(placeId: string, position: number, photo: DownloadedPhoto): string {
+  const hash = createHash('sha256').update(photo.data).digest('hex').slice(0, 16);
+  return `${placeId}/${position}-${hash}.${EXTENSIONS[photo.contentType] || 'jpg'}`;
+}
+
+// Google scales the image down to maxWidthPx, keeping its aspect ratio
+function scaledDimensions(photo: PlacePhoto, maxWidth: number): { width: number; height: number } {
+  if (!photo.width || !photo.height || photo.width <= maxWidth) {
+    return { width: photo.width, height: photo.height };
+  }
+  return { width: maxWidth, height: Math.round(photo.height * maxWidth / photo.width) };
+}
+
+// The API key is only ever used here, server-side; the bytes are re-hosted
+export async function downloadPlacePhoto(photo: PlacePhoto, apiKey: string, maxWidth = PHOTO_MAX_WIDTH): Promise<DownloadedPhoto> {
+  const response = await getHttpClient('google_places').fetch(
+    `https://places.googleapis.com/v1/${photo.name}/media?maxWidthPx=${maxWidth}&key=${apiKey}`
+  );
+
+  if (!response.ok) {
+    throw new Error(`Google Places photo error: ${response.status} ${response.statusText}`);
+  }
+
+  const contentType = (response.headers.get('content-type') || 'image/jpeg').split(';')[0].trim();
+  return {
+    data: Buffer.from(await response.arrayBuffer()),
+    contentType,
+    ...scaledDimensions(photo, maxWidth),
+  };
+}
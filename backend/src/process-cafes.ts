@@ -1,75 +1,188 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import dotenv from 'dotenv';
+import fs from 'fs/promises';
 import path from 'path';
+import { parseArgs } from 'util';
+import { randomUUID } from 'crypto';
+import {
+  createFixtureSource,
+  createMeteredSource,
+  createOutscraperSource,
+  createRecordingSource,
+  type OutscraperPlace,
+  type OutscraperReview,
+  type ReviewSourceProvider,
+} from './review-sources';
+import { isWorkRelated, readReview, type ReviewAspect } from './aspects';
+import type { ReviewLanguage } from './keywords';
+import { formatLanguageMix, languageMix } from './language';
+import {
+  createGeminiModel,
+  createGeminiScorer,
+  createHeuristicScorer,
+  createRecordedModel,
+  createRecordingModel,
+  createCachedScorer,
+  syntheticResponsesNote,
+  type AIScores,
+  type PreviousScores,
+  type ReviewScorer,
+  type ScorableReview,
+  type ScoringContext,
+} from './scorers';
+import { ScoreValidationError } from './score-validation';
+import { buildCalibration, calibrateScore, MIN_CALIBRATION_CAFES, type CityCalibration } from './calibration';
+import { latestPromptVersion, previousPromptVersion, promptVersions } from './prompts';
+import { EVAL_DIR, loadGoldenSet, printEvalReport, runGoldenSet } from './evaluation';
+import {
+  defaultCheckpointPath,
+  loadCheckpoint,
+  loadManifest,
+  runWithConcurrency,
+  saveCheckpoint,
+} from './import-manifest';
+import {
+  createLocalPhotoStore,
+  createSupabasePhotoStore,
+  DEFAULT_PHOTO_BUCKET,
+  downloadPlacePhoto,
+  photoStoragePath,
+  type PhotoStore,
+  type PlacePhoto,
+} from './photo-store';
+import { BudgetExceededError, createCostMeter, createNullMeter, type CostMeter } from './cost-meter';
+import { getHttpClient } from './http-client';
+import {
+  cacheKey,
+  CACHE_NAMESPACES,
+  createDisabledCache,
+  createSupabaseCache,
+  DAY_MS,
+  printCacheStats,
+  type ResponseCache,
+} from './response-cache';
+import { configureLogging, log, withLogContext, type LogLevel } from './logger';
+import { createRunLog, fieldChanges, type CafeDiff, type RunLog } from './run-log';
+import { fetchRefreshCandidates, rankForRefresh } from './refresh-scheduler';
+import {
+  countDependents,
+  EDITABLE_FIELDS,
+  NULLABLE_FIELDS,
+  exportDataset,
+  fetchAllRows,
+  exportFormatFor,
+  listCafes,
+  listStaleCafes,
+  parseAssignment,
+  parseDuration,
+  printStats,
+  resolveCafe,
+  showCafe,
+  type ListFilters,
+  type ListSort,
+} from './admin';
+import { parseWeekdayDescriptions } from '../../shared/opening-hours';
+import { cityAt, CITIES, DEFAULT_CITY, findCity, type City } from '../../shared/cities';
+import type { CafeFilters, ExportFormat } from '../../shared/cafe-export';
 
 // Load .env from project root - try multiple locations
 dotenv.config({ path: path.join(__dirname, '../../.env') }); // From backend/src/ -> root/.env
-// Debug: Check if environment variables are loaded
-console.log('🔧 Environment check:');
-console.log(`   OUTSCRAPER_API_KEY: ${process.env.OUTSCRAPER_API_KEY ? '✅ Loaded' : '❌ Missing'}`);
-console.log(`   GEMINI_API_KEY: ${process.env.GOOGLE_GEMINI_API_KEY ? '✅ Loaded' : '❌ Missing'}`);
-console.log(`   GOOGLE_MAPS_API_KEY: ${process.env.GOOGLE_MAPS_API_KEY ? '✅ Loaded' : '❌ Missing'}`);
-console.log(`   SUPABASE_URL: ${process.env.VITE_PUBLIC_SUPABASE_URL ? '✅ Loaded' : '❌ Missing'}`);
-console.log(`   SUPABASE_SERVICE_KEY: ${process.env.SUPABASE_SERVICE_ROLE_KEY ? '✅ Loaded' : '❌ Missing'}\n`);
-
-// Initialize clients
-const supabase = createClient(
-  process.env.VITE_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-);
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GEMINI_API_KEY!);
 
-// =====================================================
-// WORK-RELATED KEYWORDS
-// =====================================================
+// Clients are created by connect() once the command is known, so commands
+// that need no credentials (--help, the recorded eval) run without them
+let supabase!: SupabaseClient;
+let genAI!: GoogleGenerativeAI;
+
+// Every paid API call is metered into pipeline_costs and checked against --budget
+let costMeter!: CostMeter;
+
+// Audit trail in pipeline_runs; shares its ID with the run's pipeline_costs rows
+let runLog!: RunLog;
+
+// How many reviews to request per cafe from the review source
+const REVIEWS_LIMIT = 50;
+
+// Set by --dry-run: fetch and score as usual, but write nothing to the
+// database or photo store; changes are only collected for the diff
+let dryRun = false;
+
+// Paid answers already seen (Gemini scores, Places details); --no-cache swaps
+// in createDisabledCache. Dry runs still fill it, like they still log costs.
+let responseCache!: ResponseCache;
+
+// Offline, nothing is metered or cached and there is no database to record
+// the run in
+function connect(offline: boolean) {
+  if (offline) {
+    costMeter = createNullMeter();
+    responseCache = createDisabledCache();
+    return;
+  }
 
-const WORK_KEYWORDS = [
-  'wifi', 'wi-fi', 'internet', 'work', 'working', 'laptop',
-  'remote', 'study', 'studying', 'quiet', 'noise', 'loud',
-  'outlet', 'plug', 'charging', 'workspace', 'coworking',
-  'desk', 'table', 'seating',  'hours', 'stay',
-  'focus', 'productive', 'concentration', 'meeting', 'call',
-  'zoom', 
-];
+  supabase = createClient(
+    process.env.VITE_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+  genAI = new GoogleGenerativeAI(process.env.GOOGLE_GEMINI_API_KEY!);
+  costMeter = createCostMeter(supabase);
+  runLog = createRunLog(supabase, costMeter.runId);
+  responseCache = createSupabaseCache(supabase);
+}
 
 // =====================================================
-// TYPES
+// RUN TRACKING
 // =====================================================
 
-interface OutscraperReview {
-  author_title: string;
-  author_id: string;
-  review_rating: number;
-  review_text: string;
-  review_datetime_utc: string;
-  review_timestamp: number;
+// Per-cafe work: API costs, log lines and the pipeline_runs entry are all
+// attributed to this cafe, even with several import lanes running at once
+function forCafe<T>(googlePlaceId: string, fn: () => Promise<T>, outcome: (result: T) => string): Promise<T> {
+  return costMeter.forPlace(googlePlaceId, () =>
+    withLogContext({ google_place_id: googlePlaceId }, () => runLog.forCafe(googlePlaceId, fn, outcome))
+  );
 }
 
-interface OutscraperPlace {
-  name: string;
-  full_address?: string;
-  borough?: string;
-  street?: string;
-  city?: string;
-  latitude: number;
-  longitude: number;
-  rating: number;
-  reviews: number;
-  reviews_data?: OutscraperReview[];
-  place_id: string;
-  google_id?: string;
+// Writes `updates` to the cafe and records which columns actually changed.
+// In a dry run the cafe may not exist yet, in which case everything is new.
+// Columns in manual_overrides were set by hand and are left alone, except
+// by the `set` command itself (`manual`). A hand-set work_score is shown as
+// set, so its work_score_calibrated is left alone (empty) too.
+async function updateCafe(cafeId: string, updates: Record<string, unknown>, manual = false) {
+  const columns = new Set([...Object.keys(updates), 'manual_overrides']);
+  const { data: before, error: fetchError } = await supabase
+    .from('cafes')
+    .select([...columns].join(', '))
+    .eq('id', cafeId)
+    .maybeSingle<Record<string, unknown>>();
+
+  if (fetchError) throw new Error(`Update failed: ${fetchError.message}`);
+
+  const overrides = manual ? [] : [...((before?.manual_overrides as string[] | null) || [])];
+  if (overrides.includes('work_score')) overrides.push('work_score_calibrated');
+  const locked = overrides.filter(field => field in updates);
+  if (locked.length > 0) {
+    log.info(`   🔒 Keeping manual override of ${locked.join(', ')}`);
+    updates = Object.fromEntries(Object.entries(updates).filter(([field]) => !locked.includes(field)));
+    if (Object.keys(updates).length === 0) return;
+  }
+
+  runLog.changed(fieldChanges(before, updates));
+  if (dryRun) return;
+
+  const { error } = await supabase
+    .from('cafes')
+    .update(updates)
+    .eq('id', cafeId);
+
+  if (error) throw new Error(`Update failed: ${error.message}`);
 }
 
-interface AIScores {
-  work_score: number;
-  wifi_quality: number;
-  noise_level: number;
-  vibe: number;
-  summary: string;
-  confidence: string;
-  work_related_count: number;
+// A command that can't carry on: the error is logged and kept on the run,
+// and the process exits non-zero once the run has been saved
+function failRun(error: any) {
+  log.error(`\n❌ Error: ${error.message}`);
+  runLog.error(error.message);
+  process.exitCode = 1;
 }
 
 // =====================================================
@@ -80,11 +193,7 @@ interface GooglePlaceDetails {
   opening_hours?: {
     weekday_text: string[];
   };
-  photos?: Array<{
-    photo_reference: string;
-    height: number;
-    width: number;
-  }>;
+  photos?: PlacePhoto[];
   reviews?: Array<{
     author_name: string;
     rating: number;
@@ -96,33 +205,47 @@ interface GooglePlaceDetails {
   user_ratings_total?: number;
 }
 
-async function fetchGooglePlaceDetails(placeId: string): Promise<GooglePlaceDetails | null> {
+// Details (hours, photos, reviews) rarely change within a week; --no-cache refetches
+const PLACE_DETAILS_CACHE_TTL_MS = 7 * DAY_MS;
+
+async function fetchGooglePlaceDetails(placeId: string, city: City): Promise<GooglePlaceDetails | null> {
   const apiKey = process.env.GOOGLE_MAPS_API_KEY;
   if (!apiKey) {
-    console.log('⚠️  Google Maps API key not found, skipping place details');
+    log.warn('⚠️  Google Maps API key not found, skipping place details');
     return null;
   }
 
   try {
-    console.log('🔍 Fetching Google Places details (New API)...');
-    console.log(`   API Key: ${apiKey.substring(0, 20)}...`);
-    console.log(`   Place ID: ${placeId}`);
+    const key = cacheKey('google_places', placeId, city.language, city.region);
+    const cached = await responseCache.get<GooglePlaceDetails>('google_places', key);
+    if (cached) {
+      log.info('💾 Google Places details from cache');
+      return cached;
+    }
+
+    log.info('🔍 Fetching Google Places details (New API)...');
+    log.debug(`   API Key: ${apiKey.substring(0, 20)}...`);
+    log.debug(`   Place ID: ${placeId}`);
     
     // Use the new Places API (New) endpoint
-    const response = await fetch(
-      `https://places.googleapis.com/v1/places/${placeId}?fields=displayName,currentOpeningHours,photos,reviews,rating,userRatingCount&key=${apiKey}`,
-      {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
+    const response = await costMeter.track(
+      { places_details: 1 },
+      () => getHttpClient('google_places').fetch(
+        `https://places.googleapis.com/v1/places/${placeId}?fields=displayName,currentOpeningHours,photos,reviews,rating,userRatingCount&languageCode=${city.language}&regionCode=${city.region}&key=${apiKey}`,
+        {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+          }
         }
-      }
+      ),
+      result => ({ places_details: result.ok ? 1 : 0 })
     );
 
     if (!response.ok) {
       const errorText = await response.text();
-      console.error(`Google Places API error: ${response.status}`);
-      console.error(`Response: ${errorText}`);
+      log.error(`Google Places API error: ${response.status}`, { status: response.status });
+      log.debug(`Response: ${errorText}`);
       return null;
     }
 
@@ -139,9 +262,13 @@ async function fetchGooglePlaceDetails(placeId: string): Promise<GooglePlaceDeta
     
     if (data.photos && data.photos.length > 0) {
       transformed.photos = data.photos.map((photo: any) => ({
-        photo_reference: photo.name, // In new API, use the photo name
+        name: photo.name, // places/<id>/photos/<ref>, downloaded by mirrorCafePhotos
         height: photo.heightPx || 800,
-        width: photo.widthPx || 800
+        width: photo.widthPx || 800,
+        attributions: (photo.authorAttributions || []).map((author: any) => ({
+          display_name: author.displayName || 'Google Maps user',
+          uri: author.uri,
+        })),
       }));
     }
     
@@ -163,175 +290,187 @@ async function fetchGooglePlaceDetails(placeId: string): Promise<GooglePlaceDeta
       transformed.user_ratings_total = data.userRatingCount;
     }
 
-    console.log('✅ Google Places details fetched (New API)');
+    await responseCache.set('google_places', key, transformed, PLACE_DETAILS_CACHE_TTL_MS);
+    log.info('✅ Google Places details fetched (New API)');
     return transformed;
   } catch (error) {
-    console.error('❌ Error fetching Google Places details:', error);
+    if (error instanceof BudgetExceededError) throw error;
+    log.error(`❌ Error fetching Google Places details: ${error instanceof Error ? error.message : error}`);
     return null;
   }
 }
 
-function formatOpeningHours(weekdayText: string[]): Record<string, string> {
-  const hours: Record<string, string> = {};
-  
-  weekdayText.forEach(dayText => {
-    const [day, ...timeParts] = dayText.split(': ');
-    const time = timeParts.join(': ');
-    
-    // Convert day names to consistent format
-    const dayMap: Record<string, string> = {
-      'Monday': 'monday',
-      'Tuesday': 'tuesday', 
-      'Wednesday': 'wednesday',
-      'Thursday': 'thursday',
-      'Friday': 'friday',
-      'Saturday': 'saturday',
-      'Sunday': 'sunday'
-    };
-    
-    const normalizedDay = dayMap[day] || day.toLowerCase();
-    hours[normalizedDay] = time || 'Closed';
-  });
-  
-  return hours;
+// =====================================================
+// PHOTO MIRRORING
+// =====================================================
+
+// Google photo URLs need our API key, so photos are downloaded server-side
+// and re-hosted; cafes.image_url and cafe_photos only ever hold our own URLs
+interface PhotoMirror {
+  store: PhotoStore;
+  limit: number;   // Photos kept per cafe; 0 turns mirroring off
 }
 
-function getPhotoUrl(photoReference: string): string {
+// Mirrors up to `limit` photos into cafe_photos and points cafes.image_url at
+// the first one. Photos already mirrored at the same position are not
+// downloaded again. Returns how many photos the cafe now has.
+async function mirrorCafePhotos(cafeId: string, placeId: string, photos: PlacePhoto[], mirror: PhotoMirror): Promise<number> {
   const apiKey = process.env.GOOGLE_MAPS_API_KEY;
-  // For new Places API, photoReference is actually the photo name
-  // Use the new format for fetching photos
-  return `https://places.googleapis.com/v1/${photoReference}/media?maxWidthPx=800&key=${apiKey}`;
-}
+  if (!apiKey || mirror.limit === 0) return 0;
 
-// =====================================================
-// HELPER: Check if review mentions work
-// =====================================================
+  const { data: existing, error: fetchError } = await supabase
+    .from('cafe_photos')
+    .select('position, storage_path, url, source_photo_name')
+    .eq('cafe_id', cafeId);
 
-function isWorkRelated(reviewText: string): boolean {
-  if (!reviewText) return false;
-  const lowerText = reviewText.toLowerCase();
-  return WORK_KEYWORDS.some(keyword => lowerText.includes(keyword));
-}
+  if (fetchError) throw fetchError;
 
-// =====================================================
-// STEP 1: SCRAPE CAFE & REVIEWS FROM GOOGLE MAPS
-// =====================================================
+  const existingByPosition = new Map((existing || []).map(row => [row.position as number, row]));
+  const existingNames = [...existingByPosition.keys()].sort((a, b) => a - b).map(position => existingByPosition.get(position)!.source_photo_name);
 
-async function scrapeCafe(googlePlaceId: string) {
-  console.log('\n📡 Scraping cafe from Google Maps...');
-  console.log(`Place ID: ${googlePlaceId}\n`);
+  if (dryRun) {
+    // Nothing is downloaded: a new cover photo shows up as the Google photo it would be mirrored from
+    const planned = photos.slice(0, mirror.limit);
+    const cover = existingByPosition.get(0);
+    runLog.changed(fieldChanges({ cafe_photos: existingNames }, { cafe_photos: planned.map(photo => photo.name) }));
+    await updateCafe(cafeId, {
+      image_url: !planned[0] ? null : cover?.source_photo_name === planned[0].name ? cover.url : `(new photo) ${planned[0].name}`,
+    });
+    return planned.length;
+  }
 
-  try {
-    // First, try to get basic place info using the search endpoint
-    console.log('🔍 Step 1a: Getting basic place info...');
-    
-    const searchResponse = await fetch(
-      'https://api.app.outscraper.com/maps/search-v3',
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-KEY': process.env.OUTSCRAPER_API_KEY!,
-        },
-        body: JSON.stringify({
-          query: [googlePlaceId],      // Search by Place ID
-          language: 'en',               // English
-          region: 'CA',                 // Canada
-          limit: 1,                     // Just one place
-          async: false,                 // Wait for results
-        }),
-      }
-    );
+  const staleFiles: string[] = [];
+  const mirroredNames: string[] = [];
+  const urls: string[] = [];
+  let failures = 0;
 
-    if (!searchResponse.ok) {
-      const errorText = await searchResponse.text();
-      throw new Error(`Outscraper search error: ${searchResponse.status} - ${errorText}`);
+  for (const photo of photos) {
+    if (urls.length >= mirror.limit) break;
+    const position = urls.length;
+    const current = existingByPosition.get(position);
+
+    if (current?.source_photo_name === photo.name) {
+      urls.push(current.url);
+      mirroredNames.push(photo.name);
+      continue;
     }
 
-    const searchData = await searchResponse.json();
-    console.log('📍 Basic place info retrieved');
+    try {
+      const downloaded = await costMeter.track(
+        { places_photo: 1 },
+        () => downloadPlacePhoto(photo, apiKey),
+        () => ({ places_photo: 1 })
+      );
+      const storagePath = photoStoragePath(placeId, position, downloaded);
+      const url = await mirror.store.save(storagePath, downloaded.data, downloaded.contentType);
+
+      const { error } = await supabase
+        .from('cafe_photos')
+        .upsert({
+          cafe_id: cafeId,
+          position,
+          storage_path: storagePath,
+          url,
+          width: downloaded.width,
+          height: downloaded.height,
+          content_type: downloaded.contentType,
+          source_photo_name: photo.name,
+          attributions: photo.attributions,
+        }, { onConflict: 'cafe_id,position' });
+
+      if (error) throw error;
+
+      if (current && current.storage_path !== storagePath) staleFiles.push(current.storage_path);
+      urls.push(url);
+      mirroredNames.push(photo.name);
+    } catch (error: any) {
+      if (error instanceof BudgetExceededError) throw error;
+      log.warn(`   ⚠️  Could not mirror photo ${photo.name}: ${error.message}`);
+      failures++;
+    }
+  }
 
-    // Now try to get reviews using the reviews endpoint (GET request)
-    console.log('🔍 Step 1b: Getting reviews...');
-    
-    const reviewsUrl = new URL('https://api.app.outscraper.com/maps/reviews-v3');
-    reviewsUrl.searchParams.append('query', googlePlaceId);
-    reviewsUrl.searchParams.append('reviews_limit', '50');
-    reviewsUrl.searchParams.append('language', 'en');
-    reviewsUrl.searchParams.append('region', 'CA');
-    reviewsUrl.searchParams.append('async', 'false');
-    
-    const response = await fetch(reviewsUrl.toString(), {
-      method: 'GET',
-      headers: {
-        'X-API-KEY': process.env.OUTSCRAPER_API_KEY!,
-      },
-    });
+  // Drop photos beyond what we mirrored this time (Google returned fewer, or
+  // the limit went down). After a failed download keep them: the failure may
+  // be transient and an old photo beats none.
+  const removed = failures > 0 ? [] : (existing || []).filter(row => row.position >= urls.length);
+  if (removed.length > 0) {
+    staleFiles.push(...removed.map(row => row.storage_path));
+    const { error } = await supabase
+      .from('cafe_photos')
+      .delete()
+      .eq('cafe_id', cafeId)
+      .gte('position', urls.length);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Outscraper reviews error: ${response.status} - ${errorText}`);
-    }
+    if (error) throw error;
+  }
+  if (staleFiles.length > 0) await mirror.store.remove(staleFiles);
+  if (urls.length === 0 && failures > 0) return 0;
 
-    const reviewsData = await response.json();
-    
-    // Debug: Log both responses
-    console.log('🔍 Debug - Search Response:');
-    console.log('Search data structure:', JSON.stringify(searchData, null, 2).substring(0, 300) + '...');
-    
-    console.log('🔍 Debug - Reviews Response:');
-    console.log('Reviews data structure:', JSON.stringify(reviewsData, null, 2).substring(0, 300) + '...');
-    
-    // Extract place info from search response (nested array structure)
-    const basicPlace = searchData.data?.[0]?.[0];
-    
-    // Extract reviews from reviews response (different structure - direct object)
-    const reviewsPlace = reviewsData.data?.[0];
-    
-    // Combine data from both sources
-    const place = basicPlace;
+  // Kept photos beyond the mirrored ones (after a failure) are still the cafe's
+  const keptNames = failures > 0 ? existingNames.slice(mirroredNames.length) : [];
+  runLog.changed(fieldChanges({ cafe_photos: existingNames }, { cafe_photos: [...mirroredNames, ...keptNames] }));
+
+  await updateCafe(cafeId, { image_url: urls[0] || null });
+
+  return urls.length;
+}
+
+// =====================================================
+// STEP 1: SCRAPE CAFE & REVIEWS FROM GOOGLE MAPS
+// =====================================================
+
+// Without a requested city the place is looked up with the default city's
+// region, and filed under whichever registered city contains it
+async function scrapeCafe(googlePlaceId: string, source: ReviewSourceProvider, requestedCity: City | null) {
+  log.info('\n📡 Scraping cafe from Google Maps...');
+  log.info(`Place ID: ${googlePlaceId}`);
+  log.info(`Source: ${source.name}\n`);
+
+  try {
+    const place = await source.fetchPlace(googlePlaceId, requestedCity ?? DEFAULT_CITY);
 
     if (!place) {
-      console.log('⚠️  No place data found');
-      console.log('   Search response structure:', searchData ? Object.keys(searchData) : 'none');
+      log.warn('⚠️  No place data found');
       return null;
     }
 
-    // Merge reviews from the reviews endpoint if available
-    if (reviewsPlace && reviewsPlace.reviews_data) {
-      place.reviews_data = reviewsPlace.reviews_data;
-      console.log(`🔄 Merged ${reviewsPlace.reviews_data.length} reviews from reviews endpoint`);
-    } else if (reviewsPlace && reviewsPlace.reviews) {
-      // Sometimes reviews are in a different field
-      place.reviews_data = reviewsPlace.reviews;
-      console.log(`🔄 Merged ${reviewsPlace.reviews.length} reviews from reviews field`);
-    } else {
-      console.log('⚠️  No reviews found in reviews response');
-      console.log('   Reviews response keys:', reviewsPlace ? Object.keys(reviewsPlace) : 'none');
+    // Checked before paying for reviews
+    const city = requestedCity ?? cityAt(place.latitude, place.longitude);
+    if (!city) {
+      throw new Error(`${place.name} is outside every registered city; pass --city to file it under one (${CITIES.map(c => c.name).join(', ')})`);
+    }
+
+    const reviews = await source.fetchReviews(googlePlaceId, REVIEWS_LIMIT, city);
+    if (reviews.length > 0) {
+      place.reviews_data = reviews;
+      log.info(`🔄 Merged ${reviews.length} reviews from ${source.name}`);
     }
 
-    console.log(`✅ Found cafe: ${place.name}`);
-    console.log(`   Address: ${place.full_address || place.street}`);
-    console.log(`   Rating: ${place.rating}/5 (${place.reviews} reviews)`);
-    console.log(`   Reviews scraped: ${place.reviews_data?.length || 0}\n`);
+    log.info(`✅ Found cafe: ${place.name}`, { name: place.name, city: city.name, reviews_scraped: place.reviews_data?.length || 0 });
+    log.info(`   Address: ${place.full_address || place.street}`);
+    log.info(`   City: ${city.name}`);
+    log.info(`   Rating: ${place.rating}/5 (${place.reviews} reviews)`);
+    log.info(`   Reviews scraped: ${place.reviews_data?.length || 0}\n`);
 
     // Filter for work-related reviews only
     const allReviews = place.reviews_data || [];
     const workReviews = allReviews.filter((review: OutscraperReview) => 
-      isWorkRelated(review.review_text)
+      readReview(review.review_text, city.language).isWork
     );
 
-    console.log(`🎯 Work-related reviews: ${workReviews.length}/${allReviews.length}`);
-    console.log(`   (Filtered using keywords: wifi, work, laptop, etc.)\n`);
+    log.info(`🎯 Work-related reviews: ${workReviews.length}/${allReviews.length}`);
+    log.info(`   (Reviews with wifi, outlets, seating, noise, lighting, laptop, time-limit or call aspects)\n`);
 
     return {
       place,
+      city,
       allReviews,
       workReviews,
     };
 
   } catch (error: any) {
-    console.error('❌ Scraping failed:', error.message);
+    log.error(`❌ Scraping failed: ${error.message}`);
     throw error;
   }
 }
@@ -340,26 +479,23 @@ async function scrapeCafe(googlePlaceId: string) {
 // STEP 2: ADD OR UPDATE CAFE IN DATABASE
 // =====================================================
 
-async function upsertCafe(place: OutscraperPlace) {
-  console.log('💾 Updating cafe in database...\n');
+// Values from an import manifest that take precedence over scraped data
+interface CafeOverrides {
+  city?: City;
+  tags?: string[];
+}
+
+async function upsertCafe(place: OutscraperPlace, city: City, photoMirror: PhotoMirror, overrides: CafeOverrides = {}) {
+  log.info('💾 Updating cafe in database...\n');
 
   // Fetch additional details from Google Places API
-  const placeDetails = await fetchGooglePlaceDetails(place.place_id);
+  const placeDetails = await fetchGooglePlaceDetails(place.place_id, city);
   
   // Prepare opening hours
   let opening_hours = null;
   if (placeDetails?.opening_hours?.weekday_text) {
-    opening_hours = formatOpeningHours(placeDetails.opening_hours.weekday_text);
-    console.log('✅ Opening hours added');
-  }
-
-  // Prepare image URL
-  let image_url = null;
-  if (placeDetails?.photos && placeDetails.photos.length > 0) {
-    // Get the first (usually best) photo
-    const photo = placeDetails.photos[0];
-    image_url = getPhotoUrl(photo.photo_reference);
-    console.log('✅ Image URL added');
+    opening_hours = parseWeekdayDescriptions(placeDetails.opening_hours.weekday_text, city.timezone);
+    log.info('✅ Opening hours added');
   }
 
   // Prepare Google reviews data
@@ -369,12 +505,12 @@ async function upsertCafe(place: OutscraperPlace) {
   
   if (placeDetails?.rating) {
     google_rating = placeDetails.rating;
-    console.log(`✅ Google rating: ${google_rating}/5`);
+    log.info(`✅ Google rating: ${google_rating}/5`);
   }
   
   if (placeDetails?.user_ratings_total) {
     google_review_count = placeDetails.user_ratings_total;
-    console.log(`✅ Google review count: ${google_review_count}`);
+    log.info(`✅ Google review count: ${google_review_count}`);
   }
   
   if (placeDetails?.reviews && placeDetails.reviews.length > 0) {
@@ -386,22 +522,24 @@ async function upsertCafe(place: OutscraperPlace) {
       time: review.time,
       relative_time: review.relative_time_description
     }));
-    console.log(`✅ Google reviews added: ${google_reviews.length} reviews`);
+    log.info(`✅ Google reviews added: ${google_reviews.length} reviews`);
   }
 
   const cafeData = {
     name: place.name,
     address: place.full_address || place.street || '',
-    city: place.city || place.borough || 'Toronto',
+    city: city.name,
     google_place_id: place.place_id,
     latitude: place.latitude,
     longitude: place.longitude,
     google_maps_url: `https://www.google.com/maps/place/?q=place_id:${place.place_id}`,
     opening_hours,
-    image_url,
     google_rating,
     google_review_count,
     google_reviews,
+    ...(overrides.tags ? { tags: overrides.tags } : {}),
+    // Only a fetch counts as a scrape; rescoring stored reviews leaves it alone
+    last_scraped_at: new Date().toISOString(),
   };
 
   // Try to update existing cafe, or insert new one
@@ -415,14 +553,14 @@ async function upsertCafe(place: OutscraperPlace) {
 
   if (existingCafe) {
     // Update existing
-    const { error } = await supabase
-      .from('cafes')
-      .update(cafeData)
-      .eq('id', existingCafe.id);
-
-    if (error) throw error;
+    await updateCafe(existingCafe.id, cafeData);
     cafeId = existingCafe.id;
-    console.log('✅ Updated existing cafe\n');
+    log.info('✅ Updated existing cafe\n');
+  } else if (dryRun) {
+    // An ID no row has, so later steps read nothing back for this cafe
+    cafeId = randomUUID();
+    runLog.changed(fieldChanges(null, cafeData), true);
+    log.info('✅ Would add new cafe\n');
   } else {
     // Insert new
     const { data, error } = await supabase
@@ -433,7 +571,14 @@ async function upsertCafe(place: OutscraperPlace) {
 
     if (error) throw error;
     cafeId = data!.id;
-    console.log('✅ Added new cafe\n');
+    runLog.changed(fieldChanges(null, cafeData), true);
+    log.info('✅ Added new cafe\n');
+  }
+
+  // Photos need the cafe ID, so they are mirrored after the upsert
+  if (placeDetails?.photos) {
+    const photoCount = await mirrorCafePhotos(cafeId, place.place_id, placeDetails.photos, photoMirror);
+    if (photoCount > 0) log.info(`✅ Photos mirrored: ${photoCount}\n`);
   }
 
   return cafeId;
@@ -443,26 +588,31 @@ async function upsertCafe(place: OutscraperPlace) {
 // STEP 3: STORE REVIEWS IN DATABASE
 // =====================================================
 
-async function storeReviews(cafeId: string, reviews: OutscraperReview[]) {
-  console.log('💾 Storing reviews in database...\n');
+// A review a dry run would have stored, kept in memory so it can still be scored
+type UnsavedReview = ScorableReview & { is_work_related: boolean };
+
+async function storeReviews(cafeId: string, city: City, reviews: OutscraperReview[]) {
+  log.info(dryRun ? '💾 Checking which reviews would be stored...\n' : '💾 Storing reviews in database...\n');
 
   // First, get existing review IDs to avoid duplicates
-  console.log('🔍 Checking for existing reviews...');
+  log.info('🔍 Checking for existing reviews...');
   const { data: existingReviews } = await supabase
     .from('reviews')
-    .select('google_review_id')
+    .select('google_review_id, language')
     .eq('cafe_id', cafeId);
 
   const existingIds = new Set(existingReviews?.map(r => r.google_review_id) || []);
-  console.log(`   Found ${existingIds.size} existing reviews\n`);
+  log.info(`   Found ${existingIds.size} existing reviews\n`);
 
   let storedCount = 0;
   let skippedCount = 0;
   let workRelatedCount = 0;
+  const unsaved: UnsavedReview[] = [];
+  const languages: (string | null)[] = (existingReviews || []).map(r => r.language);
 
   for (const review of reviews) {
     const googleReviewId = `${review.author_id}_${review.review_timestamp}`;
-    const isWork = isWorkRelated(review.review_text);
+    const { text, language, lexicon, aspects, isWork } = readReview(review.review_text, city.language);
 
     // Skip if review already exists
     if (existingIds.has(googleReviewId)) {
@@ -470,424 +620,865 @@ async function storeReviews(cafeId: string, reviews: OutscraperReview[]) {
       continue;
     }
 
-    const { error } = await supabase.from('reviews').insert({
-      cafe_id: cafeId,
-      author: review.author_title || 'Anonymous',
-      rating: review.review_rating,
-      text: review.review_text || '',
-      date: review.review_datetime_utc,
-      google_review_id: googleReviewId,
-      is_work_related: isWork,
-      mentions_wifi: review.review_text ? 
-                     (review.review_text.toLowerCase().includes('wifi') || 
-                      review.review_text.toLowerCase().includes('wi-fi') ||
-                      review.review_text.toLowerCase().includes('internet')) : false,
-      mentions_noise: review.review_text ? 
-                      (review.review_text.toLowerCase().includes('quiet') ||
-                       review.review_text.toLowerCase().includes('loud') ||
-                       review.review_text.toLowerCase().includes('noise')) : false,
-    });
-
-    if (error) {
-      console.error(`⚠️  Error storing review:`, error.message);
-    } else {
+    if (dryRun) {
+      unsaved.push({
+        google_review_id: googleReviewId,
+        rating: review.review_rating,
+        text,
+        language,
+        date: review.review_datetime_utc,
+        ...reviewFlags(text, lexicon, aspects),
+        review_aspects: aspects,
+      });
+      languages.push(language);
       storedCount++;
       if (isWork) workRelatedCount++;
+      continue;
     }
+
+    const { data: stored, error } = await supabase
+      .from('reviews')
+      .insert({
+        cafe_id: cafeId,
+        author: review.author_title || 'Anonymous',
+        rating: review.review_rating,
+        text,
+        date: review.review_datetime_utc,
+        google_review_id: googleReviewId,
+        language,
+        ...reviewFlags(text, lexicon, aspects),
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      log.warn(`⚠️  Error storing review: ${error.message}`, { google_review_id: googleReviewId });
+      continue;
+    }
+
+    storedCount++;
+    if (isWork) workRelatedCount++;
+    languages.push(language);
+    await storeReviewAspects(cafeId, stored.id, aspects);
   }
 
-  console.log(`✅ Stored ${storedCount}/${reviews.length} reviews`);
+  log.info(`✅ ${dryRun ? 'Would store' : 'Stored'} ${storedCount}/${reviews.length} reviews`);
   if (skippedCount > 0) {
-    console.log(`   Skipped ${skippedCount} duplicates`);
+    log.info(`   Skipped ${skippedCount} duplicates`);
   }
-  console.log(`   Work-related: ${workRelatedCount}\n`);
+  log.info(`   Work-related: ${workRelatedCount}\n`);
+
+  await updateLanguageMix(cafeId, languages);
   
-  return { storedCount, workRelatedCount };
+  return { storedCount, workRelatedCount, unsaved };
+}
+
+// Summary columns kept on reviews for quick filtering; review_aspects has the detail
+function reviewFlags(reviewText: string, lexicon: ReviewLanguage, aspects: ReviewAspect[]) {
+  return {
+    is_work_related: isWorkRelated(reviewText, lexicon, aspects),
+    mentions_wifi: aspects.some(a => a.aspect === 'wifi'),
+    mentions_noise: aspects.some(a => a.aspect === 'noise'),
+  };
+}
+
+async function storeReviewAspects(cafeId: string, reviewId: string, aspects: ReviewAspect[]) {
+  if (aspects.length === 0) return;
+
+  const { error } = await supabase.from('review_aspects').insert(
+    aspects.map(a => ({
+      review_id: reviewId,
+      cafe_id: cafeId,
+      aspect: a.aspect,
+      polarity: a.polarity,
+      evidence: a.evidence,
+    }))
+  );
+
+  if (error) {
+    log.warn(`⚠️  Error storing review aspects: ${error.message}`, { review_id: reviewId });
+  }
+}
+
+// Counts every stored review, so the mix tracks the cafe rather than one scrape
+async function updateLanguageMix(cafeId: string, languages: (string | null)[]) {
+  if (languages.length === 0) return;
+  const mix = languageMix(languages);
+  await updateCafe(cafeId, { language_mix: mix });
+  log.info(`🌐 Review languages: ${formatLanguageMix(mix)}\n`);
 }
 
 // =====================================================
-// STEP 4: ANALYZE WITH GEMINI AI
+// STEP 4: ANALYZE WITH AI SCORER
 // =====================================================
 
-async function analyzeWithAI(cafeId: string): Promise<AIScores> {
-  console.log('🤖 Analyzing reviews with Gemini AI...\n');
+// Reviews as handed to a ReviewScorer, with their aspects joined in
+const SCORABLE_REVIEW_COLUMNS = 'google_review_id, rating, text, language, date, mentions_wifi, mentions_noise, review_aspects(aspect, polarity, evidence)';
+
+interface ScoringResult {
+  scores: AIScores;
+  scoredBy: string;
+  scorerVersion: string;
+  reviewIds: string[];
+}
+
+async function analyzeWithAI(cafeId: string, city: City, scorers: ReviewScorer[], unsaved: UnsavedReview[] = []): Promise<ScoringResult> {
+  log.info('🤖 Analyzing reviews...\n');
 
   // Get ONLY work-related reviews for analysis
-  const { data: reviews, error } = await supabase
+  const { data: stored, error } = await supabase
     .from('reviews')
-    .select('rating, text')
+    .select(SCORABLE_REVIEW_COLUMNS)
     .eq('cafe_id', cafeId)
     .eq('is_work_related', true);  // Only work reviews!
 
-  if (error || !reviews || reviews.length === 0) {
-    console.log('⚠️  No work-related reviews found');
-    console.log('   Falling back to all reviews...\n');
+  const reviews: ScorableReview[] = [...(stored || []), ...unsaved.filter(r => r.is_work_related)];
+
+  if (error || reviews.length === 0) {
+    log.warn('⚠️  No work-related reviews found');
+    log.info('   Falling back to all reviews...\n');
     
     // Fallback: use all reviews
     const { data: allReviews } = await supabase
       .from('reviews')
-      .select('rating, text')
+      .select(SCORABLE_REVIEW_COLUMNS)
       .eq('cafe_id', cafeId);
 
-    if (!allReviews || allReviews.length === 0) {
+    const fallback: ScorableReview[] = [...(allReviews || []), ...unsaved];
+    if (fallback.length === 0) {
       throw new Error('No reviews to analyze');
     }
 
-    return analyzeReviews(allReviews, false);
+    return analyzeReviews(fallback, false, scorers, { city });
+  }
+
+  log.info(`   Analyzing ${reviews.length} work-related reviews...`);
+  return analyzeReviews(reviews, true, scorers, { city });
+}
+
+// Tries each scorer in order, so `--scorer auto` can fall back to the
+// heuristic when Gemini is unavailable, rate-limited or out of budget
+async function analyzeReviews(
+  reviews: ScorableReview[],
+  hasWorkReviews: boolean,
+  scorers: ReviewScorer[],
+  context: ScoringContext
+): Promise<ScoringResult> {
+  let lastError: any;
+
+  for (const scorer of scorers) {
+    try {
+      log.info(`   Scorer: ${scorer.name}`);
+      const scores = await scorer.score(reviews, hasWorkReviews, context);
+
+      log.info(`✅ Analysis complete`, {
+        scorer: scorer.name,
+        work_score: scores.work_score,
+        confidence: scores.confidence,
+        reviews: reviews.length,
+      });
+      log.info(`   Work Score: ${scores.work_score}/5`);
+      log.info(`   WiFi: ${scores.wifi_quality}/5`);
+      log.info(`   Noise: ${scores.noise_level ?? '—'}/5`);
+      log.info(`   Outlets: ${scores.outlet_availability}/5`);
+      log.info(`   Seating: ${scores.seating_comfort}/5`);
+      log.info(`   Lighting: ${scores.lighting_quality}/5`);
+      log.info(`   Confidence: ${scores.confidence}\n`);
+
+      return {
+        scores,
+        scoredBy: scorer.name,
+        scorerVersion: scorer.version,
+        reviewIds: reviews.map(r => r.google_review_id).filter((id): id is string => !!id),
+      };
+    } catch (error: any) {
+      // Out of budget means stop, not fall back to the next scorer
+      if (error instanceof BudgetExceededError) throw error;
+      lastError = error;
+      log.warn(`⚠️  Scorer ${scorer.name} failed: ${error.message}`);
+    }
   }
 
-  console.log(`   Analyzing ${reviews.length} work-related reviews...`);
-  return analyzeReviews(reviews, true);
+  throw lastError;
 }
 
-async function analyzeReviews(reviews: any[], hasWorkReviews: boolean): Promise<AIScores> {
-  // Format for AI
-  const reviewText = reviews
-    .map((r, i) => `Review ${i + 1}:\nRating: ${r.rating}/5\n${r.text}`)
-    .join('\n\n---\n\n');
+// =====================================================
+// STEP 5: UPDATE CAFE WITH SCORES
+// =====================================================
+
+async function updateCafeScores(cafeId: string, city: City, scoring: ScoringResult, reviewCount: number) {
+  const { scores, scoredBy } = scoring;
+  log.info('📝 Updating cafe with scores...\n');
+
+  const issues = scores.validation_issues || [];
+  const calibrated = await calibratedWorkScore(city.name, scores.work_score);
+
+  await updateCafe(cafeId, {
+    work_score: scores.work_score,
+    work_score_calibrated: calibrated,
+    wifi_quality: scores.wifi_quality,
+    noise_level: scores.noise_level,
+    outlet_availability: scores.outlet_availability,
+    seating_comfort: scores.seating_comfort,
+    lighting_quality: scores.lighting_quality,
+    summary: scores.summary,
+    summary_localized: scores.summary_localized ?? null,
+    summary_language: scores.summary_language ?? null,
+    tagline: scores.tagline ?? null,
+    summary_long: scores.summary_long ?? null,
+    pros: scores.pros ?? [],
+    cons: scores.cons ?? [],
+    confidence: scores.confidence,
+    supporting_review_count: scores.work_related_count,
+    evidence: scores.evidence ?? [],
+    scored_by: scoredBy,
+    needs_review: issues.length > 0,
+    needs_review_reason: issues.length > 0 ? issues.join('; ') : null,
+    review_count: reviewCount,
+    last_analyzed_at: new Date().toISOString(),
+    last_updated: new Date().toISOString(),
+  });
+
+  // Mark reviews as analyzed (keeping the original timestamp on ones seen before)
+  await markReviewsAnalyzed(cafeId);
 
-  // Create prompt
-  const prompt = `Analyze these cafe reviews for remote work suitability in Toronto.
+  if (issues.length > 0) {
+    log.warn(`⚠️  Marked for review: ${issues.join('; ')}`);
+  }
 
-${reviewText}
+  await recordScoreSnapshot(cafeId, scoring, calibrated);
 
-${hasWorkReviews ? 
-  'These reviews specifically mention work, WiFi, or laptop usage.' :
-  'These are general reviews. Estimate work-friendliness based on atmosphere, noise, seating.'
+  log.info(dryRun ? '✅ Scores computed (dry run, nothing written)\n' : '✅ Database updated\n');
 }
 
-Return ONLY valid JSON (no markdown, no code blocks):
-{
-  "work_score": 0-5,
-  "wifi_quality": 0-5,
-  "noise_level": 0-5,
-  "summary": "one sentence about work-friendliness",
-  "confidence": "high/medium/low",
-  "work_related_count": ${hasWorkReviews ? reviews.length : 0}
+async function markReviewsAnalyzed(cafeId: string) {
+  if (dryRun) return;
+  await supabase
+    .from('reviews')
+    .update({ analyzed_at: new Date().toISOString() })
+    .eq('cafe_id', cafeId)
+    .is('analyzed_at', null);
 }
 
-Scoring:
-- work_score: Overall work-friendliness (0=terrible, 5=perfect)
-- wifi_quality: 0=no wifi mentioned, 3=adequate, 5=very fast
-- noise_level: 0=silent library, 3=moderate, 5=very loud
-- summary: Focus on WiFi, noise, seating, outlets for remote workers
-- confidence: ${hasWorkReviews ? '"high"' : '"low" (no work reviews)'}
+// Appends to the cafe's score history; cafes only ever hold the latest scores.
+// The calibrated score is kept too, so trends compare what the map showed.
+async function recordScoreSnapshot(cafeId: string, scoring: ScoringResult, calibrated: number | null) {
+  if (dryRun) return;
+  const { scores } = scoring;
+
+  const { error } = await supabase.from('cafe_score_snapshots').insert({
+    cafe_id: cafeId,
+    analyzed_at: new Date().toISOString(),
+    work_score: scores.work_score,
+    work_score_calibrated: calibrated,
+    wifi_quality: scores.wifi_quality,
+    noise_level: scores.noise_level,
+    outlet_availability: scores.outlet_availability,
+    seating_comfort: scores.seating_comfort,
+    lighting_quality: scores.lighting_quality,
+    summary: scores.summary,
+    confidence: scores.confidence,
+    review_count: scoring.reviewIds.length,
+    review_ids: [...scoring.reviewIds].sort(),
+    scorer: scoring.scoredBy,
+    scorer_version: scoring.scorerVersion,
+    needs_review: !!scores.validation_issues,
+  });
 
-Be realistic. Most cafes score 3-4. Only exceptional places get 4-5.`;
+  if (error) {
+    log.warn(`⚠️  Error saving score snapshot: ${error.message}`);
+  } else {
+    log.info('✅ Score snapshot saved');
+  }
+}
 
-  // Call Gemini 2.0 Flash
-  const model = genAI.getGenerativeModel({
-    model: "gemini-2.0-flash-exp"
+// Keeps the cafe's previous scores and flags it, so one bad AI answer doesn't
+// abort the whole run
+async function flagCafeForReview(cafeId: string, reason: string) {
+  await updateCafe(cafeId, {
+    needs_review: true,
+    needs_review_reason: reason,
+    last_updated: new Date().toISOString(),
   });
 
-  const result = await model.generateContent(prompt);
-  let response = result.response.text();
+  log.warn(`⚠️  Scores not updated, cafe marked for review: ${reason}\n`);
+}
 
-  // Clean response
-  response = response
-    .replace(/```json\n?/g, '')
-    .replace(/```\n?/g, '')
-    .replace(/`/g, '')
-    .trim();
+// =====================================================
+// INCREMENTAL RESCORE (only reviews with analyzed_at = NULL)
+// =====================================================
 
-  const scores: AIScores = JSON.parse(response);
+type RescoreOutcome = 'rescored' | 'no_new_reviews' | 'no_new_work_reviews' | 'needs_review';
 
-  console.log(`✅ Analysis complete`);
-  console.log(`   Work Score: ${scores.work_score}/5`);
-  console.log(`   WiFi: ${scores.wifi_quality}/5`);
-  console.log(`   Noise: ${scores.noise_level}/5`);
-  console.log(`   Confidence: ${scores.confidence}\n`);
+async function rescoreCafe(
+  cafe: { id: string; name: string; google_place_id: string },
+  scorers: ReviewScorer[]
+): Promise<RescoreOutcome> {
+  const { data: newReviews, error } = await supabase
+    .from('reviews')
+    .select(`${SCORABLE_REVIEW_COLUMNS}, is_work_related`)
+    .eq('cafe_id', cafe.id)
+    .is('analyzed_at', null);
 
-  return scores;
-}
+  if (error) throw error;
 
-// =====================================================
-// STEP 5: UPDATE CAFE WITH SCORES
-// =====================================================
+  if (!newReviews || newReviews.length === 0) {
+    log.info('   ℹ️  No new reviews since last analysis - skipping');
+    return 'no_new_reviews';
+  }
 
-async function updateCafeScores(cafeId: string, scores: AIScores, reviewCount: number) {
-  console.log('📝 Updating cafe with scores...\n');
+  // Only work-related reviews move the scores, so the rest can be stamped without an AI call
+  const newWorkReviews = newReviews.filter(r => r.is_work_related);
+  if (newWorkReviews.length === 0) {
+    await markReviewsAnalyzed(cafe.id);
+    log.info(`   ℹ️  ${newReviews.length} new reviews, none work-related - scores unchanged`);
+    return 'no_new_work_reviews';
+  }
 
-  const { error } = await supabase
+  const { data: current, error: fetchError } = await supabase
     .from('cafes')
-    .update({
-      work_score: scores.work_score,
-      wifi_quality: scores.wifi_quality,
-      noise_level: scores.noise_level,
-      summary: scores.summary,
-      review_count: reviewCount,
-      last_scraped_at: new Date().toISOString(),
-      last_analyzed_at: new Date().toISOString(),
-      last_updated: new Date().toISOString(),
-    })
-    .eq('id', cafeId);
+    .select('city, work_score, wifi_quality, noise_level, outlet_availability, seating_comfort, lighting_quality, summary, summary_localized, tagline, summary_long, pros, cons')
+    .eq('id', cafe.id)
+    .single();
 
-  if (error) {
-    throw new Error(`Update failed: ${error.message}`);
-  }
+  if (fetchError) throw fetchError;
 
-  // Mark reviews as analyzed
-  await supabase
+  const city = findCity(current.city) ?? DEFAULT_CITY;
+
+  const { count: totalReviews } = await supabase
     .from('reviews')
-    .update({ analyzed_at: new Date().toISOString() })
-    .eq('cafe_id', cafeId);
+    .select('id', { count: 'exact', head: true })
+    .eq('cafe_id', cafe.id);
 
-  console.log('✅ Database updated\n');
-}
+  let scoring: ScoringResult;
+  try {
+    if (current.work_score === null) {
+      // Never scored: nothing to build on, so do a full analysis
+      log.info('   ℹ️  No previous scores - running full analysis');
+      scoring = await analyzeWithAI(cafe.id, city, scorers);
+    } else {
+      const { data: lastSnapshot } = await supabase
+        .from('cafe_score_snapshots')
+        .select('review_ids')
+        .eq('cafe_id', cafe.id)
+        .order('analyzed_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      // Cafes scored before snapshots existed have no review_ids; count what was analyzed instead
+      const previousIds: string[] = lastSnapshot?.review_ids || [];
+      let previousCount = previousIds.length;
+      if (previousCount === 0) {
+        const { count } = await supabase
+          .from('reviews')
+          .select('id', { count: 'exact', head: true })
+          .eq('cafe_id', cafe.id)
+          .eq('is_work_related', true)
+          .not('analyzed_at', 'is', null);
+        previousCount = count || 0;
+      }
 
-// =====================================================
-// UPDATE-ONLY FUNCTION (No Outscraper - Just Google Places API)
-// =====================================================
+      const previous: PreviousScores = {
+        work_score: Number(current.work_score),
+        wifi_quality: Number(current.wifi_quality ?? 0),
+        noise_level: current.noise_level === null ? null : Number(current.noise_level),
+        outlet_availability: Number(current.outlet_availability ?? 0),
+        seating_comfort: Number(current.seating_comfort ?? 0),
+        lighting_quality: Number(current.lighting_quality ?? 0),
+        summary: current.summary || '',
+        summary_localized: current.summary_localized,
+        tagline: current.tagline,
+        summary_long: current.summary_long,
+        pros: current.pros || [],
+        cons: current.cons || [],
+        review_count: previousCount,
+      };
+
+      log.info(`   Folding ${newWorkReviews.length} new work-related reviews into previous scores...`);
+      scoring = await analyzeReviews(newWorkReviews, true, scorers, { city, previous });
+      scoring.reviewIds = [...new Set([...previousIds, ...scoring.reviewIds])];
+    }
+  } catch (error) {
+    if (!(error instanceof ScoreValidationError)) throw error;
+    await flagCafeForReview(cafe.id, error.message);
+    return 'needs_review';
+  }
+
+  await updateCafeScores(cafe.id, city, scoring, totalReviews || newReviews.length);
+  return scoring.scores.validation_issues ? 'needs_review' : 'rescored';
+}
 
-async function updateExistingCafeDetails(googlePlaceId: string) {
+// `idOrPlaceId` picks one cafe; without it every cafe with unanalyzed reviews
+async function rescoreCafes(idOrPlaceId: string | null, scorers: ReviewScorer[]) {
   const startTime = Date.now();
-  
-  console.log('\n============================================================');
-  console.log('☕ CAFE COMPASS - UPDATE EXISTING CAFE DETAILS');
-  console.log('============================================================\n');
+
+  log.section('☕ CAFE COMPASS - INCREMENTAL RESCORE');
 
   try {
-    // Check if cafe exists in database
-    const { data: existingCafe, error: fetchError } = await supabase
-      .from('cafes')
-      .select('id, name, google_place_id')
-      .eq('google_place_id', googlePlaceId)
-      .single();
+    let cafes: { id: string; name: string; google_place_id: string }[];
 
-    if (fetchError || !existingCafe) {
-      console.error('❌ Cafe not found in database');
-      console.log('💡 Use the full process command to add new cafes with Outscraper');
-      return;
-    }
+    if (idOrPlaceId) {
+      const cafe = await resolveCafe(supabase, idOrPlaceId);
+      if (!cafe) {
+        throw new Error('Cafe not found in database');
+      }
+      cafes = [cafe];
+    } else {
+      // Cafes that have at least one review the AI hasn't seen yet
+      const { data: pending, error } = await supabase
+        .from('reviews')
+        .select('cafe_id')
+        .is('analyzed_at', null);
+
+      if (error) throw error;
+
+      const cafeIds = [...new Set((pending || []).map(r => r.cafe_id))];
+      if (cafeIds.length === 0) {
+        log.info('✅ Every review has been analyzed - nothing to rescore\n');
+        return;
+      }
 
-    console.log(`📍 Found existing cafe: ${existingCafe.name}\n`);
+      const { data, error: cafesError } = await supabase
+        .from('cafes')
+        .select('id, name, google_place_id')
+        .in('id', cafeIds)
+        .order('name');
 
-    // Fetch Google Places details
-    console.log('🔍 Fetching Google Places details...');
-    const placeDetails = await fetchGooglePlaceDetails(googlePlaceId);
-    
-    if (!placeDetails) {
-      console.log('❌ Could not fetch Google Places details');
-      return;
+      if (cafesError) throw cafesError;
+      cafes = data || [];
     }
 
-    // Prepare updates
-    const updates: any = {};
-    let hasUpdates = false;
+    log.info(`📍 ${cafes.length} cafe(s) with reviews to check\n`);
 
-    // Add opening hours
-    if (placeDetails.opening_hours?.weekday_text) {
-      updates.opening_hours = formatOpeningHours(placeDetails.opening_hours.weekday_text);
-      console.log('✅ Opening hours updated');
-      hasUpdates = true;
-    }
+    const counts: Record<RescoreOutcome | 'error', number> = {
+      rescored: 0,
+      no_new_reviews: 0,
+      no_new_work_reviews: 0,
+      needs_review: 0,
+      error: 0,
+    };
 
-    // Add image URL
-    if (placeDetails.photos && placeDetails.photos.length > 0) {
-      const photo = placeDetails.photos[0];
-      updates.image_url = getPhotoUrl(photo.photo_reference);
-      console.log('✅ Image URL updated');
-      hasUpdates = true;
-    }
+    let budgetStop: string | null = null;
 
-    // Add Google rating and reviews
-    if (placeDetails.rating) {
-      updates.google_rating = placeDetails.rating;
-      console.log(`✅ Google rating updated: ${placeDetails.rating}/5`);
-      hasUpdates = true;
-    }
-    
-    if (placeDetails.user_ratings_total) {
-      updates.google_review_count = placeDetails.user_ratings_total;
-      console.log(`✅ Google review count updated: ${placeDetails.user_ratings_total}`);
-      hasUpdates = true;
-    }
-    
-    if (placeDetails.reviews && placeDetails.reviews.length > 0) {
-      // Store the reviews as JSON, limiting to most recent 5
-      updates.google_reviews = placeDetails.reviews.slice(0, 5).map(review => ({
-        author: review.author_name,
-        rating: review.rating,
-        text: review.text,
-        time: review.time,
-        relative_time: review.relative_time_description
-      }));
-      console.log(`✅ Google reviews updated: ${updates.google_reviews.length} reviews`);
-      hasUpdates = true;
-    }
+    for (let i = 0; i < cafes.length; i++) {
+      const cafe = cafes[i];
+      log.info(`\n[${i + 1}/${cafes.length}] 🔄 Rescoring: ${cafe.name}`);
 
-    if (!hasUpdates) {
-      console.log('ℹ️  No new details to update');
-      return;
+      try {
+        counts[await forCafe(cafe.google_place_id, () => rescoreCafe(cafe, scorers), outcome => outcome)]++;
+      } catch (error: any) {
+        log.error(`   ❌ Error: ${error.message}`);
+        counts.error++;
+        if (error instanceof BudgetExceededError) {
+          budgetStop = error.message;
+          runLog.stop(budgetStop);
+          break;
+        }
+      }
     }
 
-    // Update the cafe
-    const { error: updateError } = await supabase
-      .from('cafes')
-      .update(updates)
-      .eq('id', existingCafe.id);
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
 
-    if (updateError) {
-      throw updateError;
+    log.section('✅ RESCORE COMPLETE');
+    log.info(`\n📊 Results:`, counts);
+    log.info(`   ✅ Rescored: ${counts.rescored}`);
+    log.info(`   ⏭️  Skipped (no new reviews): ${counts.no_new_reviews}`);
+    log.info(`   ⏭️  Skipped (no new work reviews): ${counts.no_new_work_reviews}`);
+    log.info(`   ⚠️  Needs review: ${counts.needs_review}`);
+    log.info(`   ❌ Errors: ${counts.error}`);
+    log.info(`\n⏱️  Processing time: ${elapsed}s`);
+    log.info(`💰 Cost: $${costMeter.spent().toFixed(3)}\n`);
+    if (budgetStop) {
+      log.info(`🛑 Stopped early: ${budgetStop}\n`);
     }
 
-    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-    
-    console.log('\n' + '='.repeat(60));
-    console.log('✅ UPDATE COMPLETE');
-    console.log('='.repeat(60));
-    console.log(`\n☕ ${existingCafe.name}`);
-    console.log(`⏱️  Processing time: ${elapsed}s`);
-    console.log(`💰 Cost: ~$0.00 (Google Places API only)`);
-    console.log('\n✅ Cafe details updated!\n');
-
   } catch (error: any) {
-    console.error('\n❌ Error:', error.message);
-    process.exit(1);
+    failRun(error);
   }
 }
 
 // =====================================================
-// BULK UPDATE ALL CAFES (Google Places API only)
+// BACKFILL REVIEW ASPECTS (re-tag stored reviews)
 // =====================================================
 
-async function updateAllCafesWithGoogleData() {
-  const startTime = Date.now();
+async function extractAspectsForCafe(cafe: { id: string; name: string; google_place_id: string; city: string }) {
+  const city = findCity(cafe.city) ?? DEFAULT_CITY;
+  const { data: reviews, error } = await supabase
+    .from('reviews')
+    .select('id, text, is_work_related')
+    .eq('cafe_id', cafe.id);
 
-  try {
-    // Get all cafes from database
-    const { data: allCafes, error: fetchError } = await supabase
-      .from('cafes')
-      .select('id, name, google_place_id')
-      .order('name');
+  if (error) throw error;
 
-    if (fetchError) {
-      throw fetchError;
-    }
+  const { count: previousAspectCount } = await supabase
+    .from('review_aspects')
+    .select('id', { count: 'exact', head: true })
+    .eq('cafe_id', cafe.id);
 
-    if (!allCafes || allCafes.length === 0) {
-      console.log('❌ No cafes found in database');
-      return;
-    }
+  // Replace rather than merge, so lexicon changes take effect everywhere
+  if (!dryRun) {
+    const { error: deleteError } = await supabase
+      .from('review_aspects')
+      .delete()
+      .eq('cafe_id', cafe.id);
 
-    console.log(`📍 Found ${allCafes.length} cafes in database\n`);
+    if (deleteError) throw deleteError;
+  }
 
-    let successCount = 0;
-    let skipCount = 0;
-    let errorCount = 0;
+  let aspectCount = 0;
+  let workRelatedCount = 0;
+  const languages: string[] = [];
 
-    // Process each cafe
-    for (let i = 0; i < allCafes.length; i++) {
-      const cafe = allCafes[i];
-      console.log(`\n[${i + 1}/${allCafes.length}] 🔄 Processing: ${cafe.name}`);
+  for (const review of reviews || []) {
+    // Language is detected again too, for reviews stored before it was
+    const { language, lexicon, aspects } = readReview(review.text, city.language);
+    const flags = reviewFlags(review.text, lexicon, aspects);
+    aspectCount += aspects.length;
+    languages.push(language);
+    if (flags.is_work_related) workRelatedCount++;
+    if (dryRun) continue;
 
-      if (!cafe.google_place_id) {
-        console.log('   ⚠️  No Google Place ID - skipping');
-        skipCount++;
-        continue;
-      }
+    const { error: updateError } = await supabase
+      .from('reviews')
+      .update({ ...flags, language })
+      .eq('id', review.id);
 
-      try {
-        // Fetch Google Places details
-        const placeDetails = await fetchGooglePlaceDetails(cafe.google_place_id);
-        
-        if (!placeDetails) {
-          console.log('   ❌ Could not fetch Google Places details');
-          errorCount++;
-          continue;
-        }
+    if (updateError) throw updateError;
 
-        // Prepare updates
-        const updates: any = {};
-        let hasUpdates = false;
+    await storeReviewAspects(cafe.id, review.id, aspects);
+  }
 
-        // Add opening hours
-        if (placeDetails.opening_hours?.weekday_text) {
-          updates.opening_hours = formatOpeningHours(placeDetails.opening_hours.weekday_text);
-          console.log('   ✅ Opening hours');
-          hasUpdates = true;
-        }
+  // Aspects live on reviews, so the diff shows the totals per cafe
+  runLog.changed(fieldChanges(
+    { review_aspects: previousAspectCount || 0, work_related_reviews: (reviews || []).filter(r => r.is_work_related).length },
+    { review_aspects: aspectCount, work_related_reviews: workRelatedCount }
+  ));
 
-        // Add image URL
-        if (placeDetails.photos && placeDetails.photos.length > 0) {
-          const photo = placeDetails.photos[0];
-          updates.image_url = getPhotoUrl(photo.photo_reference);
-          console.log('   ✅ Image URL');
-          hasUpdates = true;
-        }
+  await updateLanguageMix(cafe.id, languages);
 
-        // Add Google rating and reviews
-        if (placeDetails.rating) {
-          updates.google_rating = placeDetails.rating;
-          console.log(`   ✅ Google rating: ${placeDetails.rating}/5`);
-          hasUpdates = true;
-        }
-        
-        if (placeDetails.user_ratings_total) {
-          updates.google_review_count = placeDetails.user_ratings_total;
-          console.log(`   ✅ Review count: ${placeDetails.user_ratings_total}`);
-          hasUpdates = true;
-        }
-        
-        if (placeDetails.reviews && placeDetails.reviews.length > 0) {
-          updates.google_reviews = placeDetails.reviews.slice(0, 5).map(review => ({
-            author: review.author_name,
-            rating: review.rating,
-            text: review.text,
-            time: review.time,
-            relative_time: review.relative_time_description
-          }));
-          console.log(`   ✅ Google reviews: ${updates.google_reviews.length}`);
-          hasUpdates = true;
-        }
+  log.info(`   ✅ ${reviews?.length || 0} reviews, ${aspectCount} aspects, ${workRelatedCount} work-related`);
+}
 
-        if (!hasUpdates) {
-          console.log('   ℹ️  No new details to update');
-          skipCount++;
-          continue;
-        }
+async function backfillAspects(googlePlaceId: string) {
+  const startTime = Date.now();
 
-        // Update the cafe
-        const { error: updateError } = await supabase
-          .from('cafes')
-          .update(updates)
-          .eq('id', cafe.id);
+  try {
+    let query = supabase.from('cafes').select('id, name, google_place_id, city').order('name');
+    if (googlePlaceId !== 'all') {
+      query = query.eq('google_place_id', googlePlaceId);
+    }
 
-        if (updateError) {
-          console.log(`   ❌ Database update failed: ${updateError.message}`);
-          errorCount++;
-          continue;
+    const { data: cafes, error } = await query;
+    if (error) throw error;
+
+    if (!cafes || cafes.length === 0) {
+      log.error('❌ No matching cafes found in database');
+      return;
+    }
+
+    let errorCount = 0;
+    for (let i = 0; i < cafes.length; i++) {
+      log.info(`\n[${i + 1}/${cafes.length}] 🏷️  Tagging aspects: ${cafes[i].name}`);
+      try {
+        await forCafe(cafes[i].google_place_id, () => extractAspectsForCafe(cafes[i]), () => 'tagged');
+      } catch (error: any) {
+        log.error(`   ❌ Error: ${error.message}`);
+        errorCount++;
+      }
+    }
+
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+    log.info(`\n✅ Aspects extracted for ${cafes.length - errorCount}/${cafes.length} cafes in ${elapsed}s`);
+    log.info('💡 Scores are not changed; re-run the full process to score from the new aspects.\n');
+
+  } catch (error: any) {
+    failRun(error);
+  }
+}
+
+// =====================================================
+// SCORE CALIBRATION (per city, see calibration.ts)
+// =====================================================
+
+// Each city's stored distribution, read once per run
+const calibrations = new Map<string, Promise<CityCalibration | null>>();
+
+function loadCalibration(city: string): Promise<CityCalibration | null> {
+  let calibration = calibrations.get(city);
+  if (!calibration) {
+    calibration = Promise.resolve(
+      supabase.from('score_calibrations').select('*').eq('city', city).maybeSingle<CityCalibration>()
+    ).then(({ data, error }) => {
+      if (error) log.warn(`⚠️  Could not load the ${city} calibration: ${error.message}`);
+      return data ?? null;
+    });
+    calibrations.set(city, calibration);
+  }
+  return calibration;
+}
+
+// Null until the city has been calibrated, in which case the raw score is shown
+async function calibratedWorkScore(city: string, raw: number): Promise<number | null> {
+  const calibration = await loadCalibration(city);
+  if (!calibration) return null;
+  const quantiles = calibration.quantiles.map(Number);
+  const calibrated = calibrateScore(raw, quantiles);
+  log.info(`   Calibrated for ${city}: ${raw} → ${calibrated}`);
+  return calibrated;
+}
+
+// Rebuilds each city's distribution from its cafes' raw work scores and
+// recalibrates every cafe in it. Cities with too few scored cafes are
+// left uncalibrated. Hand-set work scores are already on the shown scale:
+// they stay out of the distribution and uncalibrated.
+async function calibrateScores(only: City | null) {
+  log.section('☕ CAFE COMPASS - SCORE CALIBRATION');
+
+  try {
+    const rows = await fetchAllRows(supabase, 'cafes', 'id, name, google_place_id, city, work_score, work_score_calibrated, manual_overrides');
+    const handSet = (cafe: Record<string, any>) => (cafe.manual_overrides || []).includes('work_score');
+    const cities = [...new Set(rows.map(row => row.city as string | null).filter((city): city is string => !!city))]
+      .filter(city => !only || city === only.name)
+      .sort();
+
+    if (cities.length === 0) {
+      log.error('❌ No cafes to calibrate');
+      return;
+    }
+
+    for (const city of cities) {
+      const cafes = rows.filter(row => row.city === city);
+      const scored = cafes.filter(row => row.work_score !== null && !handSet(row));
+      const calibration = buildCalibration(city, scored.map(row => Number(row.work_score)));
+
+      if (!calibration) {
+        log.info(`\n🏙️  ${city}: ${scored.length} scored cafes, fewer than ${MIN_CALIBRATION_CAFES} - raw scores shown as they are`);
+        if (!dryRun) {
+          const { error } = await supabase.from('score_calibrations').delete().eq('city', city);
+          if (error) throw error;
+        }
+        calibrations.set(city, Promise.resolve(null));
+        for (const cafe of cafes.filter(row => row.work_score_calibrated !== null)) {
+          await forCafe(cafe.google_place_id, () => updateCafe(cafe.id, { work_score_calibrated: null }, handSet(cafe)), () => 'uncalibrated');
         }
+        continue;
+      }
+
+      const { quantiles } = calibration;
+      if (!dryRun) {
+        const { error } = await supabase.from('score_calibrations').upsert(calibration);
+        if (error) throw error;
+      }
+      calibrations.set(city, Promise.resolve(calibration));
+
+      const at = (percentile: number) => quantiles[Math.round(percentile * (quantiles.length - 1))].toFixed(2);
+      log.info(`\n🏙️  ${city}: ${scored.length} scored cafes, raw median ${at(0.5)}, top 10% from ${at(0.9)}`);
+
+      let changed = 0;
+      for (const cafe of cafes) {
+        const calibrated = cafe.work_score === null || handSet(cafe) ? null : calibrateScore(Number(cafe.work_score), quantiles);
+        const current = cafe.work_score_calibrated === null ? null : Number(cafe.work_score_calibrated);
+        if (calibrated === current) continue;
+        changed++;
+        await forCafe(cafe.google_place_id, () => updateCafe(cafe.id, { work_score_calibrated: calibrated }, handSet(cafe)), () => 'calibrated');
+      }
+      log.info(`   ${changed} calibrated score(s) ${dryRun ? 'would change' : 'changed'}`);
+    }
+
+    log.info('\n✅ Calibration complete');
+    log.info('💡 Cafes scored from now on are calibrated against these distributions; re-run after big imports.\n');
+  } catch (error: any) {
+    failRun(error);
+  }
+}
+
+// =====================================================
+// UPDATE-ONLY FUNCTION (No Outscraper - Just Google Places API)
+// =====================================================
+
+type RefreshOutcome = 'updated' | 'unchanged' | 'no_details';
+
+// Refreshes opening hours, photos and Google rating/reviews for a cafe
+// already in the database. Transient API errors are retried by the HTTP client.
+async function refreshGoogleDetails(
+  cafe: { id: string; google_place_id: string; city: string | null },
+  photoMirror: PhotoMirror
+): Promise<RefreshOutcome> {
+  const city = findCity(cafe.city) ?? DEFAULT_CITY;
+  const placeDetails = await fetchGooglePlaceDetails(cafe.google_place_id, city);
+
+  if (!placeDetails) {
+    log.error('   ❌ Could not fetch Google Places details');
+    return 'no_details';
+  }
+
+  // Prepare updates
+  const updates: Record<string, unknown> = {};
+
+  // Add opening hours
+  if (placeDetails.opening_hours?.weekday_text) {
+    updates.opening_hours = parseWeekdayDescriptions(placeDetails.opening_hours.weekday_text, city.timezone);
+    log.info('   ✅ Opening hours');
+  }
+
+  // Mirror photos (also sets image_url)
+  if (placeDetails.photos) {
+    const photoCount = await mirrorCafePhotos(cafe.id, cafe.google_place_id, placeDetails.photos, photoMirror);
+    if (photoCount > 0) log.info(`   ✅ Photos: ${photoCount}`, { photos: photoCount });
+  }
+
+  // Add Google rating and reviews
+  if (placeDetails.rating) {
+    updates.google_rating = placeDetails.rating;
+    log.info(`   ✅ Google rating: ${placeDetails.rating}/5`);
+  }
+
+  if (placeDetails.user_ratings_total) {
+    updates.google_review_count = placeDetails.user_ratings_total;
+    log.info(`   ✅ Review count: ${placeDetails.user_ratings_total}`);
+  }
+
+  if (placeDetails.reviews && placeDetails.reviews.length > 0) {
+    // Store the reviews as JSON, limiting to most recent 5
+    updates.google_reviews = placeDetails.reviews.slice(0, 5).map(review => ({
+      author: review.author_name,
+      rating: review.rating,
+      text: review.text,
+      time: review.time,
+      relative_time: review.relative_time_description
+    }));
+    log.info(`   ✅ Google reviews: ${placeDetails.reviews.slice(0, 5).length}`);
+  }
+
+  if (Object.keys(updates).length === 0) {
+    log.info('   ℹ️  No new details to update');
+    return 'unchanged';
+  }
+
+  await updateCafe(cafe.id, updates);
+  return 'updated';
+}
+
+async function updateExistingCafeDetails(googlePlaceId: string, photoMirror: PhotoMirror) {
+  const startTime = Date.now();
+
+  log.section('☕ CAFE COMPASS - UPDATE EXISTING CAFE DETAILS');
+
+  try {
+    // Check if cafe exists in database
+    const { data: existingCafe, error: fetchError } = await supabase
+      .from('cafes')
+      .select('id, name, google_place_id, city')
+      .eq('google_place_id', googlePlaceId)
+      .single();
+
+    if (fetchError || !existingCafe) {
+      log.error('❌ Cafe not found in database');
+      log.info('💡 Use the full process command to add new cafes with Outscraper');
+      return;
+    }
+
+    log.info(`📍 Found existing cafe: ${existingCafe.name}\n`);
+
+    log.info('🔍 Fetching Google Places details...');
+    const outcome = await forCafe(googlePlaceId, () => refreshGoogleDetails(existingCafe, photoMirror), outcome => outcome);
+    if (outcome !== 'updated') return;
+
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+
+    log.section('✅ UPDATE COMPLETE');
+    log.info(`\n☕ ${existingCafe.name}`);
+    log.info(`⏱️  Processing time: ${elapsed}s`);
+    log.info(`💰 Cost: $${costMeter.spent().toFixed(3)} (Google Places API only)`, { cost: costMeter.spent() });
+    log.info('\n✅ Cafe details updated!\n');
+
+  } catch (error: any) {
+    failRun(error);
+  }
+}
+
+// =====================================================
+// BULK UPDATE ALL CAFES (Google Places API only)
+// =====================================================
+
+async function updateAllCafesWithGoogleData(photoMirror: PhotoMirror) {
+  const startTime = Date.now();
 
-        console.log('   🎉 Updated successfully');
-        successCount++;
+  try {
+    // Get all cafes from database
+    const { data: allCafes, error: fetchError } = await supabase
+      .from('cafes')
+      .select('id, name, google_place_id, city')
+      .order('name');
 
-        // Small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 100));
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    if (!allCafes || allCafes.length === 0) {
+      log.error('❌ No cafes found in database');
+      return;
+    }
+
+    log.info(`📍 Found ${allCafes.length} cafes in database\n`);
+
+    let successCount = 0;
+    let skipCount = 0;
+    let errorCount = 0;
+    let budgetStop: string | null = null;
+
+    // Process each cafe; pacing and retries of transient API errors happen in the shared HTTP client
+    for (let i = 0; i < allCafes.length; i++) {
+      const cafe = allCafes[i];
+      log.info(`\n[${i + 1}/${allCafes.length}] 🔄 Processing: ${cafe.name}`);
+
+      if (!cafe.google_place_id) {
+        log.warn('   ⚠️  No Google Place ID - skipping');
+        skipCount++;
+        continue;
+      }
+
+      try {
+        const outcome = await forCafe(cafe.google_place_id, () => refreshGoogleDetails(cafe, photoMirror), outcome => outcome);
+
+        if (outcome === 'updated') {
+          log.info('   🎉 Updated successfully');
+          successCount++;
+        } else if (outcome === 'unchanged') {
+          skipCount++;
+        } else {
+          errorCount++;
+        }
 
       } catch (error: any) {
-        console.log(`   ❌ Error: ${error.message}`);
+        log.error(`   ❌ Error: ${error.message}`);
         errorCount++;
+        if (error instanceof BudgetExceededError) {
+          budgetStop = error.message;
+          runLog.stop(budgetStop);
+          break;
+        }
       }
     }
 
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-    
-    console.log('\n' + '='.repeat(60));
-    console.log('✅ BULK UPDATE COMPLETE');
-    console.log('='.repeat(60));
-    console.log(`\n📊 Results:`);
-    console.log(`   ✅ Successfully updated: ${successCount}`);
-    console.log(`   ⚠️  Skipped: ${skipCount}`);
-    console.log(`   ❌ Errors: ${errorCount}`);
-    console.log(`   📊 Total: ${allCafes.length}`);
-    console.log(`\n⏱️  Processing time: ${elapsed}s`);
-    console.log(`💰 Cost: ~$0.00 (Google Places API only)`);
-    console.log('\n🎉 All cafes processed!\n');
+
+    log.section(budgetStop ? '⏸️  BULK UPDATE STOPPED' : '✅ BULK UPDATE COMPLETE');
+    log.info(`\n📊 Results:`, { updated: successCount, skipped: skipCount, errors: errorCount, total: allCafes.length });
+    log.info(`   ✅ Successfully updated: ${successCount}`);
+    log.info(`   ⚠️  Skipped: ${skipCount}`);
+    log.info(`   ❌ Errors: ${errorCount}`);
+    log.info(`   📊 Total: ${allCafes.length}`);
+    log.info(`\n⏱️  Processing time: ${elapsed}s`);
+    log.info(`💰 Cost: $${costMeter.spent().toFixed(3)} (Google Places API only)`, { cost: costMeter.spent() });
+    if (budgetStop) {
+      log.info(`\n🛑 Stopped early: ${budgetStop}\n`);
+      return;
+    }
+    log.info('\n🎉 All cafes processed!\n');
 
   } catch (error: any) {
-    console.error('\n❌ Error:', error.message);
-    process.exit(1);
+    failRun(error);
   }
 }
 
@@ -895,95 +1486,758 @@ async function updateAllCafesWithGoogleData() {
 // MAIN: PROCESS CAFE
 // =====================================================
 
-async function processCafe(googlePlaceId: string) {
-  console.log('\n' + '='.repeat(60));
-  console.log('☕ CAFE COMPASS - OPTIMIZED BACKEND PROCESSOR');
-  console.log('='.repeat(60));
+type ProcessStatus = 'scored' | 'needs_review';
+
+// Runs the full pipeline for one cafe. Throws on failure so callers decide
+// whether that ends the run (single cafe) or just that entry (import).
+async function processCafe(
+  googlePlaceId: string,
+  source: ReviewSourceProvider,
+  scorers: ReviewScorer[],
+  photoMirror: PhotoMirror,
+  overrides: CafeOverrides = {}
+): Promise<{ cafeId: string; status: ProcessStatus }> {
+  log.section('☕ CAFE COMPASS - OPTIMIZED BACKEND PROCESSOR');
 
   const startTime = Date.now();
 
+  // STEP 1: Scrape cafe and reviews
+  const result = await scrapeCafe(googlePlaceId, source, overrides.city ?? null);
+  
+  if (!result) {
+    throw new Error(`Could not fetch cafe data for ${googlePlaceId}`);
+  }
+
+  const { place, city, allReviews } = result;
+
+  // STEP 2: Add/update cafe
+  const cafeId = await upsertCafe(place, city, photoMirror, overrides);
+
+  // STEP 3: Store reviews (we store ALL, but flag work-related ones)
+  const { storedCount, workRelatedCount, unsaved } = await storeReviews(cafeId, city, allReviews);
+
+  if (storedCount === 0) {
+    log.warn('⚠️  No new reviews stored\n');
+  }
+
+  // STEP 4: AI Analysis (uses only work-related reviews)
+  let scoring;
   try {
-    // STEP 1: Scrape cafe and reviews
-    const result = await scrapeCafe(googlePlaceId);
-    
-    if (!result) {
-      console.log('❌ Could not fetch cafe data\n');
-      process.exit(1);
-    }
+    scoring = await analyzeWithAI(cafeId, city, scorers, unsaved);
+  } catch (error) {
+    if (!(error instanceof ScoreValidationError)) throw error;
+    await flagCafeForReview(cafeId, error.message);
+    log.info(`☕ ${place.name} saved with its reviews; re-run to score it.\n`);
+    return { cafeId, status: 'needs_review' };
+  }
+  const { scores, scoredBy } = scoring;
+
+  // STEP 5: Update cafe (use total reviews processed, not just newly stored ones)
+  await updateCafeScores(cafeId, city, scoring, allReviews.length);
+
+  // SUMMARY
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+
+  log.section('✅ PROCESSING COMPLETE');
+  log.info(`\n☕ ${place.name}`);
+  log.info(`   ${place.full_address || place.street}`);
+  log.info(`\n📊 Final Scores:`);
+  log.info(`   Work Score: ${scores.work_score}/5`);
+  log.info(`   WiFi Quality: ${scores.wifi_quality}/5`);
+  log.info(`   Noise Level: ${scores.noise_level ?? '—'}/5`);
+  log.info(`   Outlets: ${scores.outlet_availability}/5`);
+  log.info(`   Seating: ${scores.seating_comfort}/5`);
+  log.info(`   Lighting: ${scores.lighting_quality}/5`);
+  log.info(`\n💬 Summary:`);
+  if (scores.tagline) log.info(`   ${scores.tagline}`);
+  log.info(`   "${scores.summary}"`);
+  (scores.pros || []).forEach(point => log.info(`   + ${point}`));
+  (scores.cons || []).forEach(point => log.info(`   - ${point}`));
+  (scores.evidence || []).forEach(quote => log.info(`   • "${quote}"`));
+  log.info(`\n📈 Stats:`);
+  log.info(`   Total reviews: ${allReviews.length}`);
+  log.info(`   Work-related: ${workRelatedCount} (${((workRelatedCount/allReviews.length)*100).toFixed(0)}%)`);
+  log.info(`   Stored: ${storedCount}`);
+  log.info(`   AI Confidence: ${scores.confidence}`);
+  log.info(`   Scored by: ${scoredBy}`);
+  if (scores.validation_issues) {
+    log.warn(`   ⚠️  Needs review: ${scores.validation_issues.join('; ')}`);
+  }
+  log.info(`\n⏱️  Processing time: ${elapsed}s`);
+  log.info(`💰 Cost: $${costMeter.spent().toFixed(3)} this run\n`);
+  log.info(dryRun ? '\n🔍 Dry run: nothing was written\n' : '\n✅ Cafe is now live on your website!\n');
+
+  return { cafeId, status: scores.validation_issues ? 'needs_review' : 'scored' };
+}
+
+// Credit exhaustion won't fix itself on the next cafe, so imports stop on it
+function isOutOfCredits(error: any): boolean {
+  return error.message.includes('402') || error.message.includes('credits');
+}
+
+function printErrorHints(error: any) {
+  if (error.message.includes('401') || error.message.includes('X-API-KEY')) {
+    log.info('\n💡 Check OUTSCRAPER_API_KEY in .env.local');
+  }
+  if (isOutOfCredits(error)) {
+    log.info('\n💡 Out of Outscraper credits. Add more at outscraper.com');
+  }
+  if (error.message.includes('GEMINI') || error.message.includes('API_KEY')) {
+    log.info('\n💡 Check GEMINI_API_KEY in .env.local');
+  }
+  if (error.message.includes('Budget of')) {
+    log.info('\n💡 Raise --budget, or run "npm run process rescore" later to score reviews already stored');
+  }
+}
+
+async function processSingleCafe(
+  googlePlaceId: string,
+  source: ReviewSourceProvider,
+  scorers: ReviewScorer[],
+  photoMirror: PhotoMirror,
+  city: City | null
+) {
+  try {
+    await forCafe(googlePlaceId, () => processCafe(googlePlaceId, source, scorers, photoMirror, { city: city ?? undefined }), result => result.status);
+  } catch (error: any) {
+    failRun(error);
+
+    // Helpful error messages
+    printErrorHints(error);
+
+    log.info('');
+  }
+}
+
+// =====================================================
+// BULK IMPORT FROM A PLACE-ID MANIFEST
+// =====================================================
+
+async function importCafes(
+  manifestFile: string,
+  source: ReviewSourceProvider,
+  scorers: ReviewScorer[],
+  photoMirror: PhotoMirror,
+  options: { concurrency: number; checkpointFile: string; city: City | null }
+) {
+  const startTime = Date.now();
 
-    const { place, allReviews, workReviews } = result;
+  try {
+    const entries = await loadManifest(manifestFile);
+
+    // Caught before any cafe is paid for
+    const unknownCities = [...new Set(entries.map(entry => entry.city).filter(city => city && !findCity(city)))];
+    if (unknownCities.length > 0) {
+      throw new Error(`Unknown ${unknownCities.length === 1 ? 'city' : 'cities'} in manifest: ${unknownCities.join(', ')} (registered: ${CITIES.map(c => c.name).join(', ')})`);
+    }
+    const checkpoint = await loadCheckpoint(options.checkpointFile, manifestFile);
 
-    // STEP 2: Add/update cafe
-    const cafeId = await upsertCafe(place);
+    const pending = entries.filter(entry => !checkpoint.completed[entry.place_id]);
+    const alreadyDone = entries.length - pending.length;
 
-    // STEP 3: Store reviews (we store ALL, but flag work-related ones)
-    const { storedCount, workRelatedCount } = await storeReviews(cafeId, allReviews);
+    log.info(`📋 Manifest: ${entries.length} cafes (${alreadyDone} already done, ${pending.length} to go)`);
+    log.info(`💾 Checkpoint: ${options.checkpointFile}`);
+    log.info(`⚙️  Concurrency: ${options.concurrency}\n`);
 
-    if (storedCount === 0) {
-      console.log('⚠️  No new reviews stored\n');
+    if (pending.length === 0) {
+      log.info('✅ Nothing to import, every cafe in the manifest is done\n');
+      return;
     }
 
-    // STEP 4: AI Analysis (uses only work-related reviews)
-    const scores = await analyzeWithAI(cafeId);
+    // Serialize checkpoint writes; lanes finish in any order
+    let saving = Promise.resolve();
+    // A dry run leaves the checkpoint alone, so the real import still does every cafe
+    const persist = () => dryRun ? saving : (saving = saving.then(() => saveCheckpoint(options.checkpointFile, checkpoint)));
+
+    let stopReason: string | null = null;
+    let successCount = 0;
+    let reviewCount = 0;
+    let errorCount = 0;
+
+    await runWithConcurrency(pending, options.concurrency, async (entry, i) => {
+      log.info(`\n[${i + 1}/${pending.length}] 🔄 Importing: ${entry.place_id}`);
+
+      try {
+        const { cafeId, status } = await forCafe(entry.place_id, () =>
+          processCafe(entry.place_id, source, scorers, photoMirror, {
+            city: findCity(entry.city) ?? options.city ?? undefined,
+            tags: entry.tags,
+          }),
+          result => result.status
+        );
+        checkpoint.completed[entry.place_id] = { cafe_id: cafeId, status, finished_at: new Date().toISOString() };
+        delete checkpoint.failed[entry.place_id];
+        if (status === 'needs_review') reviewCount++;
+        else successCount++;
+      } catch (error: any) {
+        log.error(`   ❌ ${entry.place_id}: ${error.message}`);
+        checkpoint.failed[entry.place_id] = { error: error.message, failed_at: new Date().toISOString() };
+        errorCount++;
+        if ((isOutOfCredits(error) || error instanceof BudgetExceededError) && !stopReason) {
+          stopReason = error.message;
+          runLog.stop(error.message);
+        }
+      }
+
+      await persist();
+    }, () => stopReason !== null);
 
-    // STEP 5: Update cafe (use total reviews processed, not just newly stored ones)
-    await updateCafeScores(cafeId, scores, allReviews.length);
+    await saving;
 
-    // SUMMARY
+    const remaining = entries.filter(entry => !checkpoint.completed[entry.place_id]).length;
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
 
-    console.log('='.repeat(60));
-    console.log('✅ PROCESSING COMPLETE');
-    console.log('='.repeat(60));
-    console.log(`\n☕ ${place.name}`);
-    console.log(`   ${place.full_address || place.street}`);
-    console.log(`\n📊 Final Scores:`);
-    console.log(`   Work Score: ${scores.work_score}/5`);
-    console.log(`   WiFi Quality: ${scores.wifi_quality}/5`);
-    console.log(`   Noise Level: ${scores.noise_level}/5`);
-    console.log(`\n💬 Summary:`);
-    console.log(`   "${scores.summary}"`);
-    console.log(`\n📈 Stats:`);
-    console.log(`   Total reviews: ${allReviews.length}`);
-    console.log(`   Work-related: ${workRelatedCount} (${((workRelatedCount/allReviews.length)*100).toFixed(0)}%)`);
-    console.log(`   Stored: ${storedCount}`);
-    console.log(`   AI Confidence: ${scores.confidence}`);
-    console.log(`\n⏱️  Processing time: ${elapsed}s`);
-    console.log(`💰 Cost: ~$0.05\n`);
-    console.log('='.repeat(60));
-    console.log('\n✅ Cafe is now live on your website!\n');
+    log.section(stopReason ? '⏸️  IMPORT STOPPED' : '✅ IMPORT COMPLETE');
+    log.info(`\n📊 Results:`, { imported: successCount, needs_review: reviewCount, errors: errorCount, remaining });
+    log.info(`   ✅ Imported: ${successCount}`);
+    log.info(`   ⚠️  Needs review: ${reviewCount}`);
+    log.info(`   ❌ Errors: ${errorCount}`);
+    log.info(`   ⏳ Remaining: ${remaining}/${entries.length}`);
+    log.info(`\n⏱️  Processing time: ${elapsed}s`);
+    log.info(`💰 Cost: $${costMeter.spent().toFixed(3)}`);
+
+    if (stopReason) {
+      log.info(`\n🛑 Stopped early: ${stopReason}`);
+      printErrorHints({ message: stopReason });
+    }
+    if (remaining > 0 && !dryRun) {
+      log.info(`\n💡 Run the same command again to resume; finished cafes are skipped.\n`);
+    }
 
   } catch (error: any) {
-    console.error('\n❌ Error:', error.message);
+    failRun(error);
+  }
+}
 
-    // Helpful error messages
-    if (error.message.includes('401') || error.message.includes('X-API-KEY')) {
-      console.log('\n💡 Check OUTSCRAPER_API_KEY in .env.local');
+// =====================================================
+// SCHEDULED REFRESH (stalest, most popular, least certain first)
+// =====================================================
+
+interface RefreshOptions {
+  top: number;
+  timeBudgetMs: number | null;
+  budget: number | null;     // Same dollars as --budget
+  plan: boolean;             // Print the ranking, refresh nothing
+}
+
+// Re-runs the full pipeline for the highest-priority cafes. Meant for cron:
+// each run keeps whatever matters most fresh, within the time and cost given.
+async function refreshCafes(
+  source: ReviewSourceProvider,
+  scorers: ReviewScorer[],
+  photoMirror: PhotoMirror,
+  options: RefreshOptions
+) {
+  log.section('☕ CAFE COMPASS - SCHEDULED REFRESH');
+
+  try {
+    const ranked = rankForRefresh(await fetchRefreshCandidates(supabase));
+    const selected = ranked.slice(0, options.top);
+
+    if (selected.length === 0) {
+      log.info('📭 No cafes in the database yet\n');
+      return;
     }
-    if (error.message.includes('402') || error.message.includes('credits')) {
-      console.log('\n💡 Out of Outscraper credits. Add more at outscraper.com');
+
+    log.info(`📋 ${ranked.length} cafes ranked, refreshing up to ${selected.length}`);
+    if (options.timeBudgetMs) log.info(`⏱️  Time budget: ${(options.timeBudgetMs / 60_000).toFixed(0)} min`);
+    if (options.budget) log.info(`💰 Cost budget: $${options.budget.toFixed(2)}`);
+    log.info('');
+    selected.forEach((cafe, i) => log.info(
+      `   ${String(i + 1).padStart(2)}. ${cafe.name} - priority ${cafe.priority.toFixed(2)} ` +
+      `(last scraped ${cafe.last_scraped_at?.slice(0, 10) || 'never'}, ${cafe.favorites} favorites, ` +
+      `uncertainty ${cafe.uncertainty.toFixed(2)})`,
+      {
+        google_place_id: cafe.google_place_id,
+        priority: cafe.priority,
+        staleness: cafe.staleness,
+        popularity: cafe.popularity,
+        uncertainty: cafe.uncertainty,
+      }
+    ));
+
+    if (options.plan) {
+      log.info('\n🗒️  Plan only - nothing refreshed\n');
+      return;
     }
-    if (error.message.includes('GEMINI') || error.message.includes('API_KEY')) {
-      console.log('\n💡 Check GEMINI_API_KEY in .env.local');
+
+    const startTime = Date.now();
+    const counts: Record<ProcessStatus | 'error', number> = { scored: 0, needs_review: 0, error: 0 };
+    let attempted = 0;
+    let stopReason: string | null = null;
+
+    for (const cafe of selected) {
+      // Don't start a cafe that, going by the average so far, would overrun a budget
+      if (attempted > 0) {
+        const elapsed = Date.now() - startTime;
+        const spent = costMeter.spent();
+        if (options.timeBudgetMs && elapsed + elapsed / attempted > options.timeBudgetMs) {
+          stopReason = `Time budget of ${(options.timeBudgetMs / 60_000).toFixed(0)} min reached`;
+        } else if (options.budget && spent + spent / attempted > options.budget) {
+          stopReason = `Budget of $${options.budget.toFixed(2)} would be exceeded by the next cafe`;
+        }
+        if (stopReason) {
+          runLog.stop(stopReason);
+          break;
+        }
+      }
+
+      attempted++;
+      log.info(`\n[${attempted}/${selected.length}] 🔄 Refreshing: ${cafe.name}`);
+
+      try {
+        // Keep the city and tags the cafe was filed under
+        const { status } = await forCafe(cafe.google_place_id, () =>
+          processCafe(cafe.google_place_id, source, scorers, photoMirror, {
+            city: findCity(cafe.city) ?? undefined,
+            tags: cafe.tags || undefined,
+          }),
+          result => result.status
+        );
+        counts[status]++;
+      } catch (error: any) {
+        log.error(`   ❌ ${cafe.name}: ${error.message}`);
+        counts.error++;
+        if (isOutOfCredits(error) || error instanceof BudgetExceededError) {
+          stopReason = error.message;
+          runLog.stop(error.message);
+          break;
+        }
+      }
     }
-    if (error.message.includes('JSON') || error.message.includes('SyntaxError')) {
-      console.log('\n💡 AI returned invalid JSON. Try running again.');
+
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+
+    log.section(stopReason ? '⏸️  REFRESH STOPPED' : '✅ REFRESH COMPLETE');
+    log.info(`\n📊 Results:`, { ...counts, skipped: selected.length - attempted });
+    log.info(`   ✅ Refreshed: ${counts.scored}`);
+    log.info(`   ⚠️  Needs review: ${counts.needs_review}`);
+    log.info(`   ❌ Errors: ${counts.error}`);
+    log.info(`   ⏭️  Left for next time: ${selected.length - attempted}`);
+    log.info(`\n⏱️  Processing time: ${elapsed}s`);
+    log.info(`💰 Cost: $${costMeter.spent().toFixed(3)}`);
+    if (stopReason) {
+      log.info(`\n🛑 Stopped early: ${stopReason}`);
+      printErrorHints({ message: stopReason });
     }
+    log.info('');
 
-    console.log('');
-    process.exit(1);
+  } catch (error: any) {
+    failRun(error);
+  }
+}
+
+// =====================================================
+// ADMIN: MANUAL OVERRIDES & DELETION
+// =====================================================
+
+// Writes hand-edited values and adds their columns to manual_overrides, so
+// later pipeline runs leave them alone; `unlock` hands columns back
+async function setCafeFields(idOrPlaceId: string, assignments: string[], unlock: string[]) {
+  // Validate everything before touching the cafe
+  const updates: Record<string, unknown> = Object.fromEntries(
+    assignments.map(arg => {
+      const { field, value } = parseAssignment(arg);
+      return [field, value];
+    })
+  );
+  const unknownFields = unlock.filter(field => !(field in EDITABLE_FIELDS));
+  if (unknownFields.length > 0) {
+    throw new Error(`Can't unlock ${unknownFields.join(', ')}: not an editable field`);
+  }
+  if (unlock.some(field => field in updates)) {
+    throw new Error('A field can\'t be set and unlocked at once');
+  }
+  if (assignments.length === 0 && unlock.length === 0) {
+    throw new Error('Nothing to change. Usage: npm run process set <id|place_id> field=value ... [--unlock field]');
+  }
+
+  const cafe = await resolveCafe(supabase, idOrPlaceId);
+  if (!cafe) {
+    throw new Error('Cafe not found in database');
+  }
+
+  log.info(`✏️  Editing: ${cafe.name}\n`);
+
+  await forCafe(cafe.google_place_id, async () => {
+    const { data: current, error } = await supabase
+      .from('cafes')
+      .select('manual_overrides')
+      .eq('id', cafe.id)
+      .single();
+
+    if (error) throw error;
+
+    const overrides = new Set<string>(current.manual_overrides || []);
+    Object.keys(updates).forEach(field => overrides.add(field));
+    unlock.forEach(field => overrides.delete(field));
+
+    await updateCafe(cafe.id, {
+      ...updates,
+      // The map shows calibrated ?? raw, so a hand-set score must not be hidden
+      // behind the calibrated AI one; unlocked, the next rescore recalibrates it
+      ...('work_score' in updates ? { work_score_calibrated: null } : {}),
+      manual_overrides: [...overrides].sort(),
+      last_updated: new Date().toISOString(),
+    }, true);
+  }, () => 'edited');
+
+  Object.entries(updates).forEach(([field, value]) => log.info(`   🔒 ${field} = ${JSON.stringify(value)}`));
+  unlock.forEach(field => log.info(`   🔓 ${field} unlocked, the pipeline will update it again`));
+  log.info(dryRun ? '\n🧪 Dry run - nothing written\n' : '\n✅ Cafe updated\n');
+}
+
+// Deletes the cafe with everything hanging off it (reviews, photos, score
+// history, favorites and notes all cascade), plus its mirrored photo files.
+// Without `confirmed` it only reports what would go.
+async function deleteCafe(idOrPlaceId: string, store: PhotoStore, confirmed: boolean) {
+  const cafe = await resolveCafe(supabase, idOrPlaceId);
+  if (!cafe) {
+    throw new Error('Cafe not found in database');
+  }
+
+  const dependents = await countDependents(supabase, cafe.id);
+  log.info(`🗑️  ${cafe.name} (${cafe.google_place_id})`);
+  log.info(
+    `   Removes ${dependents.reviews} reviews, ${dependents.photos} photos, ${dependents.snapshots} score snapshots, ` +
+    `${dependents.favorites} favorites and ${dependents.notes} notes`,
+    dependents
+  );
+  if (dependents.favorites + dependents.notes > 0) {
+    log.warn('   ⚠️  Users have saved this cafe; their favorites and notes are deleted with it');
+  }
+
+  if (!confirmed && !dryRun) {
+    log.info('\n⚠️  Nothing deleted. Re-run with --yes to delete.\n');
+    return;
+  }
+
+  await forCafe(cafe.google_place_id, async () => {
+    const { data: photos, error: photosError } = await supabase
+      .from('cafe_photos')
+      .select('storage_path')
+      .eq('cafe_id', cafe.id);
+
+    if (photosError) throw photosError;
+
+    runLog.changed([{ field: 'cafe', before: cafe.name, after: null }]);
+    if (dryRun) return;
+
+    const { error } = await supabase
+      .from('cafes')
+      .delete()
+      .eq('id', cafe.id);
+
+    if (error) throw new Error(`Delete failed: ${error.message}`);
+
+    // The rows are gone either way; a leftover file is only wasted storage
+    try {
+      if (photos && photos.length > 0) await store.remove(photos.map(photo => photo.storage_path));
+    } catch (error: any) {
+      log.warn(`   ⚠️  Could not remove photo files: ${error.message}`);
+    }
+  }, () => 'deleted');
+
+  log.info(dryRun ? '\n🧪 Dry run - nothing deleted\n' : '\n✅ Cafe deleted\n');
+}
+
+// =====================================================
+// PROMPT EVALUATION (golden set, offline unless --live)
+// =====================================================
+
+interface EvalOptions {
+  scorer: 'gemini' | 'heuristic';
+  promptVersion: string;
+  goldenFile: string;
+  responsesFile: string;
+  live: boolean;   // Call Gemini and record its answers instead of replaying them
+}
+
+// Gemini prompts are also run at the previous version, so the report shows
+// whether a change made scores better or just different
+async function evaluatePrompt(options: EvalOptions) {
+  const cafes = await loadGoldenSet(options.goldenFile);
+
+  if (options.scorer === 'heuristic') {
+    const run = await runGoldenSet(cafes, createHeuristicScorer());
+    printEvalReport(cafes, run, null);
+    return;
+  }
+
+  const model = options.live
+    ? createRecordingModel(createGeminiModel(genAI), options.responsesFile)
+    : createRecordedModel(options.responsesFile);
+  const meter = options.live ? costMeter : createNullMeter();
+  const synthetic = options.live ? null : await syntheticResponsesNote(options.responsesFile);
+
+  if (synthetic) {
+    log.warn(`⚠️  Synthetic answers in ${options.responsesFile}: ${synthetic}\n`);
+  }
+  log.info(`🧪 Scoring ${cafes.length} golden cafes with ${options.live ? 'live Gemini calls' : `answers ${synthetic ? 'written' : 'recorded'} in ${options.responsesFile}`}...\n`);
+  const run = await runGoldenSet(cafes, createGeminiScorer(model, meter, options.promptVersion));
+  const previousVersion = previousPromptVersion(options.promptVersion);
+  const previous = previousVersion
+    ? await runGoldenSet(cafes, createGeminiScorer(model, meter, previousVersion))
+    : null;
+
+  printEvalReport(cafes, run, previous, !!synthetic);
+
+  if (run.failures.length > 0) {
+    log.info('\n💡 A changed prompt, review or lexicon needs new answers: re-run with --live to record them');
+    process.exitCode = 1;
+  }
+  if (options.live) {
+    log.info(`\n💰 Cost: $${costMeter.spent().toFixed(3)}`);
+  }
+  log.info('');
+}
+
+// =====================================================
+// DRY RUN DIFF
+// =====================================================
+
+const DIFF_VALUE_WIDTH = 70;
+
+function formatDiffValue(value: unknown): string {
+  const text = value === null || value === undefined ? '∅' : JSON.stringify(value);
+  return text.length > DIFF_VALUE_WIDTH ? `${text.slice(0, DIFF_VALUE_WIDTH - 1)}…` : text;
+}
+
+function printDiff(diffs: CafeDiff[]) {
+  log.section('🔍 DRY RUN - CHANGES THAT WOULD BE WRITTEN');
+
+  for (const diff of diffs) {
+    const label = diff.new_cafe ? 'new cafe' : diff.outcome;
+    log.info(`\n☕ ${diff.google_place_id} (${label})`, { diff });
+    if (diff.error) log.info(`   ❌ ${diff.error}`);
+    if (diff.changes.length === 0 && !diff.error) log.info('   No changes');
+    for (const change of diff.changes) {
+      log.info(`   ${change.field}: ${formatDiffValue(change.before)} → ${formatDiffValue(change.after)}`);
+    }
+  }
+
+  const changedCount = diffs.filter(diff => diff.changes.length > 0).length;
+  log.info(`\n📊 ${changedCount}/${diffs.length} cafes would change; nothing was written\n`);
+}
+
+// Full (untruncated) values, stable order, so the file diffs cleanly in a PR
+async function writeDiff(file: string, diffs: CafeDiff[]) {
+  const report = {
+    run_id: runLog.runId,
+    command,
+    args: process.argv.slice(2),
+    generated_at: new Date().toISOString(),
+    cafes: [...diffs].sort((a, b) => a.google_place_id.localeCompare(b.google_place_id)),
+  };
+  await fs.writeFile(file, JSON.stringify(report, null, 2) + '\n');
+  log.info(`💾 Diff written to ${file}\n`);
+}
+
+// =====================================================
+// COST REPORT
+// =====================================================
+
+interface CostRow {
+  provider: string;
+  estimated_cost: number;
+  google_place_id: string | null;
+  created_at: string;
+}
+
+// Supabase caps a single select, so the ledger is read a page at a time
+const COST_PAGE_SIZE = 1000;
+
+async function fetchCostLedger(): Promise<CostRow[]> {
+  const rows: CostRow[] = [];
+  for (let from = 0; ; from += COST_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('pipeline_costs')
+      .select('provider, estimated_cost, google_place_id, created_at')
+      .order('created_at')
+      .range(from, from + COST_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []).map(row => ({ ...row, estimated_cost: Number(row.estimated_cost) })));
+    if (!data || data.length < COST_PAGE_SIZE) return rows;
+  }
+}
+
+function formatDollars(amount: number): string {
+  return `$${amount.toFixed(2)}`.padStart(10);
+}
+
+async function reportCosts() {
+  const rows = await fetchCostLedger();
+  if (rows.length === 0) {
+    log.info('\n💰 No API costs recorded yet\n');
+    return;
+  }
+
+  const providers = [...new Set(rows.map(row => row.provider))].sort();
+  const byMonth = new Map<string, Record<string, number>>();
+  const byCafe = new Map<string, number>();
+  let total = 0;
+
+  for (const row of rows) {
+    const month = row.created_at.slice(0, 7);
+    const monthTotals = byMonth.get(month) || {};
+    monthTotals[row.provider] = (monthTotals[row.provider] || 0) + row.estimated_cost;
+    byMonth.set(month, monthTotals);
+
+    const cafeKey = row.google_place_id || '(no cafe)';
+    byCafe.set(cafeKey, (byCafe.get(cafeKey) || 0) + row.estimated_cost);
+    total += row.estimated_cost;
   }
+
+  // Every cafe, a page at a time: filtering on hundreds of place IDs would
+  // overflow the request URL
+  const cafes = await fetchAllRows(supabase, 'cafes', 'name, google_place_id');
+  const cafeNames = new Map(cafes.map(cafe => [cafe.google_place_id, cafe.name]));
+
+  log.info('\n' + '='.repeat(60));
+  log.info('💰 API COSTS BY MONTH (estimated)');
+  log.info('='.repeat(60));
+  log.info(`Month   ${providers.map(provider => provider.padStart(14)).join('')}${'Total'.padStart(10)}`);
+  for (const [month, totals] of [...byMonth.entries()].sort()) {
+    const monthTotal = Object.values(totals).reduce((sum, cost) => sum + cost, 0);
+    log.info(`${month} ${providers.map(provider => formatDollars(totals[provider] || 0).padStart(14)).join('')}${formatDollars(monthTotal)}`);
+  }
+
+  log.info('\n' + '='.repeat(60));
+  log.info('☕ API COSTS BY CAFE (estimated, most expensive first)');
+  log.info('='.repeat(60));
+  for (const [placeId, cost] of [...byCafe.entries()].sort((a, b) => b[1] - a[1])) {
+    log.info(`${formatDollars(cost)}  ${cafeNames.get(placeId) || placeId}`);
+  }
+
+  log.info(`\n💰 Total: ${formatDollars(total).trim()} across ${rows.length} API calls\n`);
 }
 
 // =====================================================
 // CLI
 // =====================================================
 
-const args = process.argv.slice(2);
+const { values: flags, positionals: args } = parseArgs({
+  args: process.argv.slice(2),
+  allowPositionals: true,
+  options: {
+    source: { type: 'string', default: 'outscraper' },
+    fixtures: { type: 'string', default: path.join(__dirname, '../fixtures') },
+    record: { type: 'string' },
+    scorer: { type: 'string', default: 'gemini' },
+    concurrency: { type: 'string', default: '2' },
+    checkpoint: { type: 'string' },
+    budget: { type: 'string' },
+    quiet: { type: 'boolean', short: 'q' },
+    verbose: { type: 'boolean', short: 'v' },
+    'log-format': { type: 'string', default: 'pretty' },
+    'dry-run': { type: 'boolean' },
+    'no-cache': { type: 'boolean' },
+    'diff-out': { type: 'string' },
+    photos: { type: 'string', default: '5' },
+    'photo-store': { type: 'string', default: 'supabase' },
+    'photo-dir': { type: 'string', default: path.join(__dirname, '../../frontend/public/cafe-photos') },
+    city: { type: 'string' },
+    tag: { type: 'string' },
+    'min-score': { type: 'string' },
+    'max-score': { type: 'string' },
+    'needs-review': { type: 'boolean' },
+    missing: { type: 'string' },
+    sort: { type: 'string', default: 'name' },
+    limit: { type: 'string', default: '50' },
+    'older-than': { type: 'string', default: '30d' },
+    unlock: { type: 'string', multiple: true },
+    yes: { type: 'boolean' },
+    format: { type: 'string' },
+    'open-now': { type: 'boolean' },
+    top: { type: 'string', default: '10' },
+    'time-budget': { type: 'string' },
+    plan: { type: 'boolean' },
+    prompt: { type: 'string' },
+    golden: { type: 'string', default: path.join(EVAL_DIR, 'golden-set.json') },
+    responses: { type: 'string', default: path.join(EVAL_DIR, 'recorded-responses.json') },
+    live: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+  },
+});
 const command = args[0];
 const googlePlaceId = args[1] || args[0];
 
-if (!command) {
+if (flags['log-format'] !== 'pretty' && flags['log-format'] !== 'json') {
+  console.error(`❌ Unknown log format: ${flags['log-format']} (use pretty or json)`);
+  process.exit(1);
+}
+connect(!command || !!flags.help || (command === 'eval' && !flags.live));
+
+const logLevel: LogLevel = flags.verbose ? 'debug' : flags.quiet ? 'warn' : 'info';
+configureLogging({ level: logLevel, format: flags['log-format'], fields: { run_id: costMeter.runId, command } });
+
+log.debug('🔧 Environment check:');
+log.debug(`   OUTSCRAPER_API_KEY: ${process.env.OUTSCRAPER_API_KEY ? '✅ Loaded' : '❌ Missing'}`);
+log.debug(`   GEMINI_API_KEY: ${process.env.GOOGLE_GEMINI_API_KEY ? '✅ Loaded' : '❌ Missing'}`);
+log.debug(`   GOOGLE_MAPS_API_KEY: ${process.env.GOOGLE_MAPS_API_KEY ? '✅ Loaded' : '❌ Missing'}`);
+log.debug(`   SUPABASE_URL: ${process.env.VITE_PUBLIC_SUPABASE_URL ? '✅ Loaded' : '❌ Missing'}`);
+log.debug(`   SUPABASE_SERVICE_KEY: ${process.env.SUPABASE_SERVICE_ROLE_KEY ? '✅ Loaded' : '❌ Missing'}\n`);
+
+function createReviewSource(): ReviewSourceProvider {
+  let source: ReviewSourceProvider;
+  if (flags.source === 'fixtures') {
+    source = createFixtureSource(flags.fixtures!);
+  } else if (flags.source === 'outscraper') {
+    source = createMeteredSource(createOutscraperSource(process.env.OUTSCRAPER_API_KEY!), costMeter);
+  } else {
+    console.error(`❌ Unknown review source: ${flags.source} (use outscraper or fixtures)`);
+    process.exit(1);
+  }
+  return flags.record ? createRecordingSource(source, flags.record) : source;
+}
+
+function promptVersion(): string {
+  if (!flags.prompt) return latestPromptVersion();
+  if (!promptVersions().includes(flags.prompt)) {
+    console.error(`❌ Unknown prompt version: ${flags.prompt} (available: ${promptVersions().join(', ')})`);
+    process.exit(1);
+  }
+  return flags.prompt;
+}
+
+function createScorers(): ReviewScorer[] {
+  switch (flags.scorer) {
+    case 'gemini':
+      return [createCachedScorer(createGeminiScorer(createGeminiModel(genAI), costMeter, promptVersion()), responseCache)];
+    case 'heuristic':
+      return [createHeuristicScorer()];
+    case 'auto':
+      return [
+        createCachedScorer(createGeminiScorer(createGeminiModel(genAI), costMeter, promptVersion()), responseCache),
+        createHeuristicScorer(),
+      ];
+    default:
+      console.error(`❌ Unknown scorer: ${flags.scorer} (use gemini, heuristic or auto)`);
+      process.exit(1);
+  }
+}
+
+function createPhotoMirror(): PhotoMirror {
+  const limit = parseInt(flags.photos!, 10);
+  if (!Number.isInteger(limit) || limit < 0) {
+    console.error('❌ --photos must be a whole number (0 to skip photos)');
+    process.exit(1);
+  }
+
+  let store: PhotoStore;
+  if (flags['photo-store'] === 'supabase') {
+    store = createSupabasePhotoStore(supabase, process.env.PHOTO_BUCKET || DEFAULT_PHOTO_BUCKET);
+  } else if (flags['photo-store'] === 'local') {
+    store = createLocalPhotoStore(flags['photo-dir']!, process.env.PHOTO_BASE_URL || '/cafe-photos');
+  } else {
+    console.error(`❌ Unknown photo store: ${flags['photo-store']} (use supabase or local)`);
+    process.exit(1);
+  }
+  return { store, limit };
+}
+
+if (!command || flags.help) {
   console.log(`
 📖 Cafe Compass - Backend Processor
 
@@ -991,44 +2245,386 @@ Usage:
   npm run process <google_place_id>          # Full process (with Outscraper)
   npm run process update <google_place_id>   # Update existing cafe (Google Places only)
   npm run process update all                 # Update ALL cafes (Google Places only)
+  npm run process import <file>              # Full process for every place ID in a CSV/JSON manifest
+  npm run process rescore                    # Re-score cafes with unanalyzed reviews (AI only, no scraping)
+  npm run process aspects <google_place_id|all>  # Re-tag stored reviews with aspects and language (no API calls)
+  npm run process calibrate                  # Rank work scores within each city so 4.5 = top 10% (no API calls)
+  npm run process refresh                    # Full process for the cafes most in need of fresh data
+  npm run process costs                      # Estimated API spend by month and by cafe
+  npm run process cache-stats                # Cached Gemini scores and Places details, and how often they were reused
+
+Admin (cafes are addressed by UUID or Google Place ID):
+  npm run process list                       # Cafes in the database, filtered and sorted
+  npm run process show <id|place_id>         # Everything stored about one cafe
+  npm run process stats                      # Counts, score distributions and missing fields
+  npm run process stale                      # Cafes whose reviews haven't been scraped lately
+  npm run process rescore <id|place_id>      # Re-score one cafe from its unanalyzed reviews
+  npm run process set <id|place_id> field=value ...   # Manual override, kept by later pipeline runs
+  npm run process delete <id|place_id> --yes # Delete a cafe with its reviews, photos and history
+  npm run process export <file>              # Dataset as GeoJSON, CSV or KML (by file extension)
+  npm run process eval                       # Score the golden set and compare with the previous prompt
+
+Options (full process, import and rescore):
+  --source <outscraper|fixtures>   Where place info and reviews come from (default: outscraper)
+  --fixtures <dir>                 Fixture directory for --source fixtures (default: backend/fixtures)
+  --record <dir>                   Save whatever the source returns as fixtures in <dir>
+  --scorer <gemini|heuristic|auto> How reviews are scored (default: gemini)
+                                   auto = Gemini, falling back to the keyword heuristic on failure
+  --prompt <version>               Scoring prompt from backend/prompts/scoring (default: the latest, ${latestPromptVersion()})
+  --city <name>                    File cafes under this city (${CITIES.map(c => c.name).join(', ')})
+                                   Default: the city whose bounds contain the cafe; import manifests can set it per cafe
+
+Options (full process, import and update):
+  --photos <n>                     Photos mirrored per cafe (default: 5, 0 to skip)
+  --photo-store <supabase|local>   Where mirrored photos go (default: supabase, bucket $PHOTO_BUCKET or cafe-photos)
+  --photo-dir <dir>                Directory for --photo-store local (default: frontend/public/cafe-photos)
+
+Options (refresh):
+  --top <n>                        Cafes to refresh at most (default: 10)
+  --time-budget <duration>         Don't start a cafe likely to finish past this, e.g. 45m or 2h
+  --plan                           Print the ranking without refreshing anything
+  Cafes are ranked by staleness (last scraped), popularity (favorites) and score
+  uncertainty (few reviews, unscored or flagged); --budget also applies
+
+Options (list):
+  --city <name>                    Only cafes in this city
+  --tag <tag>                      Only cafes with this tag
+  --min-score <n>, --max-score <n> Work score range, as shown on the map (calibrated if available)
+  --needs-review                   Only cafes flagged for review
+  --missing <column>               Only cafes where this column is empty, e.g. opening_hours
+  --sort <name|score|updated>      Order (default: name; updated = least recently updated first)
+  --limit <n>                      Rows shown (default: 50)
+
+Options (export):
+  --format <geojson|csv|kml>       Overrides the file extension
+  --city <name>                    Only cafes in this city
+  --min-score <n>                  Minimum work score
+  --open-now                       Only cafes open right now
+  Same columns as the Discover page download: coordinates, scores, summary, hours, Maps URL
+
+Options (stale):
+  --older-than <duration>          e.g. 12h, 30d or 2w (default: 30d)
+
+Options (calibrate):
+  --city <name>                    Only this city (default: every city)
+  Raw scores stay in work_score; work_score_calibrated maps each city's percentiles onto
+  1-5 (median 3.3, top 10% 4.5). Cities with fewer than ${MIN_CALIBRATION_CAFES} scored cafes show raw scores
+
+Options (set and delete):
+  --unlock <field>                 Drop a manual override so the pipeline updates the field again (repeatable)
+  --yes                            Actually delete; without it delete only reports what would go
+  Editable fields: ${Object.keys(EDITABLE_FIELDS).join(', ')}
+  Scores take 0-5, tags a comma-separated list, pros and cons a |-separated list, "null" clears a field
+
+Options (all paid commands):
+  --budget <dollars>               Stop cleanly before a call that would take this run past the budget
+  --no-cache                       Call Gemini and Google Places even for answers already cached
+                                   Gemini scores are cached by prompt version, model and review IDs (90 days),
+                                   Places details by place ID (7 days)
+
+Dry run (all commands that write):
+  --dry-run                        Fetch and score as usual but write nothing; prints each cafe's field changes
+  --diff-out <file>                Also save the changes as JSON (full before/after values), e.g. for a PR
+                                   Paid API calls still happen and are still recorded in pipeline_costs,
+                                   and their answers are still cached
+
+Logging (all commands):
+  -q, --quiet                      Only warnings and errors
+  -v, --verbose                    Include debug detail (API responses, environment check)
+  --log-format <pretty|json>       json prints one JSON object per line (default: pretty)
+
+Every command that writes is recorded in the pipeline_runs table: start and
+end time, each cafe's outcome, the fields that changed and any errors.
+
+Options (eval):
+  --scorer <gemini|heuristic>      Scorer to evaluate (default: gemini)
+  --prompt <version>               Prompt to evaluate (default: the latest); drift is measured against the one before
+  --golden <file>                  Golden set (default: backend/eval/golden-set.json)
+  --responses <file>               Recorded Gemini answers (default: backend/eval/recorded-responses.json,
+                                   synthetic fixtures until re-recorded with --live)
+  --live                           Call Gemini and record its answers into --responses (needs GOOGLE_GEMINI_API_KEY)
+  Reports mean absolute error, bias and Spearman rank correlation per score against the human labels
+
+Options (import):
+  --concurrency <n>                Cafes processed in parallel (default: 2)
+  --checkpoint <file>              Progress file used to resume (default: <file>.checkpoint.json)
+
+Import manifests:
+  CSV with a header row: place_id,city,tags   (tags separated by ; or |, city and tags optional)
+  Cities must be registered in shared/cities.ts
+  JSON: ["ChIJ...", ...] or [{ "place_id": "ChIJ...", "city": "Toronto", "tags": ["patio"] }, ...]
 
 Examples:
   npm run process ChIJzMQo-Jg1K4gRvzK2trT46CoA
+  npm run process ChIJzMQo-Jg1K4gRvzK2trT46CoA --record fixtures
+  npm run process ChIJ_fixture_sample_cafe --source fixtures --scorer heuristic
   npm run process update ChIJzMQo-Jg1K4gRvzK2trT46CoA
   npm run process update all
+  npm run process update all --dry-run --diff-out update-diff.json
+  npm run process import leslieville.csv --concurrency 3 --budget 5
+  npm run process export toronto.geojson --city Toronto --min-score 3.5
+  npm run process refresh --top 20 --time-budget 1h --budget 2
+  npm run process list --city Toronto --min-score 4 --sort score
+  npm run process eval --prompt v5
+  npm run process set ChIJzMQo-Jg1K4gRvzK2trT46CoA city=Toronto "tags=patio,quiet"
 
 Full Process (with Outscraper):
   ✅ Scrapes reviews and basic info
   ✅ Adds cafe to database
   ✅ AI analysis of work-friendliness
-  ✅ Fetches opening hours, images & Google reviews
-  💰 Cost: ~$0.05 per cafe
+  ✅ Fetches opening hours & Google reviews, mirrors photos
+  💰 Cost: Outscraper + Google Places + Gemini (see "npm run process costs")
+
+Rescore (AI only):
+  ✅ Folds reviews added since the last analysis into the existing scores
+  ✅ Skips the AI call entirely for cafes with nothing new
+  💰 Cost: only Gemini calls for cafes with new work-related reviews
 
 Update Only (Google Places API):
-  ✅ Updates existing cafe with opening hours, images & Google reviews
+  ✅ Updates existing cafe with opening hours, photos & Google reviews
   ✅ No review scraping or AI analysis
-  💰 Cost: ~$0.00 (just Google Places API)
+  💰 Cost: one Place Details request plus photo downloads per cafe
+
+Every Outscraper, Google Places and Gemini call is logged with its estimated
+cost in pipeline_costs; the run total is printed at the end of each command.
 
 Environment variables needed:
   - GOOGLE_MAPS_API_KEY (for both modes)
   - VITE_PUBLIC_SUPABASE_URL
   - SUPABASE_SERVICE_ROLE_KEY
-  - OUTSCRAPER_API_KEY (full process only)
-  - GOOGLE_GEMINI_API_KEY (full process only)
+  - OUTSCRAPER_API_KEY (full process only, not needed with --source fixtures)
+  - GOOGLE_GEMINI_API_KEY (full process only, not needed with --scorer heuristic)
   `);
   process.exit(0);
 }
 
+let budget: number | null = null;
+if (flags.budget !== undefined) {
+  budget = Number(flags.budget);
+  if (!Number.isFinite(budget) || budget <= 0) {
+    console.error('❌ --budget must be a positive dollar amount, e.g. --budget 2.50');
+    process.exit(1);
+  }
+}
+costMeter.start(command, budget);
+dryRun = !!flags['dry-run'];
+if (flags['no-cache']) responseCache = createDisabledCache();
+if (flags['diff-out'] && !dryRun) {
+  console.error('❌ --diff-out only applies with --dry-run');
+  process.exit(1);
+}
+
+// Wraps a command so it is recorded in pipeline_runs from start to finish
+async function recordRun(work: () => Promise<void>) {
+  await runLog.start(command, process.argv.slice(2), dryRun);
+  try {
+    await work();
+  } catch (error: any) {
+    failRun(error);
+  }
+  await runLog.finish();
+
+  const counts = responseCache.counts();
+  const hits = CACHE_NAMESPACES.filter(namespace => counts[namespace].hits > 0);
+  if (hits.length > 0) {
+    log.info(`💾 Cache hits: ${hits.map(namespace => `${namespace} ${counts[namespace].hits}/${counts[namespace].hits + counts[namespace].misses}`).join(', ')}`);
+  }
+
+  if (dryRun) {
+    printDiff(runLog.diff());
+    if (flags['diff-out']) await writeDiff(flags['diff-out'], runLog.diff());
+  }
+}
+
+// --city for the pipeline: a registered city, or null to go by coordinates
+function processingCity(): City | null {
+  if (!flags.city) return null;
+  const city = findCity(flags.city);
+  if (!city) {
+    console.error(`❌ Unknown city: ${flags.city} (registered: ${CITIES.map(c => c.name).join(', ')})`);
+    process.exit(1);
+  }
+  return city;
+}
+
+// Read-only admin commands print a report and aren't recorded as runs
+async function report(work: () => Promise<void>) {
+  try {
+    await work();
+  } catch (error: any) {
+    console.error('\n❌ Error:', error.message);
+    process.exitCode = 1;
+  }
+}
+
+function scoreFlag(flag: 'min-score' | 'max-score'): number | undefined {
+  if (flags[flag] === undefined) return undefined;
+  const value = Number(flags[flag]);
+  if (!Number.isFinite(value) || value < 0 || value > 5) {
+    console.error(`❌ --${flag} must be a number from 0 to 5`);
+    process.exit(1);
+  }
+  return value;
+}
+
+function listFilters(): ListFilters {
+  const limit = parseInt(flags.limit!, 10);
+  if (!Number.isInteger(limit) || limit < 1) {
+    console.error('❌ --limit must be a positive whole number');
+    process.exit(1);
+  }
+  if (!['name', 'score', 'updated'].includes(flags.sort!)) {
+    console.error(`❌ Unknown sort: ${flags.sort} (use name, score or updated)`);
+    process.exit(1);
+  }
+  if (flags.missing && !NULLABLE_FIELDS.includes(flags.missing)) {
+    console.error(`❌ Unknown column for --missing: ${flags.missing} (use one of ${NULLABLE_FIELDS.join(', ')})`);
+    process.exit(1);
+  }
+
+  return {
+    city: flags.city,
+    tag: flags.tag,
+    minScore: scoreFlag('min-score'),
+    maxScore: scoreFlag('max-score'),
+    needsReview: flags['needs-review'],
+    missing: flags.missing,
+    sort: flags.sort as ListSort,
+    limit,
+  };
+}
+
 // Handle commands
-if (command === 'update' && googlePlaceId === 'all') {
+if (command === 'costs') {
+  report(reportCosts);
+} else if (command === 'cache-stats') {
+  report(() => printCacheStats(supabase));
+} else if (command === 'eval') {
+  if (flags.scorer !== 'gemini' && flags.scorer !== 'heuristic') {
+    console.error(`❌ eval takes one scorer: --scorer gemini or --scorer heuristic`);
+    process.exit(1);
+  }
+  const options: EvalOptions = {
+    scorer: flags.scorer,
+    promptVersion: promptVersion(),
+    goldenFile: flags.golden!,
+    responsesFile: flags.responses!,
+    live: !!flags.live,
+  };
+  report(() => evaluatePrompt(options));
+} else if (command === 'list') {
+  const filters = listFilters();
+  report(() => listCafes(supabase, filters));
+} else if (command === 'export') {
+  if (!args[1]) {
+    console.error('❌ Missing output file. Usage: npm run process export <file> [--format geojson|csv|kml]');
+    process.exit(1);
+  }
+  let format: ExportFormat;
+  try {
+    format = exportFormatFor(args[1], flags.format);
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+  const filters: CafeFilters = { city: flags.city, minWorkScore: scoreFlag('min-score'), openNow: flags['open-now'] };
+  report(() => exportDataset(supabase, args[1], format, filters));
+} else if (command === 'stats') {
+  report(() => printStats(supabase));
+} else if (command === 'stale') {
+  let olderThan: number;
+  try {
+    olderThan = parseDuration(flags['older-than']!);
+  } catch (error: any) {
+    console.error(`❌ --older-than: ${error.message}`);
+    process.exit(1);
+  }
+  report(() => listStaleCafes(supabase, olderThan));
+} else if (command === 'show') {
+  if (!args[1]) {
+    console.error('❌ Missing cafe. Usage: npm run process show <id|place_id>');
+    process.exit(1);
+  }
+  report(async () => {
+    const cafe = await resolveCafe(supabase, args[1]);
+    if (!cafe) throw new Error('Cafe not found in database');
+    await showCafe(supabase, cafe);
+  });
+} else if (command === 'set') {
+  if (!args[1]) {
+    console.error('❌ Missing cafe. Usage: npm run process set <id|place_id> field=value ...');
+    process.exit(1);
+  }
+  recordRun(() => setCafeFields(args[1], args.slice(2), flags.unlock || []));
+} else if (command === 'delete') {
+  if (!args[1]) {
+    console.error('❌ Missing cafe. Usage: npm run process delete <id|place_id> --yes');
+    process.exit(1);
+  }
+  const photoMirror = createPhotoMirror();
+  recordRun(() => deleteCafe(args[1], photoMirror.store, !!flags.yes));
+} else if (command === 'import') {
+  if (!googlePlaceId || googlePlaceId === 'import') {
+    console.error('❌ Missing manifest file. Usage: npm run process import <file>');
+    process.exit(1);
+  }
+  const concurrency = parseInt(flags.concurrency!, 10);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.error('❌ --concurrency must be a positive whole number');
+    process.exit(1);
+  }
+  const source = createReviewSource();
+  const scorers = createScorers();
+  const photoMirror = createPhotoMirror();
+  recordRun(() => importCafes(googlePlaceId, source, scorers, photoMirror, {
+    concurrency,
+    checkpointFile: flags.checkpoint || defaultCheckpointPath(googlePlaceId),
+    city: processingCity(),
+  }));
+} else if (command === 'refresh') {
+  const top = parseInt(flags.top!, 10);
+  if (!Number.isInteger(top) || top < 1) {
+    console.error('❌ --top must be a positive whole number');
+    process.exit(1);
+  }
+  let timeBudgetMs: number | null = null;
+  if (flags['time-budget'] !== undefined) {
+    try {
+      timeBudgetMs = parseDuration(flags['time-budget']);
+    } catch (error: any) {
+      console.error(`❌ --time-budget: ${error.message}`);
+      process.exit(1);
+    }
+  }
+  const source = createReviewSource();
+  const scorers = createScorers();
+  const photoMirror = createPhotoMirror();
+  recordRun(() => refreshCafes(source, scorers, photoMirror, { top, timeBudgetMs, budget, plan: !!flags.plan }));
+} else if (command === 'aspects') {
+  // Re-run aspect extraction over reviews already in the database
+  recordRun(() => backfillAspects(args[1] || 'all'));
+} else if (command === 'calibrate') {
+  // Per-city work score distributions (no API calls)
+  const city = processingCity();
+  recordRun(() => calibrateScores(city));
+} else if (command === 'rescore') {
+  // Incremental AI re-analysis from reviews.analyzed_at (no scraping)
+  const scorers = createScorers();
+  recordRun(() => rescoreCafes(args[1] || null, scorers));
+} else if (command === 'update' && googlePlaceId === 'all') {
   // Update ALL cafes in database with Google Places details
-  updateAllCafesWithGoogleData();
+  const photoMirror = createPhotoMirror();
+  recordRun(() => updateAllCafesWithGoogleData(photoMirror));
 } else if (command === 'update' && googlePlaceId) {
   // Update existing cafe with Google Places details only (no Outscraper)
-  updateExistingCafeDetails(googlePlaceId);
+  const photoMirror = createPhotoMirror();
+  recordRun(() => updateExistingCafeDetails(googlePlaceId, photoMirror));
 } else if (command !== 'update' && command && !command.startsWith('-')) {
   // Full process with Outscraper (existing functionality)
-  processCafe(command);
+  const source = createReviewSource();
+  const scorers = createScorers();
+  const photoMirror = createPhotoMirror();
+  recordRun(() => processSingleCafe(command, source, scorers, photoMirror, processingCity()));
 } else {
   console.error('❌ Invalid command. Use --help for usage information.');
   process.exit(1);
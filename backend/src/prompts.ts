@@ -0,0 +1,196 @@
+import fs from 'fs';
+import path from 'path';
+import { aggregateAspects, EVIDENCE_MAX_LENGTH } from './aspects';
+import { formatReviewSpan, RECENCY_HALF_LIFE_DAYS, recencyWeights } from './recency';
+import {
+  PRO_CON_MAX_LENGTH,
+  PROS_CONS_MAX_COUNT,
+  SUMMARY_LONG_MAX_LENGTH,
+  SUMMARY_MAX_LENGTH,
+  TAGLINE_MAX_LENGTH,
+} from './score-validation';
+import type { PreviousScores, ScorableReview, ScoringContext } from './scorers';
+
+// Scoring prompts live in backend/prompts/scoring/<version>.txt, one file per
+// version, so a prompt change is a new file rather than an edit: snapshots and
+// `npm run process eval` can always tell which wording produced a score. The
+// highest version is what the pipeline uses unless --prompt picks another.
+// Templates fill {{placeholders}} from the variables built below.
+
+// =====================================================
+// TEMPLATES
+// =====================================================
+
+export const PROMPTS_DIR = path.join(__dirname, '../prompts/scoring');
+
+const templates = new Map<string, string>();
+
+// "v5" → 5, so v10 sorts after v9
+function versionNumber(version: string): number {
+  return Number(version.replace(/^v/, ''));
+}
+
+export function promptVersions(): string[] {
+  return fs.readdirSync(PROMPTS_DIR)
+    .filter(file => /^v\d+\.txt$/.test(file))
+    .map(file => file.replace(/\.txt$/, ''))
+    .sort((a, b) => versionNumber(a) - versionNumber(b));
+}
+
+export function latestPromptVersion(): string {
+  return promptVersions().at(-1)!;
+}
+
+// The version before `version`, for measuring drift; null for the first one
+export function previousPromptVersion(version: string): string | null {
+  const versions = promptVersions();
+  const index = versions.indexOf(version);
+  return index > 0 ? versions[index - 1] : null;
+}
+
+export function loadPromptTemplate(version: string): string {
+  let template = templates.get(version);
+  if (template === undefined) {
+    if (!promptVersions().includes(version)) {
+      throw new Error(`Unknown prompt version "${version}" (available: ${promptVersions().join(', ')})`);
+    }
+    template = fs.readFileSync(path.join(PROMPTS_DIR, `${version}.txt`), 'utf-8').replace(/\n$/, '');
+    templates.set(version, template);
+  }
+  return template;
+}
+
+// Every placeholder must have a value; variables a template doesn't use are fine
+export function renderPrompt(version: string, variables: Record<string, string | number>): string {
+  return loadPromptTemplate(version).replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Prompt ${version} uses unknown placeholder {{${name}}}`);
+    }
+    return String(variables[name]);
+  });
+}
+
+// =====================================================
+// VARIABLES
+// =====================================================
+
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Only cafes scored with prompt v7 or later have these
+function buildPreviousDetails(previous: PreviousScores): string {
+  const lines = [
+    previous.tagline ? `- tagline: "${previous.tagline}"` : null,
+    previous.summary_long ? `- summary_long: "${previous.summary_long}"` : null,
+    previous.pros?.length ? `- pros: ${JSON.stringify(previous.pros)}` : null,
+    previous.cons?.length ? `- cons: ${JSON.stringify(previous.cons)}` : null,
+  ].filter(Boolean);
+  return lines.length > 0 ? `\n${lines.join('\n')}` : '';
+}
+
+function buildPreviousSection(previous: PreviousScores): string {
+  return `Previous analysis, based on ${previous.review_count} earlier reviews:
+- work_score: ${previous.work_score}
+- wifi_quality: ${previous.wifi_quality}
+- noise_level: ${previous.noise_level ?? 'not mentioned yet'}
+- outlet_availability: ${previous.outlet_availability}
+- seating_comfort: ${previous.seating_comfort}
+- lighting_quality: ${previous.lighting_quality}
+- summary: "${previous.summary}"${previous.summary_localized ? `\n- summary_localized: "${previous.summary_localized}"` : ''}${buildPreviousDetails(previous)}
+
+The reviews below are NEW since that analysis. Update the previous scores with them,
+weighting each side by how many reviews it represents. Keep a score unless the new
+reviews give a reason to change it.`;
+}
+
+// "French" for "fr"; codes Intl doesn't know are passed through
+function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+}
+
+// 2.4 rather than 2.4000000000000004; whole counts stay whole
+function formatCount(count: number): string {
+  return String(Math.round(count * 10) / 10);
+}
+
+// Aggregated aspects with a few evidence quotes each, instead of every review's
+// full text. Falls back to raw text for general reviews with no aspects.
+// With `weights` (one per review) counts are recency-weighted, quotes come from
+// the newest reviews first and raw reviews show their month and weight.
+function formatReviewsForPrompt(reviews: ScorableReview[], weights?: number[]): string {
+  const aspects = reviews
+    .flatMap((r, i) => (r.review_aspects || []).map(aspect => ({ ...aspect, weight: weights?.[i] ?? 1 })))
+    .sort((a, b) => b.weight - a.weight);
+
+  if (aspects.length === 0) {
+    return reviews
+      .map((r, i) => {
+        const notes = [
+          r.language && r.language !== 'und' ? r.language : null,
+          weights && r.date ? formatReviewSpan([r.date]) : null,
+          weights ? `weight ${weights[i].toFixed(1)}` : null,
+        ].filter(Boolean);
+        return `Review ${i + 1}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}:\nRating: ${r.rating}/5\n${r.text}`;
+      })
+      .join('\n\n---\n\n');
+  }
+
+  const avgRating = average(reviews.map(r => r.rating || 0));
+  const lines = [...aggregateAspects(aspects).values()].map(summary => {
+    const quotes = summary.evidence
+      .map(e => `    ${e.polarity === 'positive' ? '+' : e.polarity === 'negative' ? '-' : '~'} "${e.text}"`)
+      .join('\n');
+    return `- ${summary.aspect}: ${formatCount(summary.positive)} positive, ${formatCount(summary.negative)} negative, ${formatCount(summary.neutral)} neutral\n${quotes}`;
+  });
+
+  return `Aspects extracted from ${reviews.length} reviews (average rating ${avgRating.toFixed(1)}/5).
+Positive/negative is from a remote worker's point of view (quiet = positive noise).
+
+${lines.join('\n')}`;
+}
+
+// Reviews are quoted in whatever language they were written in; the answer's
+// summary is always English, plus a localized one outside English-speaking cities
+export function buildScoringPrompt(
+  version: string,
+  reviews: ScorableReview[],
+  hasWorkReviews: boolean,
+  { city, previous }: ScoringContext
+): string {
+  const languages = [...new Set(reviews.map(r => r.language).filter(language => language && language !== 'und'))] as string[];
+  const localized = city.language !== 'en' ? languageName(city.language) : null;
+  const span = formatReviewSpan(reviews.map(r => r.date));
+
+  return renderPrompt(version, {
+    city: city.name,
+    languages_note: languages.length > 1 || (languages.length === 1 && languages[0] !== 'en')
+      ? `Reviews are in ${languages.map(languageName).join(' and ')}; weigh them equally whatever their language.\n`
+      : '',
+    previous_section: previous ? `\n${buildPreviousSection(previous)}\n` : '',
+    reviews: formatReviewsForPrompt(reviews),
+    reviews_by_recency: formatReviewsForPrompt(reviews, recencyWeights(reviews.map(r => r.date))),
+    recency_note: span
+      ? `Reviews date from ${span}. Newer reviews weigh more: one ${RECENCY_HALF_LIFE_DAYS} days older than the newest counts half as much. Where old and new reviews disagree, trust the new ones.\n`
+      : '',
+    review_guidance: hasWorkReviews
+      ? 'These reviews specifically mention work, WiFi, or laptop usage.'
+      : 'These are general reviews. Estimate work-friendliness based on atmosphere, noise, seating.',
+    work_related_count: (hasWorkReviews ? reviews.length : 0) + (previous?.review_count || 0),
+    summary_localized_value: localized ? `"the same sentence in ${localized}"` : 'null',
+    summary_localized_rule: localized
+      ? `- summary_localized: A natural ${localized} version of summary, not a word-for-word translation (max ${SUMMARY_MAX_LENGTH} characters)\n`
+      : '',
+    confidence_rule: hasWorkReviews ? '"high"' : '"low" (no work reviews)',
+    summary_max_length: SUMMARY_MAX_LENGTH,
+    tagline_max_length: TAGLINE_MAX_LENGTH,
+    summary_long_max_length: SUMMARY_LONG_MAX_LENGTH,
+    pros_cons_max_count: PROS_CONS_MAX_COUNT,
+    pro_con_max_length: PRO_CON_MAX_LENGTH,
+    evidence_max_length: EVIDENCE_MAX_LENGTH,
+  });
+}
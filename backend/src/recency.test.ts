@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatReviewSpan, MIN_RECENCY_WEIGHT, recencyWeights, weightedAverage } from './recency';
+
+describe('recencyWeights', () => {
+  it('halves the weight every half-life back from the newest review', () => {
+    const weights = recencyWeights(['2026-06-01', '2025-06-01', '2024-06-02']);
+    assert.equal(weights[0], 1);
+    assert.ok(Math.abs(weights[1] - 0.5) < 0.01, `${weights[1]}`);
+    assert.ok(Math.abs(weights[2] - 0.25) < 0.01, `${weights[2]}`);
+  });
+
+  it('never drops a review below the minimum weight', () => {
+    assert.deepEqual(recencyWeights(['2026-06-01', '2010-06-01']), [1, MIN_RECENCY_WEIGHT]);
+  });
+
+  it('treats undated reviews as the oldest', () => {
+    const [newest, oldest, undated] = recencyWeights(['2026-06-01', '2025-06-01', null]);
+    assert.equal(newest, 1);
+    assert.equal(undated, oldest);
+  });
+
+  it('weighs every review 1 when none is dated', () => {
+    assert.deepEqual(recencyWeights([null, undefined, 'not a date']), [1, 1, 1]);
+  });
+});
+
+describe('weightedAverage', () => {
+  it('leans towards the heavier values', () => {
+    assert.equal(weightedAverage([5, 1], [3, 1]), 4);
+  });
+
+  it('is 0 without any weight', () => {
+    assert.equal(weightedAverage([], []), 0);
+  });
+});
+
+describe('formatReviewSpan', () => {
+  it('gives the first and last month', () => {
+    assert.equal(formatReviewSpan(['2024-09-10', null, '2019-05-02']), '2019-05 to 2024-09');
+  });
+
+  it('gives one month when every review is from it', () => {
+    assert.equal(formatReviewSpan(['2024-09-10', '2024-09-28']), '2024-09');
+  });
+
+  it('is null when no review is dated', () => {
+    assert.equal(formatReviewSpan([null, undefined]), null);
+  });
+});
@@ -0,0 +1,52 @@
+// A review from last month says more about a cafe than one from 2017: owners
+// change, WiFi gets upgraded, seating gets replaced. Reviews are weighted with
+// an exponential decay on their date (reviews.date), so a review one half-life
+// older than the newest counts half as much.
+
+// =====================================================
+// WEIGHTS
+// =====================================================
+
+export const RECENCY_HALF_LIFE_DAYS = 365;
+
+// Old reviews fade but never vanish, so a cafe with one recent review isn't
+// scored on that review alone
+export const MIN_RECENCY_WEIGHT = 0.1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(date: string | null | undefined): number | null {
+  if (!date) return null;
+  const time = Date.parse(date);
+  return Number.isNaN(time) ? null : time;
+}
+
+// Ages are measured from the newest review rather than from today, so the
+// weights (and the prompts built from them) don't drift from one day to the
+// next. Undated reviews are treated as the oldest; with no dates at all every
+// review weighs 1, as before.
+export function recencyWeights(dates: (string | null | undefined)[]): number[] {
+  const times = dates.map(parseDate);
+  const known = times.filter((time): time is number => time !== null);
+  if (known.length === 0) return dates.map(() => 1);
+
+  const [newest, oldest] = [Math.max(...known), Math.min(...known)];
+  return times.map(time => {
+    const ageDays = (newest - (time ?? oldest)) / DAY_MS;
+    return Math.max(MIN_RECENCY_WEIGHT, 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS));
+  });
+}
+
+export function weightedAverage(values: number[], weights: number[]): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return total === 0 ? 0 : values.reduce((sum, v, i) => sum + v * weights[i], 0) / total;
+}
+
+// "2019-05 to 2024-09" for prompts and logs; null when no review is dated
+export function formatReviewSpan(dates: (string | null | undefined)[]): string | null {
+  const known = dates.map(parseDate).filter((time): time is number => time !== null);
+  if (known.length === 0) return null;
+  const month = (time: number) => new Date(time).toISOString().slice(0, 7);
+  const [from, to] = [month(Math.min(...known)), month(Math.max(...known))];
+  return from === to ? from : `${from} to ${to}`;
+}
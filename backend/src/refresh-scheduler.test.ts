@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rankForRefresh, REFRESH_WEIGHTS, type RefreshCandidate } from './refresh-scheduler';
+
+const NOW = Date.parse('2026-10-19T10:00:00Z');
+const daysAgo = (days: number) => new Date(NOW - days * 24 * 60 * 60 * 1000).toISOString();
+
+// Settled, just scraped and unloved: priority 0 unless a test changes that
+const cafe = (overrides: Partial<RefreshCandidate> = {}): RefreshCandidate => ({
+  id: 'cafe-1',
+  name: 'Sam James',
+  google_place_id: 'ChIJ1',
+  city: 'Toronto',
+  tags: [],
+  last_scraped_at: daysAgo(0),
+  review_count: 40,
+  work_score: 4,
+  needs_review: false,
+  favorites: 0,
+  ...overrides,
+});
+
+const rankOne = (overrides: Partial<RefreshCandidate>) => rankForRefresh([cafe(overrides)], NOW)[0];
+
+describe('rankForRefresh', () => {
+  it('grows staleness with age, capping it at 90 days', () => {
+    assert.equal(rankOne({}).staleness, 0);
+    assert.equal(rankOne({ last_scraped_at: daysAgo(45) }).staleness, 0.5);
+    assert.equal(rankOne({ last_scraped_at: daysAgo(200) }).staleness, 1);
+  });
+
+  it('treats a cafe that was never scraped as fully stale', () => {
+    assert.equal(rankOne({ last_scraped_at: null }).staleness, 1);
+  });
+
+  it('scores popularity on a log scale against the most favorited cafe', () => {
+    const ranked = rankForRefresh([
+      cafe({ id: 'a', name: 'A', favorites: 99 }),
+      cafe({ id: 'b', name: 'B', favorites: 9 }),
+      cafe({ id: 'c', name: 'C', favorites: 0 }),
+    ], NOW);
+    assert.deepEqual(ranked.map(c => c.popularity), [1, 0.5, 0]);
+  });
+
+  it('gives no one popularity when nobody has favorites', () => {
+    assert.equal(rankOne({ favorites: 0 }).popularity, 0);
+  });
+
+  it('counts flagged and unscored cafes as fully uncertain', () => {
+    assert.equal(rankOne({ needs_review: true }).uncertainty, 1);
+    assert.equal(rankOne({ work_score: null }).uncertainty, 1);
+    assert.equal(rankOne({ review_count: 5 }).uncertainty, 0.75);
+    assert.equal(rankOne({}).uncertainty, 0);
+  });
+
+  it('weights the factors into the priority', () => {
+    const ranked = rankOne({ last_scraped_at: null, work_score: null });
+    assert.equal(ranked.priority, REFRESH_WEIGHTS.staleness + REFRESH_WEIGHTS.uncertainty);
+  });
+
+  it('puts the highest priority first and breaks ties by name', () => {
+    const ranked = rankForRefresh([
+      cafe({ id: 'a', name: 'Pilot' }),
+      cafe({ id: 'b', name: 'Early Bird' }),
+      cafe({ id: 'c', name: 'Sam James', last_scraped_at: null }),
+    ], NOW);
+    assert.deepEqual(ranked.map(c => c.name), ['Sam James', 'Early Bird', 'Pilot']);
+  });
+});
@@ -0,0 +1,90 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchAllRows } from './admin';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface RefreshCandidate {
+  id: string;
+  name: string;
+  google_place_id: string;
+  city: string | null;
+  tags: string[] | null;
+  last_scraped_at: string | null;
+  review_count: number;
+  work_score: number | null;
+  needs_review: boolean;
+  favorites: number;
+}
+
+// Each factor is 0-1; priority is their weighted sum
+export interface RankedCafe extends RefreshCandidate {
+  staleness: number;
+  popularity: number;
+  uncertainty: number;
+  priority: number;
+}
+
+// Freshness matters most; popularity decides between equally stale cafes
+export const REFRESH_WEIGHTS = { staleness: 0.5, popularity: 0.3, uncertainty: 0.2 };
+
+// Reviews this old (or never scraped) count as fully stale
+const STALE_AFTER_DAYS = 90;
+
+// Scores built on this many reviews are treated as settled
+const SETTLED_REVIEW_COUNT = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =====================================================
+// RANKING
+// =====================================================
+
+export async function fetchRefreshCandidates(supabase: SupabaseClient): Promise<RefreshCandidate[]> {
+  const [cafes, favorites] = await Promise.all([
+    fetchAllRows(supabase, 'cafes', 'id, name, google_place_id, city, tags, last_scraped_at, review_count, work_score, needs_review'),
+    fetchAllRows(supabase, 'user_favorites', 'cafe_id'),
+  ]);
+
+  const favoriteCounts = new Map<string, number>();
+  favorites.forEach(row => favoriteCounts.set(row.cafe_id, (favoriteCounts.get(row.cafe_id) || 0) + 1));
+
+  return cafes.map(cafe => ({
+    id: cafe.id,
+    name: cafe.name,
+    google_place_id: cafe.google_place_id,
+    city: cafe.city,
+    tags: cafe.tags,
+    last_scraped_at: cafe.last_scraped_at,
+    review_count: cafe.review_count || 0,
+    work_score: cafe.work_score === null ? null : Number(cafe.work_score),
+    needs_review: !!cafe.needs_review,
+    favorites: favoriteCounts.get(cafe.id) || 0,
+  }));
+}
+
+// Highest priority first. Popularity is on a log scale relative to the most
+// favorited cafe, so one runaway favorite doesn't flatten everyone else.
+export function rankForRefresh(cafes: RefreshCandidate[], now = Date.now()): RankedCafe[] {
+  const maxFavorites = Math.max(0, ...cafes.map(cafe => cafe.favorites));
+
+  return cafes
+    .map(cafe => {
+      const ageDays = cafe.last_scraped_at ? (now - Date.parse(cafe.last_scraped_at)) / DAY_MS : Infinity;
+      const staleness = Math.min(1, Math.max(0, ageDays / STALE_AFTER_DAYS));
+      const popularity = maxFavorites > 0 ? Math.log1p(cafe.favorites) / Math.log1p(maxFavorites) : 0;
+      // Unscored or flagged cafes are as uncertain as it gets
+      const uncertainty = cafe.work_score === null || cafe.needs_review
+        ? 1
+        : 1 - Math.min(1, cafe.review_count / SETTLED_REVIEW_COUNT);
+
+      const priority =
+        REFRESH_WEIGHTS.staleness * staleness +
+        REFRESH_WEIGHTS.popularity * popularity +
+        REFRESH_WEIGHTS.uncertainty * uncertainty;
+
+      return { ...cafe, staleness, popularity, uncertainty, priority };
+    })
+    .sort((a, b) => b.priority - a.priority || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,131 @@
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchAllRows } from './admin';
+import { log } from './logger';
+
+// Answers we'd otherwise pay for again, in the api_cache table. Keys are
+// content hashes of everything that determines the answer (see cacheKey), so
+// a changed input is simply a miss; expires_at bounds how stale a hit can be.
+// A broken cache never breaks a run: read and write errors count as misses.
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export const CACHE_NAMESPACES = ['gemini', 'google_places'] as const;
+
+export type CacheNamespace = typeof CACHE_NAMESPACES[number];
+
+export interface ResponseCache {
+  get<T>(namespace: CacheNamespace, key: string): Promise<T | null>;
+  set(namespace: CacheNamespace, key: string, value: unknown, ttlMs: number | null): Promise<void>;
+  counts(): Record<CacheNamespace, { hits: number; misses: number }>;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =====================================================
+// KEYS
+// =====================================================
+
+// Order matters: callers pass the parts in a fixed order, arrays pre-sorted
+export function cacheKey(namespace: CacheNamespace, ...parts: unknown[]): string {
+  return createHash('sha256').update(JSON.stringify([namespace, ...parts])).digest('hex');
+}
+
+// =====================================================
+// STORES
+// =====================================================
+
+function createCounts(): Record<CacheNamespace, { hits: number; misses: number }> {
+  return { gemini: { hits: 0, misses: 0 }, google_places: { hits: 0, misses: 0 } };
+}
+
+export function createSupabaseCache(supabase: SupabaseClient): ResponseCache {
+  const counts = createCounts();
+
+  return {
+    async get<T>(namespace: CacheNamespace, key: string): Promise<T | null> {
+      const { data, error } = await supabase
+        .from('api_cache')
+        .select('value, expires_at, hits')
+        .eq('key', key)
+        .maybeSingle();
+
+      if (error) {
+        log.warn(`⚠️  Cache read failed: ${error.message}`);
+      }
+      if (error || !data || (data.expires_at && Date.parse(data.expires_at) <= Date.now())) {
+        counts[namespace].misses++;
+        return null;
+      }
+
+      counts[namespace].hits++;
+      const { error: hitError } = await supabase
+        .from('api_cache')
+        .update({ hits: (data.hits || 0) + 1, last_hit_at: new Date().toISOString() })
+        .eq('key', key);
+      if (hitError) log.debug(`Cache hit not counted: ${hitError.message}`);
+
+      return data.value as T;
+    },
+
+    async set(namespace: CacheNamespace, key: string, value: unknown, ttlMs: number | null) {
+      const now = Date.now();
+      const { error } = await supabase.from('api_cache').upsert({
+        key,
+        namespace,
+        value,
+        created_at: new Date(now).toISOString(),
+        expires_at: ttlMs === null ? null : new Date(now + ttlMs).toISOString(),
+        hits: 0,
+        last_hit_at: null,
+      });
+      if (error) log.warn(`⚠️  Cache write failed: ${error.message}`);
+    },
+
+    counts: () => counts,
+  };
+}
+
+// --no-cache: every call goes to the API and nothing is stored
+export function createDisabledCache(): ResponseCache {
+  const counts = createCounts();
+  return {
+    async get(namespace) {
+      counts[namespace].misses++;
+      return null;
+    },
+    async set() {},
+    counts: () => counts,
+  };
+}
+
+// =====================================================
+// STATS
+// =====================================================
+
+function formatAge(iso: string | null, now: number): string {
+  if (!iso) return '—';
+  const days = (now - Date.parse(iso)) / DAY_MS;
+  return days < 1 ? `${Math.round(days * 24)}h ago` : `${Math.round(days)}d ago`;
+}
+
+export async function printCacheStats(supabase: SupabaseClient) {
+  const rows = await fetchAllRows(supabase, 'api_cache', 'namespace, created_at, expires_at, hits, last_hit_at');
+  const now = Date.now();
+
+  log.info(`\n💾 Response cache: ${rows.length} entries\n`);
+  log.info(`   ${'namespace'.padEnd(14)} ${'entries'.padStart(7)} ${'expired'.padStart(7)} ${'hits'.padStart(6)}  ${'newest'.padEnd(9)} last hit`);
+
+  for (const namespace of CACHE_NAMESPACES) {
+    const entries = rows.filter(row => row.namespace === namespace);
+    const expired = entries.filter(row => row.expires_at && Date.parse(row.expires_at) <= now).length;
+    const hits = entries.reduce((sum, row) => sum + (row.hits || 0), 0);
+    const newest = entries.map(row => row.created_at).sort().at(-1) ?? null;
+    const lastHit = entries.map(row => row.last_hit_at).filter(Boolean).sort().at(-1) ?? null;
+    log.info(`   ${namespace.padEnd(14)} ${String(entries.length).padStart(7)} ${String(expired).padStart(7)} ${String(hits).padStart(6)}  ${formatAge(newest, now).padEnd(9)} ${formatAge(lastHit, now)}`);
+  }
+
+  log.info('\n💡 Hits are calls not paid for again; expired entries are refetched and overwritten on the next run\n');
+}
@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeReviewsResponse, normalizeSearchResponse } from './review-sources';
+
+const place = { place_id: 'ChIJ1', name: 'Pilot Coffee' };
+const review = { review_id: 'r1', review_text: 'Fast WiFi', review_rating: 5 };
+
+describe('normalizeSearchResponse', () => {
+  it('takes the first place of the first query', () => {
+    assert.deepEqual(normalizeSearchResponse({ data: [[place, { place_id: 'ChIJ2' }]] }), place);
+  });
+
+  it('is null when nothing was found', () => {
+    assert.equal(normalizeSearchResponse({ data: [[]] }), null);
+    assert.equal(normalizeSearchResponse({ data: [] }), null);
+    assert.equal(normalizeSearchResponse(null), null);
+  });
+});
+
+describe('normalizeReviewsResponse', () => {
+  it('reads reviews_data', () => {
+    assert.deepEqual(normalizeReviewsResponse({ data: [{ ...place, reviews_data: [review] }] }), [review]);
+  });
+
+  it('falls back to reviews', () => {
+    assert.deepEqual(normalizeReviewsResponse({ data: [{ ...place, reviews: [review] }] }), [review]);
+  });
+
+  it('is empty when the place or its reviews are missing', () => {
+    assert.deepEqual(normalizeReviewsResponse({ data: [] }), []);
+    assert.deepEqual(normalizeReviewsResponse({ data: [place] }), []);
+    assert.deepEqual(normalizeReviewsResponse(undefined), []);
+  });
+});
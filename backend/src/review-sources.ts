@@ -0,0 +1,234 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { CostMeter } from './cost-meter';
+import { getHttpClient } from './http-client';
+import { log } from './logger';
+import type { City } from '../../shared/cities';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface OutscraperReview {
+  author_title: string;
+  author_id: string;
+  review_rating: number;
+  review_text: string;
+  review_datetime_utc: string;
+  review_timestamp: number;
+}
+
+export interface OutscraperPlace {
+  name: string;
+  full_address?: string;
+  borough?: string;
+  street?: string;
+  city?: string;
+  latitude: number;
+  longitude: number;
+  rating: number;
+  reviews: number;
+  reviews_data?: OutscraperReview[];
+  place_id: string;
+  google_id?: string;
+}
+
+// A source of place info and reviews for the pipeline. Every provider returns
+// records normalized to the Outscraper shapes above, so the pipeline steps
+// never see a provider's raw response format. `city` sets the region and
+// language requested from Google.
+export interface ReviewSourceProvider {
+  name: string;
+  fetchPlace(googlePlaceId: string, city: City): Promise<OutscraperPlace | null>;
+  fetchReviews(googlePlaceId: string, limit: number, city: City): Promise<OutscraperReview[]>;
+}
+
+// Shape of a recorded fixture file: <fixtures-dir>/<google_place_id>.json
+export interface ReviewFixture {
+  place: OutscraperPlace | null;
+  reviews: OutscraperReview[];
+}
+
+// =====================================================
+// OUTSCRAPER
+// =====================================================
+
+const OUTSCRAPER_BASE_URL = 'https://api.app.outscraper.com';
+
+// search-v3 nests results one level deeper than reviews-v3: data[query][place]
+export function normalizeSearchResponse(searchData: any): OutscraperPlace | null {
+  return searchData?.data?.[0]?.[0] || null;
+}
+
+// reviews-v3 returns data[query], with reviews under reviews_data (or reviews)
+export function normalizeReviewsResponse(reviewsData: any): OutscraperReview[] {
+  const reviewsPlace = reviewsData?.data?.[0];
+  if (!reviewsPlace) return [];
+  return reviewsPlace.reviews_data || reviewsPlace.reviews || [];
+}
+
+export function createOutscraperSource(apiKey: string): ReviewSourceProvider {
+  const http = getHttpClient('outscraper');
+
+  return {
+    name: 'outscraper',
+
+    async fetchPlace(googlePlaceId: string, city: City) {
+      log.info('🔍 Step 1a: Getting basic place info...');
+
+      const response = await http.fetch(`${OUTSCRAPER_BASE_URL}/maps/search-v3`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-API-KEY': apiKey,
+        },
+        body: JSON.stringify({
+          query: [googlePlaceId],      // Search by Place ID
+          language: city.language,
+          region: city.region,
+          limit: 1,                     // Just one place
+          async: false,                 // Wait for results
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Outscraper search error: ${response.status} - ${errorText}`);
+      }
+
+      const searchData = await response.json();
+      log.info('📍 Basic place info retrieved');
+
+      const place = normalizeSearchResponse(searchData);
+      if (!place) {
+        log.debug('   Search response structure', { keys: searchData ? Object.keys(searchData) : [] });
+      }
+      return place;
+    },
+
+    async fetchReviews(googlePlaceId: string, limit: number, city: City) {
+      log.info('🔍 Step 1b: Getting reviews...');
+
+      const reviewsUrl = new URL(`${OUTSCRAPER_BASE_URL}/maps/reviews-v3`);
+      reviewsUrl.searchParams.append('query', googlePlaceId);
+      reviewsUrl.searchParams.append('reviews_limit', String(limit));
+      reviewsUrl.searchParams.append('language', city.language);
+      reviewsUrl.searchParams.append('region', city.region);
+      reviewsUrl.searchParams.append('async', 'false');
+
+      const response = await http.fetch(reviewsUrl.toString(), {
+        method: 'GET',
+        headers: {
+          'X-API-KEY': apiKey,
+        },
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Outscraper reviews error: ${response.status} - ${errorText}`);
+      }
+
+      const reviewsData = await response.json();
+      const reviews = normalizeReviewsResponse(reviewsData);
+
+      if (reviews.length === 0) {
+        log.warn('⚠️  No reviews found in reviews response');
+        log.debug('   Reviews response keys', { keys: reviewsData?.data?.[0] ? Object.keys(reviewsData.data[0]) : [] });
+      }
+      return reviews;
+    },
+  };
+}
+
+// =====================================================
+// FIXTURES (offline, no network or credits)
+// =====================================================
+
+function fixturePath(dir: string, googlePlaceId: string): string {
+  return path.join(dir, `${googlePlaceId}.json`);
+}
+
+async function readFixture(dir: string, googlePlaceId: string): Promise<ReviewFixture | null> {
+  try {
+    const raw = await fs.readFile(fixturePath(dir, googlePlaceId), 'utf-8');
+    return JSON.parse(raw);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export function createFixtureSource(dir: string): ReviewSourceProvider {
+  return {
+    name: 'fixtures',
+
+    async fetchPlace(googlePlaceId: string) {
+      const fixture = await readFixture(dir, googlePlaceId);
+      if (!fixture) {
+        throw new Error(`No fixture for ${googlePlaceId} in ${dir}`);
+      }
+      log.info(`📂 Loaded place from fixture: ${fixturePath(dir, googlePlaceId)}`);
+      return fixture.place;
+    },
+
+    async fetchReviews(googlePlaceId: string, limit: number) {
+      const fixture = await readFixture(dir, googlePlaceId);
+      return (fixture?.reviews || []).slice(0, limit);
+    },
+  };
+}
+
+// Wraps another provider and writes everything it returns to a fixture file,
+// so a paid run can be replayed later with createFixtureSource
+export function createRecordingSource(inner: ReviewSourceProvider, dir: string): ReviewSourceProvider {
+  async function record(googlePlaceId: string, patch: Partial<ReviewFixture>) {
+    const existing = await readFixture(dir, googlePlaceId);
+    const fixture: ReviewFixture = { place: null, reviews: [], ...existing, ...patch };
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(fixturePath(dir, googlePlaceId), JSON.stringify(fixture, null, 2));
+  }
+
+  return {
+    name: `${inner.name}+record`,
+
+    async fetchPlace(googlePlaceId: string, city: City) {
+      const place = await inner.fetchPlace(googlePlaceId, city);
+      await record(googlePlaceId, { place });
+      return place;
+    },
+
+    async fetchReviews(googlePlaceId: string, limit: number, city: City) {
+      const reviews = await inner.fetchReviews(googlePlaceId, limit, city);
+      await record(googlePlaceId, { reviews });
+      log.info(`📼 Recorded fixture: ${fixturePath(dir, googlePlaceId)}`);
+      return reviews;
+    },
+  };
+}
+
+// =====================================================
+// METERED (cost ledger + budget)
+// =====================================================
+
+// Bills each search and each review Outscraper returns to the cost meter
+export function createMeteredSource(inner: ReviewSourceProvider, meter: CostMeter): ReviewSourceProvider {
+  return {
+    name: inner.name,
+
+    fetchPlace(googlePlaceId: string, city: City) {
+      return meter.track(
+        { outscraper_place: 1 },
+        () => inner.fetchPlace(googlePlaceId, city),
+        () => ({ outscraper_place: 1 })
+      );
+    },
+
+    fetchReviews(googlePlaceId: string, limit: number, city: City) {
+      return meter.track(
+        { outscraper_reviews: limit },
+        () => inner.fetchReviews(googlePlaceId, limit, city),
+        reviews => ({ outscraper_reviews: reviews.length })
+      );
+    },
+  };
+}
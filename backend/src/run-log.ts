@@ -0,0 +1,198 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { log } from './logger';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type RunStatus = 'running' | 'completed' | 'stopped' | 'failed';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// One entry of pipeline_runs.cafes
+export interface CafeRunResult {
+  google_place_id: string;
+  outcome: string;               // scored, updated, skipped, error, ...
+  fields_changed: string[];      // cafes columns whose value actually changed
+  error?: string;
+  finished_at: string;
+}
+
+// Field-level diff of one cafe, as printed and exported by --dry-run
+export interface CafeDiff {
+  google_place_id: string;
+  outcome: string;
+  new_cafe: boolean;
+  changes: FieldChange[];
+  error?: string;
+}
+
+// Audit trail of one processor invocation, written to pipeline_runs. The row
+// is created when the run starts and rewritten after every cafe, so a crashed
+// run still shows how far it got. Dry runs are kept in memory only.
+export interface RunLog {
+  readonly runId: string;
+  start(command: string, args: string[], dryRun: boolean): Promise<void>;
+  // Records the cafe's outcome once `fn` settles; a thrown error is recorded
+  // as outcome "error" and rethrown
+  forCafe<T>(googlePlaceId: string, fn: () => Promise<T>, outcome: (result: T) => string): Promise<T>;
+  // Notes changes for the cafe the surrounding forCafe() is working on;
+  // `created` marks a cafe that wasn't in the database before
+  changed(changes: FieldChange[], created?: boolean): void;
+  error(message: string): void;
+  stop(reason: string): void;
+  finish(status?: 'failed'): Promise<void>;
+  diff(): CafeDiff[];
+}
+
+// =====================================================
+// FIELD CHANGES
+// =====================================================
+
+// Timestamps move on every write, so they don't count as changes
+const BOOKKEEPING_FIELDS = new Set(['last_scraped_at', 'last_analyzed_at', 'last_updated']);
+
+// JSON with sorted keys, so JSONB values compare equal whatever their key order
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+// Fields in `after` whose value differs from `before` (null = a new row)
+export function fieldChanges(before: Record<string, unknown> | null, after: Record<string, unknown>): FieldChange[] {
+  return Object.keys(after)
+    .filter(field => !BOOKKEEPING_FIELDS.has(field))
+    .filter(field => canonical(before?.[field] ?? null) !== canonical(after[field] ?? null))
+    .sort()
+    .map(field => ({ field, before: before?.[field] ?? null, after: after[field] ?? null }));
+}
+
+// =====================================================
+// RUN LOG
+// =====================================================
+
+interface CafeChanges {
+  created: boolean;
+  // A field written twice (e.g. by an upsert, then by scoring) keeps its
+  // original `before` and latest `after`
+  fields: Map<string, FieldChange>;
+}
+
+export function createRunLog(supabase: SupabaseClient, runId: string): RunLog {
+  const currentCafe = new AsyncLocalStorage<CafeChanges>();
+  const cafes: CafeRunResult[] = [];
+  const diffs: CafeDiff[] = [];
+  const errors: string[] = [];
+  let command = 'unknown';
+  let args: string[] = [];
+  let persist = true;
+  let startedAt = new Date().toISOString();
+  let stopReason: string | null = null;
+  // Writes are serialized so an older snapshot never lands after a newer one
+  let saving = Promise.resolve();
+
+  function save(status: RunStatus, finishedAt: string | null = null) {
+    if (!persist) return saving;
+
+    const row = {
+      id: runId,
+      command,
+      args,
+      status,
+      started_at: startedAt,
+      finished_at: finishedAt,
+      cafe_count: cafes.length,
+      error_count: errors.length + cafes.filter(cafe => cafe.outcome === 'error').length,
+      cafes: [...cafes],
+      errors: [...errors],
+      stop_reason: stopReason,
+    };
+
+    saving = saving.then(async () => {
+      const { error } = await supabase.from('pipeline_runs').upsert(row);
+      // The run itself matters more than its audit trail
+      if (error) log.warn(`⚠️  Could not record pipeline run: ${error.message}`);
+    });
+    return saving;
+  }
+
+  function record(googlePlaceId: string, outcome: string, changes: CafeChanges, error?: string) {
+    const fields = [...changes.fields.values()].sort((a, b) => a.field.localeCompare(b.field));
+
+    cafes.push({
+      google_place_id: googlePlaceId,
+      outcome,
+      fields_changed: fields.map(change => change.field),
+      ...(error ? { error } : {}),
+      finished_at: new Date().toISOString(),
+    });
+    diffs.push({
+      google_place_id: googlePlaceId,
+      outcome,
+      new_cafe: changes.created,
+      changes: fields,
+      ...(error ? { error } : {}),
+    });
+    save('running');
+  }
+
+  return {
+    runId,
+
+    async start(runCommand, runArgs, dryRun) {
+      command = runCommand;
+      args = runArgs;
+      persist = !dryRun;
+      startedAt = new Date().toISOString();
+      await save('running');
+    },
+
+    async forCafe(googlePlaceId, fn, outcome) {
+      const changes: CafeChanges = { created: false, fields: new Map() };
+      try {
+        const result = await currentCafe.run(changes, fn);
+        record(googlePlaceId, outcome(result), changes);
+        return result;
+      } catch (error: any) {
+        record(googlePlaceId, 'error', changes, error.message);
+        throw error;
+      }
+    },
+
+    changed(changes, created = false) {
+      const current = currentCafe.getStore();
+      if (!current) return;
+
+      if (created) current.created = true;
+      for (const change of changes) {
+        const previous = current.fields.get(change.field);
+        current.fields.set(change.field, previous ? { ...change, before: previous.before } : change);
+      }
+    },
+
+    error(message) {
+      errors.push(message);
+    },
+
+    stop(reason) {
+      stopReason = reason;
+    },
+
+    finish(status) {
+      const finalStatus: RunStatus = status || (errors.length > 0 ? 'failed' : stopReason ? 'stopped' : 'completed');
+      return save(finalStatus, new Date().toISOString());
+    },
+
+    diff() {
+      return [...diffs];
+    },
+  };
+}
@@ -0,0 +1,146 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EVIDENCE_MAX_LENGTH } from './aspects';
+import { extractJson, parseScoreResponse, SUMMARY_MAX_LENGTH, validateScores } from './score-validation';
+
+const answer = (overrides: Record<string, unknown> = {}) => ({
+  work_score: 4.2,
+  wifi_quality: 4,
+  noise_level: 3.5,
+  outlet_availability: 3,
+  seating_comfort: 4,
+  lighting_quality: 4.5,
+  confidence: 'high',
+  summary: 'Fast WiFi and plenty of outlets',
+  work_related_count: 6,
+  ...overrides,
+});
+
+describe('extractJson', () => {
+  it('strips markdown fences', () => {
+    assert.equal(extractJson('```json\n{"a": 1}\n```'), '{"a": 1}');
+  });
+
+  it('drops chatter around the object', () => {
+    assert.equal(extractJson('Here are the scores: {"a": {"b": 1}} Hope this helps!'), '{"a": {"b": 1}}');
+  });
+
+  it('leaves a response without an object alone', () => {
+    assert.equal(extractJson('  no scores today  '), 'no scores today');
+  });
+});
+
+describe('validateScores', () => {
+  it('accepts a complete answer', () => {
+    const { scores, errors, clamped } = validateScores(answer());
+    assert.deepEqual(errors, []);
+    assert.deepEqual(clamped, []);
+    assert.equal(scores?.work_score, 4.2);
+    assert.equal(scores?.validation_issues, undefined);
+  });
+
+  it('rounds scores to one decimal and reads numeric strings', () => {
+    const { scores } = validateScores(answer({ work_score: 4.26, noise_level: '3' }));
+    assert.equal(scores?.work_score, 4.3);
+    assert.equal(scores?.noise_level, 3);
+  });
+
+  it('clamps out-of-range scores instead of re-prompting', () => {
+    const { scores, errors, clamped } = validateScores(answer({ work_score: 7, wifi_quality: -1 }));
+    assert.deepEqual(errors, []);
+    assert.deepEqual(clamped, ['work_score 7 clamped to 5', 'wifi_quality -1 clamped to 0']);
+    assert.equal(scores?.work_score, 5);
+    assert.equal(scores?.wifi_quality, 0);
+    assert.deepEqual(scores?.validation_issues, clamped);
+  });
+
+  it('clamps a negative work_related_count to 0', () => {
+    const { scores, clamped } = validateScores(answer({ work_related_count: -2 }));
+    assert.equal(scores?.work_related_count, 0);
+    assert.deepEqual(clamped, ['work_related_count -2 clamped to 0']);
+  });
+
+  it('reports structural problems as errors', () => {
+    const { scores, errors } = validateScores(answer({
+      work_score: undefined,
+      noise_level: 'quiet',
+      summary: '',
+      work_related_count: 2.5,
+    }));
+    assert.equal(scores, null);
+    assert.deepEqual(errors, [
+      '"work_score" is required',
+      '"noise_level" must be a number between 0 and 5, got "quiet"',
+      '"summary" must be a non-empty string',
+      '"work_related_count" must be a whole number, got 2.5',
+    ]);
+  });
+
+  it('re-prompts an overlong summary rather than cutting it', () => {
+    const { scores, errors } = validateScores(answer({ summary: 'x'.repeat(SUMMARY_MAX_LENGTH + 1) }));
+    assert.equal(scores, null);
+    assert.match(errors[0], /"summary" must be at most 300 characters/);
+  });
+
+  it('rejects anything but a single object', () => {
+    for (const raw of [null, 'scores', [answer()]]) {
+      assert.deepEqual(validateScores(raw).errors, ['Response must be a single JSON object']);
+    }
+  });
+
+  it('treats vibe as optional', () => {
+    assert.equal(validateScores(answer()).scores?.vibe, undefined);
+    assert.equal(validateScores(answer({ vibe: 3.5 })).scores?.vibe, 3.5);
+  });
+
+  it('keeps the localized summary only when there is one', () => {
+    assert.equal(validateScores(answer({ summary_localized: null })).scores?.summary_localized, undefined);
+    assert.equal(validateScores(answer({ summary_localized: '  ' })).scores?.summary_localized, undefined);
+    assert.equal(validateScores(answer({ summary_localized: 'WiFi rapide' })).scores?.summary_localized, 'WiFi rapide');
+  });
+});
+
+describe('parseScoreResponse', () => {
+  it('parses a fenced answer', () => {
+    const { scores, errors } = parseScoreResponse(`\`\`\`json\n${JSON.stringify(answer())}\n\`\`\``);
+    assert.deepEqual(errors, []);
+    assert.equal(scores?.summary, 'Fast WiFi and plenty of outlets');
+  });
+
+  it('turns invalid JSON into an error worth re-prompting', () => {
+    const { scores, errors } = parseScoreResponse('{"work_score": 4,');
+    assert.equal(scores, null);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /^Response is not valid JSON/);
+  });
+});
+
+describe('confidence and evidence', () => {
+  it('normalizes the confidence level', () => {
+    assert.equal(validateScores(answer({ confidence: ' High ' })).scores?.confidence, 'high');
+  });
+
+  it('re-prompts an unknown confidence level', () => {
+    const { errors } = validateScores(answer({ confidence: 'certain' }));
+    assert.deepEqual(errors, ['"confidence" must be one of high, medium, low, got "certain"']);
+  });
+
+  it('unquotes evidence and keeps at most three quotes', () => {
+    const { scores } = validateScores(answer({
+      evidence: ['"Fast WiFi"', '“Lots of outlets”', ' ', 'Quiet upstairs', 'Big tables'],
+    }));
+    assert.deepEqual(scores?.evidence, ['Fast WiFi', 'Lots of outlets', 'Quiet upstairs']);
+  });
+
+  it('shortens overlong quotes instead of re-prompting', () => {
+    const { scores, errors } = validateScores(answer({ evidence: ['x'.repeat(EVIDENCE_MAX_LENGTH + 20)] }));
+    assert.deepEqual(errors, []);
+    assert.equal(scores?.evidence?.[0].length, EVIDENCE_MAX_LENGTH);
+    assert.ok(scores?.evidence?.[0].endsWith('…'));
+  });
+
+  it('rejects evidence that is not a list of strings', () => {
+    const { errors } = validateScores(answer({ evidence: 'Fast WiFi' }));
+    assert.deepEqual(errors, ['"evidence" must be an array of strings, got "Fast WiFi"']);
+  });
+});
@@ -0,0 +1,229 @@
+import { toEvidence } from './aspects';
+import type { AIScores } from './scorers';
+
+// =====================================================
+// AIScores SCHEMA
+// =====================================================
+
+export const CONFIDENCE_LEVELS = ['high', 'medium', 'low'] as const;
+
+export type ConfidenceLevel = typeof CONFIDENCE_LEVELS[number];
+
+export function isConfidenceLevel(value: unknown): value is ConfidenceLevel {
+  return typeof value === 'string' && (CONFIDENCE_LEVELS as readonly string[]).includes(value);
+}
+
+export const SUMMARY_MAX_LENGTH = 300;
+
+// The other lengths: a tagline for map tooltips, a paragraph for the details view
+export const TAGLINE_MAX_LENGTH = 60;
+export const SUMMARY_LONG_MAX_LENGTH = 900;
+
+// Points beyond the count are dropped; overlong ones are re-prompted, since
+// unlike quotes the model wrote them and can write them shorter
+export const PROS_CONS_MAX_COUNT = 4;
+export const PRO_CON_MAX_LENGTH = 60;
+
+// Quotes beyond this are dropped; overlong ones are shortened rather than re-prompted
+export const EVIDENCE_MAX_COUNT = 3;
+
+const SCORE_MIN = 0;
+const SCORE_MAX = 5;
+
+const REQUIRED_SCORE_FIELDS = [
+  'work_score', 'wifi_quality', 'noise_level', 'outlet_availability', 'seating_comfort', 'lighting_quality',
+] as const;
+const OPTIONAL_SCORE_FIELDS = ['vibe'] as const;
+
+// Thrown when a scorer's output still fails validation after every re-prompt
+export class ScoreValidationError extends Error {
+  constructor(public errors: string[], public rawResponse: string) {
+    super(`AI scores failed validation: ${errors.join('; ')}`);
+    this.name = 'ScoreValidationError';
+  }
+}
+
+export interface ScoreValidationResult {
+  scores: AIScores | null;
+  errors: string[];    // Structural problems: worth a re-prompt
+  clamped: string[];   // Values we fixed ourselves: cafe should be reviewed
+}
+
+// =====================================================
+// PARSING
+// =====================================================
+
+// Strips markdown fences and any chatter around the JSON object
+export function extractJson(response: string): string {
+  const cleaned = response
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .replace(/`/g, '')
+    .trim();
+
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  return start >= 0 && end > start ? cleaned.slice(start, end + 1) : cleaned;
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+}
+
+// =====================================================
+// VALIDATION
+// =====================================================
+
+export function validateScores(raw: unknown): ScoreValidationResult {
+  const errors: string[] = [];
+  const clamped: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { scores: null, errors: ['Response must be a single JSON object'], clamped };
+  }
+  const input = raw as Record<string, unknown>;
+  const scores: Partial<AIScores> = {};
+
+  const checkScore = (field: typeof REQUIRED_SCORE_FIELDS[number] | typeof OPTIONAL_SCORE_FIELDS[number], required: boolean) => {
+    if (input[field] === undefined || input[field] === null) {
+      if (required) errors.push(`"${field}" is required`);
+      return;
+    }
+    const value = toNumber(input[field]);
+    if (value === null) {
+      errors.push(`"${field}" must be a number between ${SCORE_MIN} and ${SCORE_MAX}, got ${JSON.stringify(input[field])}`);
+      return;
+    }
+    if (value < SCORE_MIN || value > SCORE_MAX) {
+      const fixed = Math.min(SCORE_MAX, Math.max(SCORE_MIN, value));
+      clamped.push(`${field} ${value} clamped to ${fixed}`);
+      scores[field] = fixed;
+      return;
+    }
+    scores[field] = roundScore(value);
+  };
+
+  REQUIRED_SCORE_FIELDS.forEach(field => checkScore(field, true));
+  OPTIONAL_SCORE_FIELDS.forEach(field => checkScore(field, false));
+
+  const confidence = typeof input.confidence === 'string' ? input.confidence.trim().toLowerCase() : input.confidence;
+  if (!isConfidenceLevel(confidence)) {
+    errors.push(`"confidence" must be one of ${CONFIDENCE_LEVELS.join(', ')}, got ${JSON.stringify(input.confidence)}`);
+  } else {
+    scores.confidence = confidence;
+  }
+
+  if (typeof input.summary !== 'string' || input.summary.trim() === '') {
+    errors.push('"summary" must be a non-empty string');
+  } else if (input.summary.length > SUMMARY_MAX_LENGTH) {
+    errors.push(`"summary" must be at most ${SUMMARY_MAX_LENGTH} characters, got ${input.summary.length}`);
+  } else {
+    scores.summary = input.summary.trim();
+  }
+
+  // Only asked for outside English-speaking cities, so it may be missing or null
+  const localized = input.summary_localized;
+  if (localized !== undefined && localized !== null) {
+    if (typeof localized !== 'string') {
+      errors.push(`"summary_localized" must be a string or null, got ${JSON.stringify(localized)}`);
+    } else if (localized.length > SUMMARY_MAX_LENGTH) {
+      errors.push(`"summary_localized" must be at most ${SUMMARY_MAX_LENGTH} characters, got ${localized.length}`);
+    } else if (localized.trim() !== '') {
+      scores.summary_localized = localized.trim();
+    }
+  }
+
+  // Asked for from prompt v7 on; earlier answers just don't have them
+  const checkText = (field: 'tagline' | 'summary_long', maxLength: number) => {
+    const value = input[field];
+    if (value === undefined || value === null) return;
+    if (typeof value !== 'string') {
+      errors.push(`"${field}" must be a string or null, got ${JSON.stringify(value)}`);
+    } else if (value.length > maxLength) {
+      errors.push(`"${field}" must be at most ${maxLength} characters, got ${value.length}`);
+    } else if (value.trim() !== '') {
+      scores[field] = value.trim();
+    }
+  };
+  checkText('tagline', TAGLINE_MAX_LENGTH);
+  checkText('summary_long', SUMMARY_LONG_MAX_LENGTH);
+
+  const checkPoints = (field: 'pros' | 'cons') => {
+    const value = input[field];
+    if (value === undefined || value === null) return;
+    if (!Array.isArray(value) || value.some(point => typeof point !== 'string')) {
+      errors.push(`"${field}" must be an array of strings, got ${JSON.stringify(value)}`);
+      return;
+    }
+    const points = (value as string[]).map(point => point.trim()).filter(Boolean).slice(0, PROS_CONS_MAX_COUNT);
+    const overlong = points.filter(point => point.length > PRO_CON_MAX_LENGTH);
+    if (overlong.length > 0) {
+      errors.push(`"${field}" points must be at most ${PRO_CON_MAX_LENGTH} characters, got "${overlong[0]}"`);
+    } else {
+      scores[field] = points;
+    }
+  };
+  checkPoints('pros');
+  checkPoints('cons');
+
+  const workRelatedCount = toNumber(input.work_related_count);
+  if (workRelatedCount === null || !Number.isInteger(workRelatedCount)) {
+    errors.push(`"work_related_count" must be a whole number, got ${JSON.stringify(input.work_related_count)}`);
+  } else if (workRelatedCount < 0) {
+    clamped.push(`work_related_count ${workRelatedCount} clamped to 0`);
+    scores.work_related_count = 0;
+  } else {
+    scores.work_related_count = workRelatedCount;
+  }
+
+  if (input.evidence !== undefined && input.evidence !== null) {
+    if (!Array.isArray(input.evidence) || input.evidence.some(quote => typeof quote !== 'string')) {
+      errors.push(`"evidence" must be an array of strings, got ${JSON.stringify(input.evidence)}`);
+    } else {
+      scores.evidence = (input.evidence as string[])
+        .map(quote => quote.trim().replace(/^["“]|["”]$/g, ''))
+        .filter(Boolean)
+        .slice(0, EVIDENCE_MAX_COUNT)
+        .map(toEvidence);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { scores: null, errors, clamped };
+  }
+
+  return {
+    scores: { ...(scores as AIScores), validation_issues: clamped.length > 0 ? clamped : undefined },
+    errors,
+    clamped,
+  };
+}
+
+export function parseScoreResponse(response: string): ScoreValidationResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(extractJson(response));
+  } catch (error: any) {
+    return { scores: null, errors: [`Response is not valid JSON (${error.message})`], clamped: [] };
+  }
+  return validateScores(raw);
+}
+
+// Follow-up prompt for a scorer whose previous answer failed validation
+export function buildRepairPrompt(originalPrompt: string, previousResponse: string, errors: string[]): string {
+  return `${originalPrompt}
+
+Your previous answer was rejected:
+${previousResponse.substring(0, 1000)}
+
+Problems:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return ONLY the corrected JSON object.`;
+}
@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { configureLogging } from './logger';
+import { createDisabledCache, type CacheNamespace, type ResponseCache } from './response-cache';
+import { createCachedScorer, type AIScores, type PreviousScores, type ReviewScorer, type ScorableReview } from './scorers';
+import { findCity } from '../../shared/cities';
+
+configureLogging({ level: 'warn', format: 'pretty' });
+
+const TORONTO = findCity('toronto')!;
+const MONTREAL = findCity('montreal')!;
+
+const SCORES: AIScores = {
+  work_score: 4,
+  wifi_quality: 4,
+  noise_level: 3,
+  outlet_availability: 3,
+  seating_comfort: 4,
+  lighting_quality: 4,
+  summary: 'Good for a morning of work',
+  confidence: 'medium',
+  work_related_count: 2,
+};
+
+const PREVIOUS: PreviousScores = { ...SCORES, review_count: 2 };
+
+const review = (id: string | undefined, text = 'Fast WiFi'): ScorableReview => ({ google_review_id: id, rating: 5, text });
+
+// Counts the calls that got past the cache
+function fakeScorer(version = 'v1'): ReviewScorer & { calls: number } {
+  return {
+    name: 'fake',
+    version,
+    calls: 0,
+    async score() {
+      this.calls++;
+      return SCORES;
+    },
+  };
+}
+
+// In memory, remembering every key it was asked for
+function memoryCache(): ResponseCache & { keys: string[] } {
+  const entries = new Map<string, unknown>();
+  const disabled = createDisabledCache();
+  return {
+    keys: [],
+    async get<T>(namespace: CacheNamespace, key: string) {
+      this.keys.push(key);
+      return entries.has(key) ? entries.get(key) as T : disabled.get<T>(namespace, key);
+    },
+    async set(_namespace, key, value) {
+      entries.set(key, value);
+    },
+    counts: disabled.counts,
+  };
+}
+
+describe('createCachedScorer', () => {
+  it('answers the same reviews from the cache, whatever their order', async () => {
+    const [inner, cache] = [fakeScorer(), memoryCache()];
+    const scorer = createCachedScorer(inner, cache);
+
+    assert.deepEqual(await scorer.score([review('a'), review('b')], true, { city: TORONTO }), SCORES);
+    assert.deepEqual(await scorer.score([review('b'), review('a')], true, { city: TORONTO }), SCORES);
+    assert.equal(inner.calls, 1);
+    assert.equal(cache.keys[0], cache.keys[1]);
+  });
+
+  it('keys on the reviews by id, not their text', async () => {
+    const [inner, cache] = [fakeScorer(), memoryCache()];
+    const scorer = createCachedScorer(inner, cache);
+
+    await scorer.score([review('a', 'Fast WiFi')], true, { city: TORONTO });
+    await scorer.score([review('a', 'Fast WiFi, edited')], true, { city: TORONTO });
+    assert.equal(inner.calls, 1);
+  });
+
+  it('misses when anything that shapes the answer changes', async () => {
+    const [inner, cache] = [fakeScorer(), memoryCache()];
+    const scorer = createCachedScorer(inner, cache);
+    const reviews = [review('a')];
+
+    await scorer.score(reviews, true, { city: TORONTO });
+    await scorer.score([...reviews, review('b')], true, { city: TORONTO });
+    await scorer.score(reviews, false, { city: TORONTO });
+    await scorer.score(reviews, true, { city: MONTREAL });
+    await scorer.score(reviews, true, { city: TORONTO, previous: PREVIOUS });
+    await scorer.score(reviews, true, { city: TORONTO, previous: { ...PREVIOUS, work_score: 3 } });
+    await createCachedScorer(fakeScorer('v2'), cache).score(reviews, true, { city: TORONTO });
+
+    assert.equal(inner.calls, 6);
+    assert.equal(new Set(cache.keys).size, 7);
+  });
+
+  it('skips the cache for reviews without an id', async () => {
+    const [inner, cache] = [fakeScorer(), memoryCache()];
+    const scorer = createCachedScorer(inner, cache);
+
+    await scorer.score([review('a'), review(undefined)], true, { city: TORONTO });
+    await scorer.score([review('a'), review(undefined)], true, { city: TORONTO });
+    assert.equal(inner.calls, 2);
+    assert.deepEqual(cache.keys, []);
+  });
+});
@@ -0,0 +1,441 @@
+import type { GoogleGenerativeAI } from '@google/generative-ai';
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import { aggregateAspects, aspectScore, strongestEvidence, type AspectSummary, type ReviewAspect } from './aspects';
+import type { Aspect } from './keywords';
+import { createNullMeter, type CostMeter } from './cost-meter';
+import { getHttpClient } from './http-client';
+import { log } from './logger';
+import { recencyWeights, weightedAverage } from './recency';
+import { cacheKey, DAY_MS, type ResponseCache } from './response-cache';
+import { buildScoringPrompt, latestPromptVersion } from './prompts';
+import { buildRepairPrompt, parseScoreResponse, PROS_CONS_MAX_COUNT, ScoreValidationError } from './score-validation';
+import type { City } from '../../shared/cities';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface AIScores {
+  work_score: number;
+  wifi_quality: number;
+  // 0 is silent on the prompt's scale, so "no review mentions it" has to be
+  // null (only the heuristic scorer ever doesn't know)
+  noise_level: number | null;
+  outlet_availability: number;
+  seating_comfort: number;
+  lighting_quality: number;
+  vibe?: number;
+  summary: string;              // Always English
+  summary_localized?: string | null;   // Same summary in summary_language, for non-English cities
+  summary_language?: string | null;
+  tagline?: string | null;      // A few words for map tooltips
+  summary_long?: string | null; // A paragraph for the details view
+  pros?: string[];              // Short points for remote workers, for and against
+  cons?: string[];
+  confidence: string;
+  work_related_count: number;
+  evidence?: string[];          // 2-3 review quotes the scores rest on
+  // Set when out-of-range values had to be clamped; the cafe gets needs_review
+  validation_issues?: string[];
+}
+
+// A stored review row, as read back from the reviews table
+export interface ScorableReview {
+  google_review_id?: string;
+  rating: number;
+  text: string;
+  language?: string | null;   // Detected when stored, see language.ts
+  date?: string | null;       // When it was written; newer reviews weigh more, see recency.ts
+  mentions_wifi?: boolean;
+  mentions_noise?: boolean;
+  review_aspects?: ReviewAspect[];
+}
+
+// A cafe's current scores, used to fold in only the reviews added since
+export interface PreviousScores {
+  work_score: number;
+  wifi_quality: number;
+  noise_level: number | null;
+  outlet_availability: number;
+  seating_comfort: number;
+  lighting_quality: number;
+  summary: string;
+  summary_localized?: string | null;
+  tagline?: string | null;
+  summary_long?: string | null;
+  pros?: string[];
+  cons?: string[];
+  review_count: number;   // How many reviews the previous scores were based on
+}
+
+// What a scorer knows about the cafe besides its reviews
+export interface ScoringContext {
+  city: City;
+  previous?: PreviousScores;   // Set when folding new reviews into existing scores
+}
+
+// Turns a cafe's reviews into AIScores. `name` is stored in cafes.scored_by
+// so we can tell which scorer produced a cafe's current scores; `version`
+// identifies the prompt (or heuristic) revision in score snapshots.
+export interface ReviewScorer {
+  name: string;
+  version: string;
+  score(reviews: ScorableReview[], hasWorkReviews: boolean, context: ScoringContext): Promise<AIScores>;
+}
+
+// =====================================================
+// GEMINI
+// =====================================================
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash-exp';
+
+// The one call the Gemini scorer makes, so `eval` can swap in recorded answers
+export interface ScoringModel {
+  name: string;
+  generate(prompt: string): Promise<ModelResponse>;
+}
+
+export interface ModelResponse {
+  text: string;
+  inputTokens?: number;    // As billed, when the model reports it
+  outputTokens?: number;
+}
+
+// How many times Gemini is re-prompted with validation errors before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// For the budget check before a call: ~4 characters per token in, a JSON
+// answer out
+const CHARS_PER_TOKEN = 4;
+const EXPECTED_OUTPUT_TOKENS = 700;
+
+export function createGeminiModel(genAI: GoogleGenerativeAI, modelName = DEFAULT_GEMINI_MODEL): ScoringModel {
+  const http = getHttpClient('gemini');
+
+  return {
+    name: modelName,
+
+    async generate(prompt) {
+      const model = genAI.getGenerativeModel({ model: modelName });
+      const { response } = await http.run(signal => model.generateContent(prompt, { signal }));
+      return {
+        text: response.text(),
+        inputTokens: response.usageMetadata?.promptTokenCount,
+        outputTokens: response.usageMetadata?.candidatesTokenCount,
+      };
+    },
+  };
+}
+
+// `promptVersion` names a template in backend/prompts/scoring (see prompts.ts)
+export function createGeminiScorer(
+  model: ScoringModel,
+  meter: CostMeter = createNullMeter(),
+  promptVersion = latestPromptVersion()
+): ReviewScorer {
+  return {
+    name: `gemini:${model.name}`,
+    version: promptVersion,
+
+    async score(reviews, hasWorkReviews, context) {
+      const originalPrompt = buildScoringPrompt(promptVersion, reviews, hasWorkReviews, context);
+
+      let prompt = originalPrompt;
+      let response = '';
+      let errors: string[] = [];
+
+      for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        const estimatedInput = Math.ceil(prompt.length / CHARS_PER_TOKEN);
+        const result = await meter.track(
+          { gemini_input: estimatedInput, gemini_output: EXPECTED_OUTPUT_TOKENS },
+          () => model.generate(prompt),
+          ({ inputTokens, outputTokens }) => ({
+            gemini_input: inputTokens ?? estimatedInput,
+            gemini_output: outputTokens ?? EXPECTED_OUTPUT_TOKENS,
+          })
+        );
+        response = result.text;
+
+        const validation = parseScoreResponse(response);
+        if (validation.scores) {
+          validation.clamped.forEach(issue => log.warn(`⚠️  ${issue}`));
+          return withEvidence(withSummaryLanguage(validation.scores, context.city), reviews);
+        }
+
+        errors = validation.errors;
+        log.warn(`⚠️  Invalid AI output (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS + 1}):`);
+        errors.forEach(error => log.info(`   - ${error}`));
+        prompt = buildRepairPrompt(originalPrompt, response, errors);
+      }
+
+      throw new ScoreValidationError(errors, response);
+    },
+  };
+}
+
+// Quotes the model picked, or the strongest aspect clauses when it picked none
+function withEvidence(scores: AIScores, reviews: ScorableReview[]): AIScores {
+  if (scores.evidence && scores.evidence.length > 0) return scores;
+  return { ...scores, evidence: strongestEvidence(reviews.flatMap(r => r.review_aspects || [])) };
+}
+
+// English cities get no localized summary, even if the model wrote one
+function withSummaryLanguage(scores: AIScores, city: City): AIScores {
+  const localized = city.language !== 'en' ? scores.summary_localized || null : null;
+  return { ...scores, summary_localized: localized, summary_language: localized ? city.language : null };
+}
+
+// =====================================================
+// RECORDED RESPONSES (offline, no API key or cost)
+// =====================================================
+
+// Model answers keyed by promptHash, as checked in for the eval golden set
+export type RecordedResponses = Record<string, string>;
+
+// Set (to a note saying why) in a responses file written by hand rather than
+// recorded from Gemini. Replaying such answers checks parsing, validation and
+// the metrics, not the prompt. Never a prompt hash, so lookups can't hit it.
+export const SYNTHETIC_RESPONSES_KEY = '_synthetic';
+
+export function promptHash(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+}
+
+async function readRecordedResponses(file: string): Promise<RecordedResponses> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+export async function syntheticResponsesNote(file: string): Promise<string | null> {
+  return (await readRecordedResponses(file))[SYNTHETIC_RESPONSES_KEY] ?? null;
+}
+
+// Replays answers recorded by createRecordingModel. Any change to a prompt's
+// wording, the reviews or the lexicons changes its hash, so a miss means the
+// prompt is new, not that the model failed.
+export function createRecordedModel(file: string): ScoringModel {
+  let responses: Promise<RecordedResponses> | null = null;
+
+  return {
+    name: 'recorded',
+
+    async generate(prompt) {
+      responses ??= readRecordedResponses(file);
+      const hash = promptHash(prompt);
+      const text = (await responses)[hash];
+      if (text === undefined) {
+        throw new Error(`No recorded response for prompt ${hash} in ${file} (record one with --live)`);
+      }
+      return { text };
+    },
+  };
+}
+
+// Wraps a live model and saves every answer where createRecordedModel finds it
+export function createRecordingModel(inner: ScoringModel, file: string): ScoringModel {
+  return {
+    name: inner.name,
+
+    async generate(prompt) {
+      const response = await inner.generate(prompt);
+      const responses = await readRecordedResponses(file);
+      responses[promptHash(prompt)] = response.text;
+      const sorted = Object.fromEntries(Object.entries(responses).sort(([a], [b]) => a.localeCompare(b)));
+      await fs.writeFile(file, JSON.stringify(sorted, null, 2) + '\n');
+      log.info(`📼 Recorded response ${promptHash(prompt)}`);
+      return response;
+    },
+  };
+}
+
+// =====================================================
+// CACHED (no repeat charge for the same reviews)
+// =====================================================
+
+// Long enough to cover re-runs and `update all`; new reviews change the key anyway
+const SCORES_CACHE_TTL_MS = 90 * DAY_MS;
+
+// Returns the stored answer when this scorer already scored exactly these
+// reviews (by Google review id) for this cafe's city and previous scores.
+// Reviews without an id can't be told apart, so those calls aren't cached.
+export function createCachedScorer(inner: ReviewScorer, cache: ResponseCache): ReviewScorer {
+  return {
+    name: inner.name,
+    version: inner.version,
+
+    async score(reviews, hasWorkReviews, context) {
+      const ids = reviews.map(r => r.google_review_id);
+      if (ids.some(id => !id)) return inner.score(reviews, hasWorkReviews, context);
+
+      const key = cacheKey(
+        'gemini', inner.version, inner.name, [...ids].sort(), hasWorkReviews, context.city.id, context.previous ?? null
+      );
+      const cached = await cache.get<AIScores>('gemini', key);
+      if (cached) {
+        log.info(`💾 Cached scores for these ${reviews.length} reviews (${inner.name} ${inner.version})`);
+        return cached;
+      }
+
+      const scores = await inner.score(reviews, hasWorkReviews, context);
+      await cache.set('gemini', key, scores, SCORES_CACHE_TTL_MS);
+      return scores;
+    },
+  };
+}
+
+// =====================================================
+// HEURISTIC (no LLM, deterministic)
+// =====================================================
+
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// What a mostly-positive or mostly-negative aspect means to a remote worker
+const ASPECT_POINTS: Record<Aspect, { pro: string; con: string }> = {
+  wifi: { pro: 'Good WiFi', con: 'Unreliable WiFi' },
+  outlets: { pro: 'Outlets to plug in', con: 'Few outlets' },
+  seating: { pro: 'Comfortable seating', con: 'Cramped seating' },
+  noise: { pro: 'Quiet', con: 'Noisy' },
+  lighting: { pro: 'Good light', con: 'Dim' },
+  laptop_policy: { pro: 'Laptops welcome', con: 'Laptop restrictions' },
+  time_limits: { pro: 'No rush to leave', con: 'Time limits' },
+  calls: { pro: 'OK for calls', con: 'Hard to take calls' },
+};
+
+// Most-mentioned aspects first; evenly split aspects are neither
+function aspectPoints(summaries: AspectSummary[]): { pros: string[]; cons: string[] } {
+  const sorted = [...summaries].sort((a, b) => (b.positive + b.negative) - (a.positive + a.negative));
+  return {
+    pros: sorted.filter(s => s.positive > s.negative).map(s => ASPECT_POINTS[s.aspect].pro).slice(0, PROS_CONS_MAX_COUNT),
+    cons: sorted.filter(s => s.negative > s.positive).map(s => ASPECT_POINTS[s.aspect].con).slice(0, PROS_CONS_MAX_COUNT),
+  };
+}
+
+function workTagline(workScore: number): string {
+  if (workScore >= 4) return 'Good for a full day of work';
+  if (workScore >= 3) return 'Fine for a few hours of work';
+  if (workScore >= 2) return 'OK for a short work session';
+  return 'Better for coffee than for work';
+}
+
+function clampScore(value: number): number {
+  return Math.round(Math.min(5, Math.max(0, value)) * 10) / 10;
+}
+
+// Weighted by review counts. For wifi, outlets, seating and lighting 0 means
+// "not mentioned", so a 0 on either side just defers to the other.
+function blendScore(previous: number, next: number, previousWeight: number, nextWeight: number, zeroIsUnknown: boolean): number {
+  if (zeroIsUnknown && next === 0) return previous;
+  if (zeroIsUnknown && previous === 0) return next;
+  return clampScore((previous * previousWeight + next * nextWeight) / (previousWeight + nextWeight));
+}
+
+// Noise has no "not mentioned" value (0 is silent): unknown is null instead
+function blendNoise(previous: number | null, next: number | null, previousWeight: number, nextWeight: number): number | null {
+  if (next === null) return previous;
+  if (previous === null) return next;
+  return blendScore(previous, next, previousWeight, nextWeight, false);
+}
+
+// Scores from star ratings and the aspects tagged on each review, both
+// weighted by recency. Used when Gemini is unavailable, rate-limited or out of
+// budget; always reports low or medium confidence so these scores are easy to
+// find and re-run later.
+export function createHeuristicScorer(): ReviewScorer {
+  return {
+    name: 'heuristic',
+    version: 'v6',
+
+    async score(reviews, hasWorkReviews, { city, previous }) {
+      const weights = recencyWeights(reviews.map(r => r.date));
+      const avgRating = weightedAverage(reviews.map(r => r.rating || 0), weights);
+      const allAspectMentions = reviews.flatMap(r => r.review_aspects || []);
+      const summaries = aggregateAspects(
+        reviews.flatMap((r, i) => (r.review_aspects || []).map(aspect => ({ ...aspect, weight: weights[i] })))
+      );
+      const mentions = aggregateAspects(allAspectMentions);
+
+      // WiFi: positive mentions score 5, neutral 3, negative 1 (0 = never mentioned)
+      const wifi = summaries.get('wifi');
+      const wifi_quality = wifi ? clampScore(aspectScore(wifi)) : 0;
+
+      // Noise runs the other way: quiet (positive) is low, loud (negative) is high.
+      // Never mentioned is null, not 0: 0 would mean silent.
+      const noise = summaries.get('noise');
+      const noise_level = noise ? clampScore(aspectScore(noise, 1.5, 3, 4.5)) : null;
+
+      // Outlets, seating and lighting score like WiFi (0 = never mentioned)
+      const scoreAspect = (aspect: 'outlets' | 'seating' | 'lighting') => {
+        const summary = summaries.get(aspect);
+        return summary ? clampScore(aspectScore(summary)) : 0;
+      };
+      const outlet_availability = scoreAspect('outlets');
+      const seating_comfort = scoreAspect('seating');
+      const lighting_quality = scoreAspect('lighting');
+
+      // Work score: star rating blended with how every work aspect came out
+      const allAspects = [...summaries.values()];
+      const aspectBalance = allAspects.length === 0
+        ? 0
+        : average(allAspects.map(summary => aspectScore(summary)));
+      const work_score = clampScore(allAspects.length === 0 ? avgRating * 0.6 : 0.5 * avgRating + 0.5 * aspectBalance);
+
+      const aspectNotes = [...mentions.values()]
+        .map(summary => `${summary.aspect.replace(/_/g, ' ')} +${summary.positive}/-${summary.negative}`)
+        .join(', ');
+
+      const totalReviews = reviews.length + (previous?.review_count || 0);
+      const confidence = hasWorkReviews && totalReviews >= 10 ? 'medium' : 'low';
+      const { pros, cons } = aspectPoints(allAspects);
+
+      if (previous) {
+        const [before, added] = [previous.review_count, reviews.length];
+        const blendedWorkScore = blendScore(previous.work_score, work_score, before, added, false);
+        // Text written from every review so far beats points from the new ones alone
+        const hasPreviousPoints = !!(previous.pros?.length || previous.cons?.length);
+        return {
+          work_score: blendedWorkScore,
+          wifi_quality: blendScore(previous.wifi_quality, wifi_quality, before, added, true),
+          noise_level: blendNoise(previous.noise_level, noise_level, before, added),
+          outlet_availability: blendScore(previous.outlet_availability, outlet_availability, before, added, true),
+          seating_comfort: blendScore(previous.seating_comfort, seating_comfort, before, added, true),
+          lighting_quality: blendScore(previous.lighting_quality, lighting_quality, before, added, true),
+          vibe: clampScore(avgRating),
+          summary: previous.summary,
+          summary_localized: previous.summary_localized,
+          summary_language: previous.summary_localized ? city.language : null,
+          tagline: workTagline(blendedWorkScore),
+          summary_long: previous.summary_long,
+          pros: hasPreviousPoints ? previous.pros : pros,
+          cons: hasPreviousPoints ? previous.cons : cons,
+          confidence,
+          work_related_count: (hasWorkReviews ? reviews.length : 0) + previous.review_count,
+          evidence: strongestEvidence(allAspectMentions),
+        };
+      }
+
+      return {
+        work_score,
+        wifi_quality,
+        noise_level,
+        outlet_availability,
+        seating_comfort,
+        lighting_quality,
+        vibe: clampScore(avgRating),
+        summary: `Estimated from ${reviews.length} reviews${aspectNotes ? `: ${aspectNotes}` : ''}.`,
+        tagline: workTagline(work_score),
+        pros,
+        cons,
+        confidence,
+        work_related_count: hasWorkReviews ? reviews.length : 0,
+        evidence: strongestEvidence(allAspectMentions),
+      };
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Coffee } from 'lucide-react';
+
+interface CafeCoverProps {
+  name: string;
+  imageUrl: string | null;
+  className?: string;
+  compact?: boolean;
+}
+
+interface CafePhotoFallbackProps {
+  name: string;
+  className?: string;
+  compact?: boolean;
+}
+
+// Warm palettes in the same family as the tag colours
+const PALETTES = [
+  { from: '#FAEBD0', to: '#E8C99A', text: '#755A29' },
+  { from: '#EAFAD0', to: '#C5E09A', text: '#5C7A2A' },
+  { from: '#FDF2F8', to: '#F2C4C1', text: '#A6514C' },
+  { from: '#E8EEF9', to: '#B9C8E8', text: '#3F5580' },
+  { from: '#F3EDE4', to: '#D6C3A8', text: '#6B543A' },
+];
+
+function hashName(name: string): number {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+function getInitials(name: string): string {
+  const words = name.replace(/[^\p{L}\p{N}\s]/gu, '').split(/\s+/).filter(Boolean);
+  return words.slice(0, 2).map(word => word[0].toUpperCase()).join('') || '?';
+}
+
+// Generated stand-in for cafes without a photo (or whose photos fail to load):
+// the same cafe always gets the same colours and initials
+export function CafePhotoFallback({ name, className = '', compact = false }: CafePhotoFallbackProps) {
+  const palette = PALETTES[hashName(name) % PALETTES.length];
+
+  return (
+    <div
+      className={`flex flex-col items-center justify-center gap-1 overflow-hidden ${className}`}
+      style={{ background: `linear-gradient(135deg, ${palette.from}, ${palette.to})`, color: palette.text }}
+      role="img"
+      aria-label={name}
+    >
+      <div className="flex items-center gap-1.5">
+        <Coffee className={compact ? 'w-4 h-4' : 'w-6 h-6'} />
+        <span className={`font-bold tracking-wide ${compact ? 'text-lg' : 'text-3xl'}`}>{getInitials(name)}</span>
+      </div>
+      {!compact && (
+        <span className="text-xs font-medium px-4 text-center line-clamp-1 opacity-80">{name}</span>
+      )}
+    </div>
+  );
+}
+
+// A cafe's cover photo, swapping to the generated card when there is no photo
+// or it fails to load
+export function CafeCover({ name, imageUrl, className = '', compact = false }: CafeCoverProps) {
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+
+  if (!imageUrl || failedUrl === imageUrl) {
+    return <CafePhotoFallback name={name} className={className} compact={compact} />;
+  }
+
+  return (
+    <img
+      src={imageUrl}
+      alt={name}
+      loading="lazy"
+      className={`object-cover ${className}`}
+      onError={() => setFailedUrl(imageUrl)}
+    />
+  );
+}
@@ -1,7 +1,16 @@
-import { X, ExternalLink, Heart, MapPin, Clock, Wifi, Volume2, Star, MapPinCheck } from 'lucide-react';
-import { type Cafe } from '../../services/api';
+import { useEffect, useState } from 'react';
+import { X, ExternalLink, Heart, MapPin, Clock, Wifi, Volume2, Star, MapPinCheck, Plug, Armchair, Sun, TrendingUp, TrendingDown, ChevronDown, Plus, Minus } from 'lucide-react';
+import { cafeApi, type Cafe, type CafePhoto, type Confidence, type ScoreTrend } from '../../services/api';
 import { useFavorites } from '../../contexts/FavoritesContext';
 import { useAuth } from '../../contexts/AuthContext';
+import { PhotoGallery } from './PhotoGallery';
+import { createHoursSchedule, type HoursSchedule } from '../../../../shared/opening-hours';
+
+const CONFIDENCE_BADGES: Record<Confidence, { label: string; className: string }> = {
+  high: { label: 'High confidence', className: 'bg-green-100 text-green-800' },
+  medium: { label: 'Medium confidence', className: 'bg-amber-100 text-amber-800' },
+  low: { label: 'Low confidence', className: 'bg-gray-100 text-gray-600' },
+};
 
 interface CafePopupProps {
   cafe: Cafe;
@@ -12,13 +21,50 @@ interface CafePopupProps {
 export function CafePopup({ cafe, onClose, markerPosition }: CafePopupProps) {
   const { user } = useAuth();
   const { isFavorited, toggleFavorite, isLoading } = useFavorites();
+  const [trend, setTrend] = useState<ScoreTrend | null>(null);
+  const [photos, setPhotos] = useState<CafePhoto[]>([]);
+  const [showWhy, setShowWhy] = useState(false);
+  const [showLong, setShowLong] = useState(false);
   const googleMapsUrl = `https://www.google.com/maps/place/?q=place_id:${cafe.google_place_id}`;
   
-  // Calculate if open now based on opening hours
-  const isOpenNow = calculateIsOpenNow(cafe.opening_hours);
+  // Open now, in the cafe's own timezone
+  const now = new Date();
+  const schedule = createHoursSchedule(cafe.opening_hours);
+  const isOpenNow = schedule.isOpenAt(now);
   
   // Check if this cafe is favorited
   const favorited = isFavorited(cafe.id);
+
+  // Readers whose browser speaks the city's language get the localized summary
+  const summary = cafe.summary_localized && cafe.summary_language &&
+    navigator.language.toLowerCase().startsWith(cafe.summary_language)
+    ? cafe.summary_localized
+    : cafe.summary;
+
+  // Load score history to show whether the cafe is getting better or worse for work
+  useEffect(() => {
+    let cancelled = false;
+    setTrend(null);
+    cafeApi.getScoreTrend(cafe.id)
+      .then(result => { if (!cancelled) setTrend(result); })
+      .catch(error => console.error('Error fetching score trend:', error));
+    return () => { cancelled = true; };
+  }, [cafe.id]);
+
+  // Load the photo gallery; until it arrives the cover photo (or fallback card) shows
+  useEffect(() => {
+    let cancelled = false;
+    setPhotos(cafe.image_url ? [{ url: cafe.image_url, width: null, height: null, attributions: [] }] : []);
+    cafeApi.getCafePhotos({ id: cafe.id, image_url: cafe.image_url })
+      .then(result => { if (!cancelled) setPhotos(result); })
+      .catch(error => console.error('Error fetching cafe photos:', error));
+    return () => { cancelled = true; };
+  }, [cafe.id, cafe.image_url]);
+
+  useEffect(() => setShowWhy(false), [cafe.id]);
+  useEffect(() => setShowLong(false), [cafe.id]);
+
+  const changedMetrics = trend?.metrics.filter(m => m.direction !== 'steady') || [];
   
   const handleToggleFavorite = async () => {
     if (!user) return;
@@ -52,18 +98,9 @@ export function CafePopup({ cafe, onClose, markerPosition }: CafePopupProps) {
 
     {/* Main Content - Horizontal Layout */}
     <div className="flex h-full border border-gray-200">
-      {/* Left Side - Image and Metrics */}
-      {cafe.image_url && (
+      {/* Left Side - Photos and Metrics */}
         <div className="w-1/2 h-full flex flex-col p-6">
-          <div className="relative">
-            <img 
-              src={cafe.image_url} 
-              alt={cafe.name}
-              className="w-full h-48 object-cover rounded-lg mb-4 border border-black"
-              onError={(e) => {
-                e.currentTarget.style.display = 'none';
-              }}
-            />
+          <PhotoGallery photos={photos} cafeName={cafe.name} className="w-full h-48 mb-4 flex-shrink-0">
             {/* Favorite Button */}
             {user && (
               <button 
@@ -83,7 +120,7 @@ export function CafePopup({ cafe, onClose, markerPosition }: CafePopupProps) {
                 />
               </button>
             )}
-          </div>
+          </PhotoGallery>
           
           {/* Metrics Grid */}
           <div className="grid grid-cols-3 gap-2 ">
@@ -107,19 +144,41 @@ export function CafePopup({ cafe, onClose, markerPosition }: CafePopupProps) {
               <Volume2 className="w-4 h-4 mx-auto mb-1" style={{ color: '#000000ff' }} />
               <div className="text-[10px] font-semibold text-gray-600 mb-0.5">Noise</div>
               <div className="text-xs font-medium text-gray-800">
-                {cafe.noise_level === 0 ? '--' : 
-                 cafe.noise_level ? 
+                {/* null = no review mentions it; 0 is silent */}
+                {cafe.noise_level === null || cafe.noise_level === undefined ? '--' :
                    cafe.noise_level <= 2 ? 'Quiet' :
-                   cafe.noise_level <= 3 ? 'Medium' : 'Loud'
-                 : 'N/A'}
+                   cafe.noise_level <= 3 ? 'Medium' : 'Loud'}
+              </div>
+            </div>
+
+            <div className="text-center p-2 rounded-md border border-neutral-400 bg-white">
+              <Plug className="w-4 h-4 mx-auto mb-1" style={{ color: '#000000ff' }} />
+              <div className="text-[10px] font-semibold text-gray-600 mb-0.5">Outlets</div>
+              <div className="text-xs font-medium text-gray-800">
+                {cafe.outlet_availability === 0 ? '--' : cafe.outlet_availability ? `${cafe.outlet_availability}/5` : 'N/A'}
+              </div>
+            </div>
+
+            <div className="text-center p-2 rounded-md border border-neutral-400 bg-white">
+              <Armchair className="w-4 h-4 mx-auto mb-1" style={{ color: '#000000ff' }} />
+              <div className="text-[10px] font-semibold text-gray-600 mb-0.5">Seating</div>
+              <div className="text-xs font-medium text-gray-800">
+                {cafe.seating_comfort === 0 ? '--' : cafe.seating_comfort ? `${cafe.seating_comfort}/5` : 'N/A'}
+              </div>
+            </div>
+
+            <div className="text-center p-2 rounded-md border border-neutral-400 bg-white">
+              <Sun className="w-4 h-4 mx-auto mb-1" style={{ color: '#000000ff' }} />
+              <div className="text-[10px] font-semibold text-gray-600 mb-0.5">Lighting</div>
+              <div className="text-xs font-medium text-gray-800">
+                {cafe.lighting_quality === 0 ? '--' : cafe.lighting_quality ? `${cafe.lighting_quality}/5` : 'N/A'}
               </div>
             </div>
           </div>
         </div>
-      )}
 
       {/* Right Side - Content */}
-      <div className={`${cafe.image_url ? 'w-1/2' : 'w-full'} p-4 overflow-y-auto flex flex-col h-full `}>
+      <div className="w-1/2 p-4 overflow-y-auto flex flex-col h-full ">
         {/* Cafe Name */}
         <h2 className="text-lg font-bold text-gray-900 mb-2">
           {cafe.name}
@@ -139,7 +198,7 @@ export function CafePopup({ cafe, onClose, markerPosition }: CafePopupProps) {
           </span>
           {cafe.opening_hours && (
             <span className="text-xs text-gray-500">
-              • {getCurrentHours(cafe.opening_hours)}
+              • {describeHours(schedule, now)}
             </span>
           )}
         </div>
@@ -163,15 +222,100 @@ export function CafePopup({ cafe, onClose, markerPosition }: CafePopupProps) {
                 />
               ))}
             </div>
+            {cafe.confidence && (
+              <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded-full ${CONFIDENCE_BADGES[cafe.confidence].className}`}>
+                {CONFIDENCE_BADGES[cafe.confidence].label}
+              </span>
+            )}
           </div>
+          {(cafe.supporting_review_count !== null || cafe.evidence.length > 0) && (
+            <div className="mb-1">
+              <button
+                onClick={() => setShowWhy(!showWhy)}
+                className="flex items-center gap-1 text-[11px] text-gray-500 hover:text-gray-800"
+                aria-expanded={showWhy}
+              >
+                Why this score
+                <ChevronDown className={`w-3 h-3 transition-transform ${showWhy ? 'rotate-180' : ''}`} />
+              </button>
+              {showWhy && (
+                <div className="mt-1 space-y-1 text-[11px] text-gray-600">
+                  <p>
+                    {cafe.supporting_review_count
+                      ? `Based on ${cafe.supporting_review_count} reviews that mention working here.`
+                      : 'No reviews mention working here, so this is estimated from general reviews.'}
+                  </p>
+                  {cafe.work_score_raw !== null && cafe.work_score !== cafe.work_score_raw && (
+                    <p>
+                      Ranked against other cafes in {cafe.city}: {cafe.work_score_raw.toFixed(1)} before calibration.
+                    </p>
+                  )}
+                  {cafe.evidence.map(quote => (
+                    <p key={quote} className="pl-2 border-l-2 border-gray-200 italic">"{quote}"</p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          {changedMetrics.length > 0 && (
+            <div className="space-y-0.5">
+              {changedMetrics.map(m => (
+                <div
+                  key={m.metric}
+                  className={`flex items-center gap-1 text-[11px] ${m.direction === 'better' ? 'text-green-600' : 'text-rose-400'}`}
+                >
+                  {m.direction === 'better'
+                    ? <TrendingUp className="w-3 h-3" />
+                    : <TrendingDown className="w-3 h-3" />}
+                  <span>{m.label}</span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Summary Quote */}
-        {cafe.summary && (
+        {summary && (
           <div className="mb-3 flex-1 bg-neutral-50 p-3 rounded-md">
-            <p className="text-xs text-gray-700 leading-relaxed overflow-visible">
-              "{cafe.summary}"
+            <p className="text-xs text-gray-700 leading-relaxed overflow-visible" lang={summary === cafe.summary ? 'en' : cafe.summary_language || undefined}>
+              "{summary}"
             </p>
+            {cafe.summary_long && (
+              <>
+                {showLong && (
+                  <p className="mt-2 text-xs text-gray-700 leading-relaxed" lang="en">{cafe.summary_long}</p>
+                )}
+                <button
+                  onClick={() => setShowLong(!showLong)}
+                  className="mt-1 text-[11px] text-gray-500 hover:text-gray-800"
+                  aria-expanded={showLong}
+                >
+                  {showLong ? 'Show less' : 'Read more'}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Pros and cons for remote workers */}
+        {(cafe.pros.length > 0 || cafe.cons.length > 0) && (
+          <div className="mb-3 grid grid-cols-2 gap-2 text-[11px]">
+            <ul className="space-y-0.5">
+              {cafe.pros.map(point => (
+                <li key={point} className="flex items-start gap-1 text-green-700">
+                  <Plus className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                  {point}
+                </li>
+              ))}
+            </ul>
+            <ul className="space-y-0.5">
+              {cafe.cons.map(point => (
+                <li key={point} className="flex items-start gap-1 text-rose-500">
+                  <Minus className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                  {point}
+                </li>
+              ))}
+            </ul>
           </div>
         )}
 
@@ -220,90 +364,8 @@ export function CafePopup({ cafe, onClose, markerPosition }: CafePopupProps) {
 }
 
 // Helper functions
-function getCurrentHours(openingHours: Record<string, string>): string {
-  const today = new Date().toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-  return openingHours[today] || 'Hours not available';
+function describeHours(schedule: HoursSchedule, now: Date): string {
+  const closesIn = schedule.closesIn(now);
+  if (closesIn !== null && closesIn <= 60) return `Closes in ${closesIn} min`;
+  return schedule.todayText(now) || 'Hours not available';
 }
-
-function calculateIsOpenNow(openingHours: Record<string, string> | null): boolean {
-  if (!openingHours) {
-    console.log('🚫 No opening hours data');
-    return false;
-  }
-  
-  const now = new Date();
-  const today = now.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-  const currentTime = now.getHours() * 100 + now.getMinutes(); // Convert to HHMM format
-  
-  console.log('🕐 Debug opening hours:', {
-    today,
-    currentTime,
-    openingHours,
-    todayHours: openingHours[today]
-  });
-  
-  const todayHours = openingHours[today];
-  if (!todayHours || todayHours.toLowerCase() === 'closed') {
-    console.log('🚫 No hours for today or marked as closed');
-    return false;
-  }
-  
-  // Parse hours like "7:30 AM – 5:00 PM" or "7:00-18:00,19:00-22:00"
-  const hourRanges = todayHours.split(',');
-  
-  for (const range of hourRanges) {
-    // Handle both "–" (em dash) and "-" (hyphen) separators
-    const [start, end] = range.trim().split(/\s*[–-]\s*/);
-    if (!start || !end) continue;
-    
-    const startTime = parseTimeToNumber(start.trim());
-    const endTime = parseTimeToNumber(end.trim());
-    
-    console.log('⏰ Checking range:', {
-      range: range.trim(),
-      start: start.trim(),
-      end: end.trim(),
-      startTime,
-      endTime,
-      currentTime,
-      isOpen: startTime && endTime && currentTime >= startTime && currentTime <= endTime
-    });
-    
-    if (startTime && endTime && currentTime >= startTime && currentTime <= endTime) {
-      console.log('✅ Cafe is open!');
-      return true;
-    }
-  }
-  
-  console.log('❌ Cafe is closed');
-  return false;
-}
-
-function parseTimeToNumber(timeStr: string): number | null {
-  // Handle both "7:30 AM" and "7:00" formats
-  const ampmMatch = timeStr.match(/(\d{1,2}):(\d{2})\s*(AM|PM)/i);
-  if (ampmMatch) {
-    let hours = parseInt(ampmMatch[1]);
-    const minutes = parseInt(ampmMatch[2]);
-    const ampm = ampmMatch[3].toUpperCase();
-    
-    // Convert to 24-hour format
-    if (ampm === 'PM' && hours !== 12) {
-      hours += 12;
-    } else if (ampm === 'AM' && hours === 12) {
-      hours = 0;
-    }
-    
-    return hours * 100 + minutes;
-  }
-  
-  // Fallback for 24-hour format
-  const match = timeStr.match(/(\d{1,2}):(\d{2})/);
-  if (!match) return null;
-  
-  const hours = parseInt(match[1]);
-  const minutes = parseInt(match[2]);
-  return hours * 100 + minutes;
-}
-
-
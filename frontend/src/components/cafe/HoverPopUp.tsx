@@ -1,5 +1,6 @@
 import { type Cafe } from '../../services/api';
-import { Heart, Wifi, Volume2, VolumeX, Laptop } from 'lucide-react';
+import { CafeCover } from './CafePhotoFallback';
+import { Heart, Wifi, Volume2, VolumeX, Laptop, Plug, Armchair, Sun } from 'lucide-react';
 
 interface HoverPopupProps {
   cafe: Cafe;
@@ -32,20 +33,7 @@ export function HoverPopup({ cafe, onMouseEnter, onMouseLeave, onClickForDetails
       
       {/* Image Section */}
       <div className="relative mb-2">
-        {cafe.image_url ? (
-          <img 
-            src={cafe.image_url} 
-            alt={cafe.name}
-            className="w-full h-24 object-cover rounded-md"
-            onError={(e) => {
-              e.currentTarget.style.display = 'none';
-            }}
-          />
-        ) : (
-          <div className="w-full h-24 bg-gray-200 rounded-md flex items-center justify-center">
-            <span className="text-gray-400 text-xs">No image</span>
-          </div>
-        )}
+        <CafeCover name={cafe.name} imageUrl={cafe.image_url} className="w-full h-24 rounded-md" compact />
         
         {/* Rating Badge */}
         <div className="absolute top-1.5 left-1.5 bg-white rounded-full px-1.5 py-0.5 shadow-md flex items-center">
@@ -62,6 +50,9 @@ export function HoverPopup({ cafe, onMouseEnter, onMouseLeave, onClickForDetails
 
       {/* Cafe Name */}
       <h3 className="font-semibold text-sm text-gray-900 mb-1.5 line-clamp-1">{cafe.name}</h3>
+      {cafe.tagline && (
+        <p className="text-[11px] text-gray-600 leading-snug mb-1.5 line-clamp-2">{cafe.tagline}</p>
+      )}
 
       {/* Tags */}
       <div className="flex flex-wrap gap-1">
@@ -90,13 +81,35 @@ export function HoverPopup({ cafe, onMouseEnter, onMouseLeave, onClickForDetails
         )}
         
         {/* Quiet Tag */}
-        {cafe.noise_level !== null && cafe.noise_level !== undefined && cafe.noise_level < 2.5 && cafe.noise_level > 0 && (
+        {cafe.noise_level !== null && cafe.noise_level !== undefined && cafe.noise_level < 2.5 && (
           <span className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded-full" style={{ backgroundColor: '#FDF2F8', color: '#dd7f7aff' }}>
             <VolumeX className="w-2.5 h-2.5" />
             Quiet
           </span>
         )}
         
+        {/* Outlets, Seating and Lighting Tags - only show positive indicators */}
+        {cafe.outlet_availability !== null && cafe.outlet_availability !== undefined && cafe.outlet_availability >= 4 && (
+          <span className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded-full" style={{ backgroundColor: '#FAEBD0', color: '#755A29' }}>
+            <Plug className="w-2.5 h-2.5" />
+            Outlets
+          </span>
+        )}
+
+        {cafe.seating_comfort !== null && cafe.seating_comfort !== undefined && cafe.seating_comfort >= 4 && (
+          <span className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded-full" style={{ backgroundColor: '#FAEBD0', color: '#755A29' }}>
+            <Armchair className="w-2.5 h-2.5" />
+            Comfy Seating
+          </span>
+        )}
+
+        {cafe.lighting_quality !== null && cafe.lighting_quality !== undefined && cafe.lighting_quality >= 4 && (
+          <span className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded-full" style={{ backgroundColor: '#FAEBD0', color: '#755A29' }}>
+            <Sun className="w-2.5 h-2.5" />
+            Bright
+          </span>
+        )}
+
         {/* Good for Work Tag */}
         {cafe.work_score && cafe.work_score >= 4 && (
           <span className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded-full" style={{ backgroundColor: '#EAFAD0', color: '#5C7A2A' }}>
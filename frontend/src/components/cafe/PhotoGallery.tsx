@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { type CafePhoto } from '../../services/api';
+import { CafePhotoFallback } from './CafePhotoFallback';
+
+interface PhotoGalleryProps {
+  photos: CafePhoto[];
+  cafeName: string;
+  className?: string;
+  children?: ReactNode;   // Overlays such as the favorite button
+}
+
+// Horizontal distance (px) a touch has to travel to count as a swipe
+const SWIPE_THRESHOLD = 40;
+
+export function PhotoGallery({ photos, cafeName, className = '', children }: PhotoGalleryProps) {
+  const [index, setIndex] = useState(0);
+  const [failed, setFailed] = useState<Set<string>>(new Set());
+  const touchStartX = useRef<number | null>(null);
+
+  // Photos that fail to load are dropped rather than left as broken images
+  const visible = photos.filter(photo => !failed.has(photo.url));
+  const activeIndex = Math.min(index, visible.length - 1);
+  const current = visible[activeIndex];
+
+  useEffect(() => {
+    setIndex(0);
+    setFailed(new Set());
+  }, [photos]);
+
+  const go = (step: number) => {
+    if (visible.length < 2) return;
+    setIndex((activeIndex + step + visible.length) % visible.length);
+  };
+
+  const handleTouchEnd = (x: number) => {
+    if (touchStartX.current === null) return;
+    const distance = x - touchStartX.current;
+    touchStartX.current = null;
+    if (Math.abs(distance) >= SWIPE_THRESHOLD) go(distance < 0 ? 1 : -1);
+  };
+
+  const attributions = current?.attributions.filter(a => a.display_name) || [];
+
+  return (
+    <div
+      className={`relative overflow-hidden rounded-lg border border-black ${className}`}
+      tabIndex={visible.length > 1 ? 0 : undefined}
+      onKeyDown={(e) => {
+        if (e.key === 'ArrowLeft') go(-1);
+        if (e.key === 'ArrowRight') go(1);
+      }}
+      onTouchStart={(e) => { touchStartX.current = e.touches[0].clientX; }}
+      onTouchEnd={(e) => handleTouchEnd(e.changedTouches[0].clientX)}
+    >
+      {current ? (
+        <img
+          key={current.url}
+          src={current.url}
+          alt={`${cafeName} (photo ${activeIndex + 1} of ${visible.length})`}
+          width={current.width || undefined}
+          height={current.height || undefined}
+          loading="lazy"
+          decoding="async"
+          className="w-full h-full object-cover"
+          onError={() => setFailed(prev => new Set(prev).add(current.url))}
+        />
+      ) : (
+        <CafePhotoFallback name={cafeName} className="w-full h-full" />
+      )}
+
+      {visible.length > 1 && (
+        <>
+          <button
+            className="absolute left-2 top-1/2 -translate-y-1/2 w-7 h-7 bg-white/90 rounded-full shadow flex items-center justify-center hover:bg-white transition-colors"
+            onClick={(e) => { e.stopPropagation(); go(-1); }}
+            aria-label="Previous photo"
+          >
+            <ChevronLeft className="w-4 h-4 text-gray-700" />
+          </button>
+          <button
+            className="absolute right-2 top-1/2 -translate-y-1/2 w-7 h-7 bg-white/90 rounded-full shadow flex items-center justify-center hover:bg-white transition-colors"
+            onClick={(e) => { e.stopPropagation(); go(1); }}
+            aria-label="Next photo"
+          >
+            <ChevronRight className="w-4 h-4 text-gray-700" />
+          </button>
+
+          <div className="absolute bottom-6 left-0 right-0 flex justify-center gap-1">
+            {visible.map((photo, i) => (
+              <span
+                key={photo.url}
+                className={`w-1.5 h-1.5 rounded-full ${i === activeIndex ? 'bg-white' : 'bg-white/50'}`}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* Google requires the photo author's name next to the photo */}
+      {attributions.length > 0 && (
+        <div className="absolute bottom-0 left-0 right-0 bg-black/50 px-2 py-0.5 text-[10px] text-white truncate">
+          Photo:{' '}
+          {attributions.map((a, i) => (
+            <span key={a.display_name + i}>
+              {i > 0 && ', '}
+              {a.uri ? (
+                <a href={a.uri} target="_blank" rel="noopener noreferrer" className="underline" onClick={(e) => e.stopPropagation()}>
+                  {a.display_name}
+                </a>
+              ) : a.display_name}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {children}
+    </div>
+  );
+}
@@ -1,13 +1,16 @@
 // frontend/src/components/Map.tsx
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import mapboxgl from 'mapbox-gl';
 import 'mapbox-gl/dist/mapbox-gl.css';
 import { cafeApi, type Cafe } from '../../services/api';
 import { CafePopup } from '../cafe/CafePopup';
 import { HoverPopup } from '../cafe/HoverPopUp';
 import { Loading } from '../ui/Loading';
+import { MapFilters } from './MapFilters';
+import { filterCafes, type CafeFilters } from '../../../../shared/cafe-export';
+import { DEFAULT_CITY, type City } from '../../../../shared/cities';
 import MapMarkerLow from '../../assets/Map-Marker-Low.svg?url';
 import MapMarkerMedium from '../../assets/Map-Marker-Medium.svg?url';
 import MapMarker from '../../assets/Map-Marker.svg?url';
@@ -24,24 +27,30 @@ export default function Map() {
   const [selectedCafe, setSelectedCafe] = useState<Cafe | null>(null);
   const [markerScreenPosition, setMarkerScreenPosition] = useState<{x: number, y: number} | null>(null);
   const hoverTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const hasLoadedRef = useRef(false);
+  const [city, setCity] = useState<City>(DEFAULT_CITY);
+  const [filters, setFilters] = useState<CafeFilters>({});
 
-  // Fetch cafes
+  const visibleCafes = useMemo(() => filterCafes(cafes, filters), [cafes, filters]);
+
+  // Fetch the current city's cafes
   useEffect(() => {
     const timer = setTimeout(async () => {
       try {
         setLoadingCafes(true);
-        const data = await cafeApi.getAllCafes();
-        console.log(`Fetched ${data.length} cafes`);
+        const data = await cafeApi.getCafesByCity(city);
+        console.log(`Fetched ${data.length} cafes in ${city.name}`);
         setCafes(data);
       } catch (error) {
         console.error('Error fetching cafes:', error);
       } finally {
         setLoadingCafes(false);
+        hasLoadedRef.current = true;
       }
-    }, 2000); // 2 second delay to show loading animation
+    }, hasLoadedRef.current ? 0 : 2000); // 2 second delay to show loading animation on first load
 
     return () => clearTimeout(timer);
-  }, []);
+  }, [city]);
 
   // Initialize map
   useEffect(() => {
@@ -62,8 +71,8 @@ export default function Map() {
       map.current = new mapboxgl.Map({
         container: mapContainer.current,
         style: 'mapbox://styles/stse3/cmhkzjra0006f01s63wrr4rgt',
-        center: [-79.3832, 43.6532],
-        zoom: 12,
+        center: DEFAULT_CITY.center,
+        zoom: DEFAULT_CITY.zoom,
         pitch: 0,
         bearing: 0,
         minZoom: 10,
@@ -110,9 +119,14 @@ export default function Map() {
     };
   }, []);
 
+  // Head to the new city right away; the markers refit once its cafes load
+  useEffect(() => {
+    map.current?.flyTo({ center: city.center, zoom: city.zoom });
+  }, [city]);
+
   // Add cafe markers
   useEffect(() => {
-    if (!map.current || isLoading || loadingCafes || cafes.length === 0) {
+    if (!map.current || isLoading || loadingCafes) {
       console.log('Marker creation conditions:', {
         hasMap: !!map.current,
         isLoading,
@@ -122,21 +136,21 @@ export default function Map() {
       return;
     }
 
-    console.log(`Adding ${cafes.length} markers to map`);
+    console.log(`Adding ${visibleCafes.length} of ${cafes.length} markers to map`);
 
     // Clear existing markers
     markersRef.current.forEach(marker => marker.remove());
     markersRef.current = [];
 
     // Add new markers
-    cafes.forEach((cafe, index) => {
+    visibleCafes.forEach((cafe, index) => {
       if (!cafe.latitude || !cafe.longitude) {
         console.log(`Skipping cafe ${cafe.name} - missing coordinates`);
         return;
       }
       
 
-      console.log(`Creating marker ${index + 1}/${cafes.length} for ${cafe.name}`);
+      console.log(`Creating marker ${index + 1}/${visibleCafes.length} for ${cafe.name}`);
       console.log(`  Address: ${cafe.address}`);
       console.log(`  Coordinates: ${cafe.latitude}, ${cafe.longitude}`);
       console.log(`  LngLat for Mapbox: [${cafe.longitude}, ${cafe.latitude}]`);
@@ -188,6 +202,10 @@ export default function Map() {
       console.log(`MarkerIcon type:`, typeof markerIcon);
       console.log(`MarkerIcon length:`, markerIcon?.length);
       
+      // Low-confidence scores are guesses from general reviews; fade them
+      // until hovered so well-supported cafes stand out
+      const restingOpacity = cafe.confidence === 'low' ? '0.5' : '1';
+
       innerEl.style.cssText = `
         width: 100%;
         height: 100%;
@@ -195,8 +213,9 @@ export default function Map() {
         background-size: contain;
         background-repeat: no-repeat;
         background-position: center;
-        transition: transform 0.2s ease, filter 0.2s ease;
+        transition: transform 0.2s ease, filter 0.2s ease, opacity 0.2s ease;
         transform-origin: center bottom;
+        opacity: ${restingOpacity};
       `;
       
       // Alternative method - set background-image separately
@@ -208,6 +227,7 @@ export default function Map() {
         if (hoverTimeoutRef.current) clearTimeout(hoverTimeoutRef.current);
         innerEl.style.transform = 'scale(1.15)';
         innerEl.style.filter = 'brightness(1.1)';
+        innerEl.style.opacity = '1';
         setHoveredCafe(cafe);
         
         // Calculate marker screen position for popup positioning
@@ -222,6 +242,7 @@ export default function Map() {
       el.addEventListener('mouseleave', () => {
         innerEl.style.transform = 'scale(1)';
         innerEl.style.filter = 'brightness(1)';
+        innerEl.style.opacity = restingOpacity;
         hoverTimeoutRef.current = setTimeout(() => {
           setHoveredCafe(null);
           setMarkerScreenPosition(null);
@@ -251,10 +272,12 @@ export default function Map() {
       markersRef.current.push(marker);
     });
 
-    // Fit map to show all markers
-    if (cafes.length > 0) {
+    // Fit map to show all markers, or the whole city when none match
+    if (visibleCafes.length === 0) {
+      map.current.fitBounds(city.bounds, { padding: 40 });
+    } else {
       const bounds = new mapboxgl.LngLatBounds();
-      cafes.forEach(cafe => {
+      visibleCafes.forEach(cafe => {
         if (cafe.latitude && cafe.longitude) {
           bounds.extend([cafe.longitude, cafe.latitude]);
         }
@@ -264,13 +287,27 @@ export default function Map() {
         maxZoom: 14
       });
     }
-  }, [cafes, isLoading, loadingCafes]);
+  }, [cafes.length, visibleCafes, city, isLoading, loadingCafes]);
 
   return (
     <div className="relative w-full h-full bg-white">
       {/* Map Container */}
       <div ref={mapContainer} className="w-full h-full" />
 
+      {/* City switcher and filters, shared with the download */}
+      {!isLoading && !hasError && (
+        <MapFilters
+          city={city}
+          onCityChange={(next) => {
+            setSelectedCafe(null);
+            setCity(next);
+          }}
+          filters={filters}
+          onChange={setFilters}
+          visibleCafes={visibleCafes}
+        />
+      )}
+
       {/* Full Cafe Details Sidebar (Left) */}
       {selectedCafe && (
         <CafePopup
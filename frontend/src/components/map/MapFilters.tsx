@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Clock, Download } from 'lucide-react';
+import { type Cafe } from '../../services/api';
+import { exportCafes, type CafeFilters, type ExportFormat } from '../../../../shared/cafe-export';
+import { CITIES, findCity, type City } from '../../../../shared/cities';
+
+interface MapFiltersProps {
+  city: City;
+  onCityChange: (city: City) => void;
+  filters: CafeFilters;
+  onChange: (filters: CafeFilters) => void;
+  visibleCafes: Cafe[];   // What the map shows, and so what gets downloaded
+}
+
+const MIN_SCORE_OPTIONS = [2.5, 3.5, 4, 4.5];
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  geojson: 'GeoJSON (QGIS, Mapbox)',
+  csv: 'CSV (spreadsheets)',
+  kml: 'KML (Google Earth)',
+};
+
+function downloadFile(cafes: Cafe[], format: ExportFormat, city: City) {
+  const file = exportCafes(cafes, format, `Cafe Compass - ${city.name}`);
+
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `cafe-compass-${city.id}.${file.extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function MapFilters({ city, onCityChange, filters, onChange, visibleCafes }: MapFiltersProps) {
+  const [showFormats, setShowFormats] = useState(false);
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 bg-white rounded-full shadow-lg border border-gray-100 px-3 py-1.5 text-sm">
+      <select
+        value={city.id}
+        onChange={(e) => onCityChange(findCity(e.target.value) || city)}
+        className="bg-transparent font-semibold text-gray-900 focus:outline-none cursor-pointer"
+        aria-label="City"
+      >
+        {CITIES.map(option => (
+          <option key={option.id} value={option.id}>{option.name}</option>
+        ))}
+      </select>
+
+      <select
+        value={filters.minWorkScore ?? ''}
+        onChange={(e) => onChange({ ...filters, minWorkScore: e.target.value ? Number(e.target.value) : undefined })}
+        className="bg-transparent text-gray-700 focus:outline-none cursor-pointer"
+        aria-label="Minimum work score"
+      >
+        <option value="">Any work score</option>
+        {MIN_SCORE_OPTIONS.map(score => (
+          <option key={score} value={score}>{score.toFixed(1)}+</option>
+        ))}
+      </select>
+
+      <button
+        onClick={() => onChange({ ...filters, openNow: !filters.openNow || undefined })}
+        className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full transition-colors ${
+          filters.openNow ? 'bg-green-100 text-green-800' : 'text-gray-700 hover:bg-gray-100'
+        }`}
+        aria-pressed={!!filters.openNow}
+      >
+        <Clock className="w-3.5 h-3.5" />
+        Open now
+      </button>
+
+      <span className="text-gray-400 whitespace-nowrap">{visibleCafes.length} cafes</span>
+
+      {/* Download the cafes currently on the map */}
+      <div className="relative">
+        <button
+          onClick={() => setShowFormats(!showFormats)}
+          disabled={visibleCafes.length === 0}
+          className="p-1.5 rounded-full text-gray-700 hover:bg-gray-100 disabled:opacity-40 transition-colors"
+          aria-label="Download cafes"
+          title="Download these cafes"
+        >
+          <Download className="w-4 h-4" />
+        </button>
+
+        {showFormats && (
+          <div className="absolute right-0 top-full mt-2 w-52 bg-white rounded-lg shadow-lg border border-gray-100 py-1">
+            {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => {
+                  downloadFile(visibleCafes, format, city);
+                  setShowFormats(false);
+                }}
+                className="block w-full text-left px-3 py-1.5 text-gray-700 hover:bg-gray-50"
+              >
+                {FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import { useAuth } from '../contexts/AuthContext';
 import { useFavorites } from '../contexts/FavoritesContext';
-import { Heart, MapPin, Star, ExternalLink } from 'lucide-react';
+import { Heart, MapPin, Star, ExternalLink, Plus, Minus } from 'lucide-react';
 import { motion } from 'framer-motion';
 import CafeCompassLogo from '../assets/cafe-compass-logo.png';
+import { CafeCover } from '../components/cafe/CafePhotoFallback';
 export function MyCafes() {
   const { user } = useAuth();
   const { favoriteCafes, loading, toggleFavorite } = useFavorites();
@@ -95,20 +96,8 @@ export function MyCafes() {
                     </button>
 
                     {/* Cafe Image or Placeholder */}
-                    <div className="h-48 bg-gray-100 flex items-center justify-center overflow-hidden">
-                        {cafe.image_url ? (
-                            <img
-                                src={cafe.image_url}
-                                alt={cafe.name}
-                                className="w-full h-full object-cover"
-                                onError={(e) => {
-                                    // fallback to placeholder if image fails to load
-                                    e.currentTarget.style.display = 'none';
-                                }}
-                            />
-                        ) : (
-                            <div className="text-sm text-gray-500 px-4">No image available</div>
-                        )}
+                    <div className="h-48 overflow-hidden">
+                        <CafeCover name={cafe.name} imageUrl={cafe.image_url} className="w-full h-full" />
                     </div>
 
                     {/* Cafe Info */}
@@ -145,6 +134,24 @@ export function MyCafes() {
                             <p className="text-sm text-gray-600 mb-3 line-clamp-2">"{cafe.summary}"</p>
                         )}
 
+                        {/* The top points either way; the full lists are in the cafe's details */}
+                        {(cafe.pros.length > 0 || cafe.cons.length > 0) && (
+                            <ul className="text-xs space-y-0.5 mb-3">
+                                {cafe.pros.slice(0, 2).map(point => (
+                                    <li key={point} className="flex items-center gap-1 text-green-700">
+                                        <Plus className="w-3 h-3 flex-shrink-0" />
+                                        {point}
+                                    </li>
+                                ))}
+                                {cafe.cons.slice(0, 2).map(point => (
+                                    <li key={point} className="flex items-center gap-1 text-rose-500">
+                                        <Minus className="w-3 h-3 flex-shrink-0" />
+                                        {point}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
                         <a
                             href={`https://www.google.com/maps/place/?q=place_id:${cafe.google_place_id}`}
                             target="_blank"
@@ -1,5 +1,7 @@
 // frontend/src/services/api.ts
 import { createClient } from '@supabase/supabase-js';
+import { normalizeOpeningHours, type OpeningHours } from '../../../shared/opening-hours';
+import { type City } from '../../../shared/cities';
 
 const supabaseUrl = import.meta.env.VITE_PUBLIC_SUPABASE_URL;
 const supabaseKey = import.meta.env.VITE_PUBLIC_SUPABASE_KEY;
@@ -16,6 +18,8 @@ if (!supabaseUrl || !supabaseKey) {
 export const supabase = createClient(supabaseUrl, supabaseKey);
 
 // Types
+export type Confidence = 'high' | 'medium' | 'low';
+
 export interface Cafe {
   id: string;
   name: string;
@@ -23,19 +27,141 @@ export interface Cafe {
   city: string;
   latitude: number;
   longitude: number;
-  work_score: number | null;
+  work_score: number | null;       // Calibrated within the city when it has been (4.5 = top 10%), raw otherwise
+  work_score_raw: number | null;   // As the scorer gave it
   wifi_quality: number | null;
   noise_level: number | null;
+  outlet_availability: number | null;
+  seating_comfort: number | null;
+  lighting_quality: number | null;
   summary: string | null;
+  summary_localized: string | null;   // The summary in the city's language, outside English-speaking cities
+  summary_language: string | null;
+  tagline: string | null;        // A few words, for map tooltips
+  summary_long: string | null;   // A paragraph, for the details view
+  pros: string[];                // Short points for remote workers, for and against
+  cons: string[];
+  confidence: Confidence | null;            // null for cafes scored before confidence was kept
+  supporting_review_count: number | null;   // Work-related reviews behind the scores
+  evidence: string[];                       // Review quotes behind the scores
   review_count: number | null;
   google_place_id: string;
   google_maps_url: string | null;
   google_rating: number | null;
-  opening_hours: Record<string, string> | null;
+  opening_hours: OpeningHours | null;
   image_url: string | null;
   last_updated: string;
 }
 
+export interface PhotoAttribution {
+  display_name: string;
+  uri?: string;
+}
+
+// A photo mirrored into our own storage by the processor (cafe_photos)
+export interface CafePhoto {
+  url: string;
+  width: number | null;
+  height: number | null;
+  attributions: PhotoAttribution[];
+}
+
+export interface ScoreSnapshot {
+  analyzed_at: string;
+  work_score: number | null;      // As the popup showed it: calibrated where the city was, raw otherwise
+  work_score_raw: number | null;
+  calibrated: boolean;
+  wifi_quality: number | null;
+  noise_level: number | null;
+  confidence: string | null;
+  review_count: number | null;
+  scorer: string | null;
+  scorer_version: string | null;
+}
+
+export type TrendMetric = 'work_score' | 'wifi_quality' | 'noise_level';
+export type TrendDirection = 'better' | 'worse' | 'steady';
+
+export interface MetricTrend {
+  metric: TrendMetric;
+  from: number;
+  to: number;
+  since: string;
+  direction: TrendDirection; // Better or worse for working, not just up or down
+  label: string;             // e.g. "WiFi dropped from 4.2 to 2.8 since spring"
+}
+
+export interface ScoreTrend {
+  snapshots: ScoreSnapshot[];
+  metrics: MetricTrend[];
+  overall: TrendDirection | 'unknown';
+}
+
+// Changes smaller than this are treated as noise between analyses
+const TREND_THRESHOLD = 0.3;
+
+const TREND_METRICS: { metric: TrendMetric; name: string; lowerIsBetter: boolean }[] = [
+  { metric: 'work_score', name: 'Work score', lowerIsBetter: false },
+  { metric: 'wifi_quality', name: 'WiFi', lowerIsBetter: false },
+  { metric: 'noise_level', name: 'Noise', lowerIsBetter: true },
+];
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'string' ? parseFloat(value) : (value as number);
+}
+
+// "since spring" for the last year, "since Mar 2024" for anything older
+function describeSince(date: Date): string {
+  const monthsAgo = (Date.now() - date.getTime()) / (1000 * 60 * 60 * 24 * 30);
+  if (monthsAgo > 11) {
+    return `since ${date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}`;
+  }
+  const seasons = ['winter', 'winter', 'spring', 'spring', 'spring', 'summer', 'summer', 'summer', 'fall', 'fall', 'fall', 'winter'];
+  return `since ${seasons[date.getMonth()]}`;
+}
+
+function buildScoreTrend(snapshots: ScoreSnapshot[]): ScoreTrend {
+  if (snapshots.length < 2) {
+    return { snapshots, metrics: [], overall: 'unknown' };
+  }
+
+  const first = snapshots[0];
+  const latest = snapshots[snapshots.length - 1];
+  const since = describeSince(new Date(first.analyzed_at));
+
+  const metrics = TREND_METRICS.flatMap(({ metric, name, lowerIsBetter }) => {
+    const from = first[metric];
+    const to = latest[metric];
+    // Nothing to compare when a score wasn't mentioned: null, or 0 for wifi (0 noise is silent)
+    if (from === null || to === null) return [];
+    if (metric === 'wifi_quality' && (from === 0 || to === 0)) return [];
+    // A raw and a calibrated work score aren't on the same scale
+    if (metric === 'work_score' && first.calibrated !== latest.calibrated) return [];
+
+    const change = to - from;
+    const improved = lowerIsBetter ? change < 0 : change > 0;
+    const direction: TrendDirection = Math.abs(change) < TREND_THRESHOLD ? 'steady' : improved ? 'better' : 'worse';
+    const verb = direction === 'steady' ? 'held at' : change > 0 ? 'rose from' : 'dropped from';
+    const label = direction === 'steady'
+      ? `${name} ${verb} ${to.toFixed(1)} ${since}`
+      : `${name} ${verb} ${from.toFixed(1)} to ${to.toFixed(1)} ${since}`;
+
+    return [{ metric, from, to, since: first.analyzed_at, direction, label }];
+  });
+
+  // The work score is the headline; fall back to the other metrics without it
+  const headline = metrics.find(m => m.metric === 'work_score');
+  let overall: ScoreTrend['overall'] = headline ? headline.direction : 'unknown';
+  if (!headline && metrics.length > 0) {
+    const better = metrics.filter(m => m.direction === 'better').length;
+    const worse = metrics.filter(m => m.direction === 'worse').length;
+    overall = better > worse ? 'better' : worse > better ? 'worse' : 'steady';
+  }
+
+  return { snapshots, metrics, overall };
+}
+
 // Helper function to transform raw cafe data to match our interface
 function transformCafeData(rawCafe: any): Cafe {
   return {
@@ -45,18 +171,30 @@ function transformCafeData(rawCafe: any): Cafe {
     city: rawCafe.city,
     latitude: typeof rawCafe.latitude === 'string' ? parseFloat(rawCafe.latitude) : rawCafe.latitude,
     longitude: typeof rawCafe.longitude === 'string' ? parseFloat(rawCafe.longitude) : rawCafe.longitude,
-    work_score: typeof rawCafe.work_score === 'string' ? parseFloat(rawCafe.work_score) : rawCafe.work_score,
+    work_score: toNumberOrNull(rawCafe.work_score_calibrated ?? rawCafe.work_score),
+    work_score_raw: toNumberOrNull(rawCafe.work_score),
     wifi_quality: typeof rawCafe.wifi_quality === 'string' ? parseFloat(rawCafe.wifi_quality) : rawCafe.wifi_quality,
     noise_level: typeof rawCafe.noise_level === 'string' ? parseFloat(rawCafe.noise_level) : rawCafe.noise_level,
+    outlet_availability: typeof rawCafe.outlet_availability === 'string' ? parseFloat(rawCafe.outlet_availability) : rawCafe.outlet_availability ?? null,
+    seating_comfort: typeof rawCafe.seating_comfort === 'string' ? parseFloat(rawCafe.seating_comfort) : rawCafe.seating_comfort ?? null,
+    lighting_quality: typeof rawCafe.lighting_quality === 'string' ? parseFloat(rawCafe.lighting_quality) : rawCafe.lighting_quality ?? null,
     summary: rawCafe.summary,
+    summary_localized: rawCafe.summary_localized ?? null,
+    summary_language: rawCafe.summary_language ?? null,
+    tagline: rawCafe.tagline ?? null,
+    summary_long: rawCafe.summary_long ?? null,
+    pros: Array.isArray(rawCafe.pros) ? rawCafe.pros : [],
+    cons: Array.isArray(rawCafe.cons) ? rawCafe.cons : [],
+    confidence: ['high', 'medium', 'low'].includes(rawCafe.confidence) ? rawCafe.confidence : null,
+    supporting_review_count: rawCafe.supporting_review_count ?? null,
+    evidence: Array.isArray(rawCafe.evidence) ? rawCafe.evidence : [],
     review_count: rawCafe.review_count,
     google_place_id: rawCafe.google_place_id,
     google_maps_url: rawCafe.google_maps_url,
     google_rating: typeof rawCafe.google_rating === 'string' ? parseFloat(rawCafe.google_rating) : rawCafe.google_rating,
-    opening_hours: typeof rawCafe.opening_hours === 'string' 
-      ? JSON.parse(rawCafe.opening_hours) 
-      : rawCafe.opening_hours,
-    image_url: rawCafe.image_url,
+    opening_hours: normalizeOpeningHours(rawCafe.opening_hours),
+    // Rows written before photo mirroring hold Google URLs that carry the API key
+    image_url: rawCafe.image_url?.includes('places.googleapis.com') ? null : rawCafe.image_url,
     last_updated: rawCafe.last_updated || rawCafe.created_at
   };
 }
@@ -68,7 +206,7 @@ export const cafeApi = {
     const { data, error } = await supabase
       .from('cafes')
       .select('*')
-      .order('work_score', { ascending: false, nullsFirst: false });
+      .order('work_score_shown', { ascending: false, nullsFirst: false });
 
     if (error) {
       console.error('Error fetching cafes:', error);
@@ -78,13 +216,15 @@ export const cafeApi = {
     return (data || []).map(transformCafeData);
   },
 
-  // Get cafes by city
-  async getCafesByCity(city: string): Promise<Cafe[]> {
+  // Get cafes filed under a registry city, or anywhere inside its bounds
+  // (rows imported before the registry may name a borough instead)
+  async getCafesByCity(city: City): Promise<Cafe[]> {
+    const [[west, south], [east, north]] = city.bounds;
     const { data, error } = await supabase
       .from('cafes')
       .select('*')
-      .eq('city', city)
-      .order('work_score', { ascending: false, nullsFirst: false });
+      .or(`city.eq."${city.name}",and(latitude.gte.${south},latitude.lte.${north},longitude.gte.${west},longitude.lte.${east})`)
+      .order('work_score_shown', { ascending: false, nullsFirst: false });
 
     if (error) throw error;
     return (data || []).map(transformCafeData);
@@ -121,13 +261,60 @@ export const cafeApi = {
     return (data || []).map(transformCafeData);
   },
 
+  // Get how a cafe's scores have moved over the analyses since `since` (default: last year)
+  async getScoreTrend(cafeId: string, since?: Date): Promise<ScoreTrend> {
+    const from = since || new Date(Date.now() - 365 * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await supabase
+      .from('cafe_score_snapshots')
+      .select('analyzed_at, work_score, work_score_calibrated, wifi_quality, noise_level, confidence, review_count, scorer, scorer_version')
+      .eq('cafe_id', cafeId)
+      .gte('analyzed_at', from.toISOString())
+      .order('analyzed_at', { ascending: true });
+
+    if (error) throw error;
+
+    const snapshots = (data || []).map((row: Record<string, unknown>) => ({
+      ...row,
+      work_score: toNumberOrNull(row.work_score_calibrated ?? row.work_score),
+      work_score_raw: toNumberOrNull(row.work_score),
+      calibrated: row.work_score_calibrated !== null && row.work_score_calibrated !== undefined,
+      wifi_quality: toNumberOrNull(row.wifi_quality),
+      noise_level: toNumberOrNull(row.noise_level),
+    }) as ScoreSnapshot);
+    return buildScoreTrend(snapshots);
+  },
+
+  // Get a cafe's photos in gallery order. Cafes mirrored before cafe_photos
+  // existed fall back to their single image_url.
+  async getCafePhotos(cafe: Pick<Cafe, 'id' | 'image_url'>): Promise<CafePhoto[]> {
+    const { data, error } = await supabase
+      .from('cafe_photos')
+      .select('url, width, height, attributions')
+      .eq('cafe_id', cafe.id)
+      .order('position', { ascending: true });
+
+    if (error) throw error;
+
+    const photos = (data || []).map((row: Record<string, unknown>) => ({
+      url: row.url as string,
+      width: toNumberOrNull(row.width),
+      height: toNumberOrNull(row.height),
+      attributions: Array.isArray(row.attributions) ? row.attributions as PhotoAttribution[] : [],
+    }));
+    if (photos.length === 0 && cafe.image_url) {
+      return [{ url: cafe.image_url, width: null, height: null, attributions: [] }];
+    }
+    return photos;
+  },
+
   // Search cafes by name
   async searchCafes(query: string): Promise<Cafe[]> {
     const { data, error } = await supabase
       .from('cafes')
       .select('*')
       .ilike('name', `%${query}%`)
-      .order('work_score', { ascending: false, nullsFirst: false });
+      .order('work_score_shown', { ascending: false, nullsFirst: false });
 
     if (error) throw error;
     return (data || []).map(transformCafeData);
@@ -12,4 +12,9 @@ export default defineConfig({
     },
   },
   envDir: '../', // Look for .env files in the parent directory (root)
+  server: {
+    fs: {
+      allow: ['..'], // Serve ../shared, which the backend also imports
+    },
+  },
 })
\ No newline at end of file
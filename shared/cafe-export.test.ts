@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EXPORT_COLUMNS, exportCafes, filterCafes, toCSV, toGeoJSON, toKML, type ExportCafe } from './cafe-export';
+import { parseWeekdayDescriptions } from './opening-hours';
+
+// Monday 19 October 2026, 10 AM in Toronto (EDT)
+const MONDAY_MORNING = new Date('2026-10-19T10:00:00-04:00');
+
+const cafe = (overrides: Partial<ExportCafe> = {}): ExportCafe => ({
+  id: 'cafe-1',
+  name: 'Pilot Coffee',
+  address: '983 Queen St E, Toronto',
+  city: 'Toronto',
+  latitude: 43.661,
+  longitude: -79.338,
+  work_score: 4.2,
+  wifi_quality: 4,
+  noise_level: 2.5,
+  outlet_availability: 3,
+  seating_comfort: 4,
+  lighting_quality: 4.5,
+  google_rating: 4.6,
+  review_count: 40,
+  summary: 'Bright, quiet mornings',
+  opening_hours: parseWeekdayDescriptions(['Monday: 7:00 AM – 5:00 PM', 'Sunday: Closed']),
+  google_maps_url: 'https://www.google.com/maps/place/?q=place_id:ChIJ1',
+  google_place_id: 'ChIJ1',
+  ...overrides,
+});
+
+describe('filterCafes', () => {
+  const cafes = [
+    cafe(),
+    cafe({ id: 'cafe-2', city: 'Montreal', work_score: 4.8 }),
+    cafe({ id: 'cafe-3', work_score: 2.1, opening_hours: null }),
+    cafe({ id: 'cafe-4', work_score: null }),
+  ];
+  const ids = (filtered: ExportCafe[]) => filtered.map(c => c.id);
+
+  it('matches the city case-insensitively', () => {
+    assert.deepEqual(ids(filterCafes(cafes, { city: 'toronto' })), ['cafe-1', 'cafe-3', 'cafe-4']);
+  });
+
+  it('drops unscored cafes under a minimum work score', () => {
+    assert.deepEqual(ids(filterCafes(cafes, { minWorkScore: 4 })), ['cafe-1', 'cafe-2']);
+  });
+
+  it('treats cafes without hours as closed', () => {
+    assert.deepEqual(ids(filterCafes(cafes, { openNow: true }, MONDAY_MORNING)), ['cafe-1', 'cafe-2', 'cafe-4']);
+    assert.deepEqual(ids(filterCafes(cafes, { openNow: true }, new Date('2026-10-18T10:00:00-04:00'))), []);
+  });
+});
+
+describe('toGeoJSON', () => {
+  it('puts longitude first and flattens the hours', () => {
+    const { features } = toGeoJSON([cafe()]);
+    assert.deepEqual(features[0].geometry.coordinates, [-79.338, 43.661]);
+    assert.equal(features[0].properties.hours, 'Mon 7:00 AM - 5:00 PM; Sun Closed');
+  });
+
+  it('leaves out cafes without coordinates', () => {
+    assert.equal(toGeoJSON([cafe({ latitude: NaN })]).features.length, 0);
+  });
+});
+
+describe('toCSV', () => {
+  it('writes a header row and quotes fields that need it', () => {
+    const lines = toCSV([cafe({ summary: 'Fast "fibre", lots of outlets', review_count: null })]).split('\r\n');
+    assert.equal(lines[0], EXPORT_COLUMNS.join(','));
+    assert.ok(lines[1].startsWith('cafe-1,Pilot Coffee,"983 Queen St E, Toronto",Toronto,'));
+    // Null review count, then the quoted summary
+    assert.ok(lines[1].includes(',4.6,,"Fast ""fibre"", lots of outlets",'));
+    assert.equal(lines[2], '');
+  });
+});
+
+describe('toKML', () => {
+  it('escapes XML and writes lng,lat coordinates', () => {
+    const kml = toKML([cafe({ name: 'Bread & Butter <Cafe>' })]);
+    assert.match(kml, /<name>Bread &amp; Butter &lt;Cafe&gt;<\/name>/);
+    assert.match(kml, /<coordinates>-79.338,43.661<\/coordinates>/);
+    assert.match(kml, /<Data name="work_score"><value>4.2<\/value><\/Data>/);
+  });
+});
+
+describe('exportCafes', () => {
+  it('names the file type for each format', () => {
+    assert.equal(exportCafes([cafe()], 'geojson').extension, 'geojson');
+    assert.equal(exportCafes([cafe()], 'csv').mimeType, 'text/csv');
+    assert.equal(JSON.parse(exportCafes([cafe()], 'geojson').content).type, 'FeatureCollection');
+  });
+});
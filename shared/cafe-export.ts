@@ -0,0 +1,201 @@
+// Dataset export shared by the processor ("npm run process export") and the
+// Discover page's download button, so partners get the same files from both.
+// GeoJSON, CSV and KML all carry the same flat columns, which is what GIS
+// tools like QGIS load without any field mapping.
+
+import { createHoursSchedule, WEEKDAYS, type OpeningHours } from './opening-hours';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+// The columns an export needs; the frontend's Cafe type satisfies it as is
+export interface ExportCafe {
+  id: string;
+  name: string;
+  address: string;
+  city: string;
+  latitude: number;
+  longitude: number;
+  work_score: number | null;
+  wifi_quality: number | null;
+  noise_level: number | null;
+  outlet_availability: number | null;
+  seating_comfort: number | null;
+  lighting_quality: number | null;
+  google_rating: number | null;
+  review_count: number | null;
+  summary: string | null;
+  opening_hours: OpeningHours | null;
+  google_maps_url: string | null;
+  google_place_id: string;
+}
+
+// The Discover map's filters
+export interface CafeFilters {
+  city?: string;
+  minWorkScore?: number;
+  openNow?: boolean;
+}
+
+export type ExportFormat = 'geojson' | 'csv' | 'kml';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['geojson', 'csv', 'kml'];
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+type ExportValue = string | number | null;
+
+// =====================================================
+// FILTERING
+// =====================================================
+
+// Cafes without hours never count as open now
+export function filterCafes<T extends ExportCafe>(cafes: T[], filters: CafeFilters, now = new Date()): T[] {
+  return cafes.filter(cafe =>
+    (!filters.city || cafe.city?.toLowerCase() === filters.city.toLowerCase()) &&
+    (filters.minWorkScore === undefined || (cafe.work_score !== null && cafe.work_score >= filters.minWorkScore)) &&
+    (!filters.openNow || (cafe.opening_hours !== null && createHoursSchedule(cafe.opening_hours).isOpenAt(now)))
+  );
+}
+
+// =====================================================
+// COLUMNS
+// =====================================================
+
+// "Mon 7:30 AM - 5:00 PM; Tue ...", Monday first like Google shows it
+function formatHours(hours: OpeningHours | null): string | null {
+  if (!hours) return null;
+  const days = [...WEEKDAYS.slice(1), WEEKDAYS[0]]
+    .filter(weekday => hours.weekday_text[weekday])
+    .map(weekday => `${weekday.charAt(0).toUpperCase()}${weekday.slice(1, 3)} ${hours.weekday_text[weekday]}`);
+  return days.length > 0 ? days.join('; ') : null;
+}
+
+// Column order of the CSV and of every feature's properties
+export const EXPORT_COLUMNS = [
+  'id', 'name', 'address', 'city', 'latitude', 'longitude',
+  'work_score', 'wifi_quality', 'noise_level', 'outlet_availability', 'seating_comfort', 'lighting_quality',
+  'google_rating', 'review_count', 'summary', 'hours', 'google_maps_url', 'google_place_id',
+] as const;
+
+type ExportColumn = typeof EXPORT_COLUMNS[number];
+
+function exportRow(cafe: ExportCafe): Record<ExportColumn, ExportValue> {
+  return {
+    id: cafe.id,
+    name: cafe.name,
+    address: cafe.address,
+    city: cafe.city,
+    latitude: cafe.latitude,
+    longitude: cafe.longitude,
+    work_score: cafe.work_score,
+    wifi_quality: cafe.wifi_quality,
+    noise_level: cafe.noise_level,
+    outlet_availability: cafe.outlet_availability,
+    seating_comfort: cafe.seating_comfort,
+    lighting_quality: cafe.lighting_quality,
+    google_rating: cafe.google_rating,
+    review_count: cafe.review_count,
+    summary: cafe.summary,
+    hours: formatHours(cafe.opening_hours),
+    google_maps_url: cafe.google_maps_url,
+    google_place_id: cafe.google_place_id,
+  };
+}
+
+// Cafes without coordinates can't be placed on a map, so no format gets them
+function mappable(cafes: ExportCafe[]): ExportCafe[] {
+  return cafes.filter(cafe => Number.isFinite(cafe.latitude) && Number.isFinite(cafe.longitude));
+}
+
+// =====================================================
+// FORMATS
+// =====================================================
+
+// RFC 7946: coordinates are [longitude, latitude]
+export function toGeoJSON(cafes: ExportCafe[]) {
+  return {
+    type: 'FeatureCollection' as const,
+    features: mappable(cafes).map(cafe => ({
+      type: 'Feature' as const,
+      id: cafe.id,
+      geometry: { type: 'Point' as const, coordinates: [cafe.longitude, cafe.latitude] },
+      properties: exportRow(cafe),
+    })),
+  };
+}
+
+// RFC 4180: quote fields containing commas, quotes or line breaks
+function csvField(value: ExportValue): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCSV(cafes: ExportCafe[]): string {
+  const rows = mappable(cafes).map(exportRow);
+  return [[...EXPORT_COLUMNS], ...rows.map(row => EXPORT_COLUMNS.map(column => csvField(row[column])))]
+    .map(fields => fields.join(','))
+    .join('\r\n') + '\r\n';
+}
+
+function xml(value: ExportValue): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function toKML(cafes: ExportCafe[], title = 'Cafe Compass'): string {
+  const placemarks = mappable(cafes).map(cafe => {
+    const row = exportRow(cafe);
+    const data = Object.entries(row)
+      .filter(([, value]) => value !== null)
+      .map(([name, value]) => `        <Data name="${name}"><value>${xml(value)}</value></Data>`)
+      .join('\n');
+    const description = [
+      cafe.work_score !== null ? `Work score: ${cafe.work_score}/5` : null,
+      cafe.summary,
+      row.hours,
+    ].filter(Boolean).join('\n');
+
+    return [
+      '    <Placemark>',
+      `      <name>${xml(cafe.name)}</name>`,
+      `      <description>${xml(description)}</description>`,
+      '      <ExtendedData>',
+      data,
+      '      </ExtendedData>',
+      `      <Point><coordinates>${cafe.longitude},${cafe.latitude}</coordinates></Point>`,
+      '    </Placemark>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${xml(title)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+export function exportCafes(cafes: ExportCafe[], format: ExportFormat, title?: string): ExportFile {
+  switch (format) {
+    case 'geojson':
+      return { content: JSON.stringify(toGeoJSON(cafes), null, 2) + '\n', mimeType: 'application/geo+json', extension: 'geojson' };
+    case 'csv':
+      return { content: toCSV(cafes), mimeType: 'text/csv', extension: 'csv' };
+    case 'kml':
+      return { content: toKML(cafes, title), mimeType: 'application/vnd.google-earth.kml+xml', extension: 'kml' };
+  }
+}
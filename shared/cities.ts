@@ -0,0 +1,76 @@
+// Cities we cover, shared by the processor (scraping region and language,
+// scoring prompt, opening-hours timezone) and the frontend (map position,
+// city switcher). cafes.city holds a registry `name`; adding a city here is
+// all it takes to start importing it.
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface City {
+  id: string;                                 // URL-safe key, e.g. "toronto"
+  name: string;                               // As stored in cafes.city
+  region: string;                             // ISO 3166-1 country code for Google and Outscraper
+  language: string;                           // Main review language (ISO 639-1)
+  timezone: string;                           // IANA name for opening hours
+  center: [number, number];                   // [longitude, latitude], as Mapbox takes it
+  zoom: number;
+  bounds: [[number, number], [number, number]];   // [[west, south], [east, north]]
+}
+
+// =====================================================
+// REGISTRY
+// =====================================================
+
+export const CITIES: City[] = [
+  {
+    id: 'toronto',
+    name: 'Toronto',
+    region: 'CA',
+    language: 'en',
+    timezone: 'America/Toronto',
+    center: [-79.3832, 43.6532],
+    zoom: 12,
+    bounds: [[-79.6393, 43.5810], [-79.1152, 43.8555]],
+  },
+  {
+    id: 'montreal',
+    name: 'Montreal',
+    region: 'CA',
+    language: 'fr',
+    timezone: 'America/Toronto',
+    center: [-73.5673, 45.5017],
+    zoom: 12,
+    bounds: [[-73.9860, 45.4100], [-73.4740, 45.7050]],
+  },
+  {
+    id: 'vancouver',
+    name: 'Vancouver',
+    region: 'CA',
+    language: 'en',
+    timezone: 'America/Vancouver',
+    center: [-123.1207, 49.2827],
+    zoom: 12,
+    bounds: [[-123.2247, 49.1985], [-123.0232, 49.3163]],
+  },
+];
+
+export const DEFAULT_CITY = CITIES[0];
+
+// =====================================================
+// LOOKUP
+// =====================================================
+
+// By id or name, ignoring case and accents ("montréal" finds Montreal)
+export function findCity(nameOrId: string | null | undefined): City | null {
+  if (!nameOrId) return null;
+  const key = nameOrId.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+  return CITIES.find(city => city.id === key || city.name.toLowerCase() === key) ?? null;
+}
+
+// The registered city whose bounds contain the point, if any
+export function cityAt(latitude: number, longitude: number): City | null {
+  return CITIES.find(({ bounds: [[west, south], [east, north]] }) =>
+    longitude >= west && longitude <= east && latitude >= south && latitude <= north
+  ) ?? null;
+}
@@ -0,0 +1,270 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildOpeningHours,
+  createHoursSchedule,
+  MINUTES_PER_DAY,
+  normalizeOpeningHours,
+  parseDayHours,
+  parseWeekdayDescriptions,
+} from './opening-hours';
+
+// Week of Sunday 18 October 2026; Toronto is on EDT (UTC-4) all week
+const toronto = (local: string) => new Date(`${local}-04:00`);
+const SUNDAY = '2026-10-18';
+const MONDAY = '2026-10-19';
+const FRIDAY = '2026-10-23';
+const SATURDAY = '2026-10-24';
+
+const NNBSP = '\u202f';
+const THIN = '\u2009';
+
+const googleWeek = (hours: string) => [
+  `Monday: ${hours}`, `Tuesday: ${hours}`, `Wednesday: ${hours}`, `Thursday: ${hours}`,
+  `Friday: ${hours}`, `Saturday: ${hours}`, `Sunday: ${hours}`,
+];
+
+describe('parseDayHours', () => {
+  it('parses a simple range', () => {
+    assert.deepEqual(parseDayHours('7:30 AM – 5:00 PM'), [{ start: 450, end: 1020 }]);
+  });
+
+  it('handles the narrow no-break and thin spaces Google emits', () => {
+    assert.deepEqual(
+      parseDayHours(`7:30${NNBSP}AM${THIN}–${THIN}5:00${NNBSP}PM`),
+      [{ start: 450, end: 1020 }]
+    );
+  });
+
+  it('runs overnight ranges past midnight', () => {
+    assert.deepEqual(parseDayHours('8:00 PM – 2:00 AM'), [{ start: 1200, end: 1560 }]);
+  });
+
+  it('treats a closing time of 12:00 AM as midnight at the end of the day', () => {
+    assert.deepEqual(parseDayHours('6:00 PM – 12:00 AM'), [{ start: 1080, end: MINUTES_PER_DAY }]);
+  });
+
+  it('parses "Open 24 hours"', () => {
+    assert.deepEqual(parseDayHours('Open 24 hours'), [{ start: 0, end: MINUTES_PER_DAY }]);
+  });
+
+  it('parses "Closed" as no intervals', () => {
+    assert.deepEqual(parseDayHours('Closed'), []);
+  });
+
+  it('parses several ranges on one day', () => {
+    assert.deepEqual(parseDayHours('8:00 AM – 2:00 PM, 5:00 – 10:00 PM'), [
+      { start: 480, end: 840 },
+      { start: 1020, end: 1320 },
+    ]);
+  });
+
+  it('infers a missing meridiem from the closing time', () => {
+    assert.deepEqual(parseDayHours('5:00 – 10:00 PM'), [{ start: 1020, end: 1320 }]);
+    assert.deepEqual(parseDayHours('11:00 – 2:00 PM'), [{ start: 660, end: 840 }]);
+  });
+
+  it('parses 24-hour times', () => {
+    assert.deepEqual(parseDayHours('07:00–18:00'), [{ start: 420, end: 1080 }]);
+    assert.deepEqual(parseDayHours('7h30 – 17h00'), [{ start: 450, end: 1020 }]);
+  });
+
+  it('parses hours without minutes', () => {
+    assert.deepEqual(parseDayHours('8 AM – 4 PM'), [{ start: 480, end: 960 }]);
+  });
+
+  it('returns null for text it cannot understand', () => {
+    assert.equal(parseDayHours('Hours might differ'), null);
+    assert.equal(parseDayHours('13:00 PM – 5:00 PM'), null);
+  });
+});
+
+describe('parseWeekdayDescriptions', () => {
+  it('places each day at its offset from Sunday midnight', () => {
+    const hours = parseWeekdayDescriptions(['Monday: 9:00 AM – 5:00 PM', 'Sunday: 10:00 AM – 4:00 PM']);
+    assert.deepEqual(hours.intervals, [
+      { start: 600, end: 960 },
+      { start: MINUTES_PER_DAY + 540, end: MINUTES_PER_DAY + 1020 },
+    ]);
+    assert.equal(hours.timezone, 'America/Toronto');
+  });
+
+  it('keeps normalized display strings per weekday', () => {
+    const hours = parseWeekdayDescriptions([`Monday: 7:30${NNBSP}AM – 5:00${NNBSP}PM`, 'Tuesday: Closed']);
+    assert.deepEqual(hours.weekday_text, { monday: '7:30 AM - 5:00 PM', tuesday: 'Closed' });
+  });
+
+  it('keeps unparseable days for display but adds no intervals', () => {
+    const hours = parseWeekdayDescriptions(['Monday: ask the barista']);
+    assert.deepEqual(hours.intervals, []);
+    assert.equal(hours.weekday_text.monday, 'ask the barista');
+  });
+
+  it('uses the timezone it is given', () => {
+    assert.equal(parseWeekdayDescriptions([], 'America/Vancouver').timezone, 'America/Vancouver');
+  });
+});
+
+describe('normalizeOpeningHours', () => {
+  it('returns null for empty values', () => {
+    assert.equal(normalizeOpeningHours(null), null);
+    assert.equal(normalizeOpeningHours(''), null);
+    assert.equal(normalizeOpeningHours('not json'), null);
+    assert.equal(normalizeOpeningHours({}), null);
+  });
+
+  it('passes the stored shape through', () => {
+    const stored = buildOpeningHours({ monday: '9:00 AM – 5:00 PM' }, 'America/Montreal');
+    assert.deepEqual(normalizeOpeningHours(stored), stored);
+    assert.deepEqual(normalizeOpeningHours(JSON.stringify(stored)), stored);
+  });
+
+  it('converts legacy { weekday: text } rows', () => {
+    const hours = normalizeOpeningHours({ monday: '9:00 AM – 5:00 PM', tuesday: 'Closed' });
+    assert.deepEqual(hours?.intervals, [{ start: MINUTES_PER_DAY + 540, end: MINUTES_PER_DAY + 1020 }]);
+    assert.equal(hours?.timezone, 'America/Toronto');
+  });
+});
+
+describe('createHoursSchedule', () => {
+  const weekdays = createHoursSchedule(parseWeekdayDescriptions([
+    'Monday: 7:30 AM – 5:00 PM',
+    'Tuesday: 7:30 AM – 5:00 PM',
+    'Wednesday: 7:30 AM – 5:00 PM',
+    'Thursday: 7:30 AM – 5:00 PM',
+    'Friday: 7:30 AM – 5:00 PM, 8:00 PM – 2:00 AM',
+    'Saturday: 8:00 PM – 2:00 AM',
+    'Sunday: Closed',
+  ]));
+
+  describe('isOpenAt', () => {
+    it('is open inside a range and closed outside it', () => {
+      assert.equal(weekdays.isOpenAt(toronto(`${MONDAY}T12:00:00`)), true);
+      assert.equal(weekdays.isOpenAt(toronto(`${MONDAY}T07:29:59`)), false);
+      assert.equal(weekdays.isOpenAt(toronto(`${MONDAY}T07:30:00`)), true);
+    });
+
+    it('treats the closing minute as closed', () => {
+      assert.equal(weekdays.isOpenAt(toronto(`${MONDAY}T16:59:59`)), true);
+      assert.equal(weekdays.isOpenAt(toronto(`${MONDAY}T17:00:00`)), false);
+    });
+
+    it('stays open past midnight for overnight hours', () => {
+      assert.equal(weekdays.isOpenAt(toronto(`${FRIDAY}T23:30:00`)), true);
+      assert.equal(weekdays.isOpenAt(toronto(`${SATURDAY}T01:30:00`)), true);
+      assert.equal(weekdays.isOpenAt(toronto(`${SATURDAY}T02:00:00`)), false);
+    });
+
+    it('wraps Saturday night hours into Sunday morning', () => {
+      assert.equal(weekdays.isOpenAt(toronto(`${SUNDAY}T01:00:00`)), true);
+      assert.equal(weekdays.isOpenAt(toronto(`${SUNDAY}T12:00:00`)), false);
+    });
+
+    it('evaluates in the cafe timezone, not the caller\'s', () => {
+      // 16:30 UTC is 12:30 in Toronto on Monday
+      assert.equal(weekdays.isOpenAt(new Date(`${MONDAY}T16:30:00Z`)), true);
+      // 22:00 UTC is 18:00 in Toronto, after closing
+      assert.equal(weekdays.isOpenAt(new Date(`${MONDAY}T22:00:00Z`)), false);
+
+      const vancouver = createHoursSchedule(buildOpeningHours({ monday: '9:00 AM – 5:00 PM' }, 'America/Vancouver'));
+      // 12:30 in Toronto is 9:30 in Vancouver
+      assert.equal(vancouver.isOpenAt(toronto(`${MONDAY}T12:30:00`)), true);
+      assert.equal(vancouver.isOpenAt(toronto(`${MONDAY}T11:30:00`)), false);
+    });
+
+    it('is always closed without hours', () => {
+      assert.equal(createHoursSchedule(null).isOpenAt(toronto(`${MONDAY}T12:00:00`)), false);
+    });
+  });
+
+  describe('nextChange', () => {
+    it('finds the closing time while open', () => {
+      assert.deepEqual(weekdays.nextChange(toronto(`${MONDAY}T12:00:00`)), {
+        at: toronto(`${MONDAY}T17:00:00`),
+        opens: false,
+      });
+    });
+
+    it('finds the next opening while closed, skipping closed days', () => {
+      assert.deepEqual(weekdays.nextChange(toronto(`${SUNDAY}T12:00:00`)), {
+        at: toronto(`${MONDAY}T07:30:00`),
+        opens: true,
+      });
+    });
+
+    it('finds the second range of a split day', () => {
+      assert.deepEqual(weekdays.nextChange(toronto(`${FRIDAY}T18:00:00`)), {
+        at: toronto(`${FRIDAY}T20:00:00`),
+        opens: true,
+      });
+    });
+
+    it('finds an overnight closing after midnight', () => {
+      assert.deepEqual(weekdays.nextChange(toronto(`${FRIDAY}T22:00:00`)), {
+        at: toronto(`${SATURDAY}T02:00:00`),
+        opens: false,
+      });
+    });
+
+    it('counts from the exact instant, not the start of the minute', () => {
+      assert.deepEqual(weekdays.nextChange(toronto(`${MONDAY}T16:59:30.250`))?.at, toronto(`${MONDAY}T17:00:00`));
+    });
+
+    it('finds an opening on the following week', () => {
+      const mondaysOnly = createHoursSchedule(buildOpeningHours({ monday: '9:00 AM – 5:00 PM' }));
+      assert.deepEqual(mondaysOnly.nextChange(toronto(`${MONDAY}T18:00:00`)), {
+        at: toronto('2026-10-26T09:00:00'),
+        opens: true,
+      });
+    });
+
+    it('returns null for a cafe that never closes', () => {
+      const allDay = createHoursSchedule(parseWeekdayDescriptions(googleWeek('Open 24 hours')));
+      assert.equal(allDay.isOpenAt(toronto(`${SATURDAY}T23:59:00`)), true);
+      assert.equal(allDay.nextChange(toronto(`${MONDAY}T12:00:00`)), null);
+    });
+
+    it('returns null without hours', () => {
+      assert.equal(createHoursSchedule(null).nextChange(toronto(`${MONDAY}T12:00:00`)), null);
+    });
+
+    it('merges back-to-back days into one stretch', () => {
+      const weekend = createHoursSchedule(buildOpeningHours({ saturday: 'Open 24 hours', sunday: 'Open 24 hours' }));
+      assert.deepEqual(weekend.nextChange(toronto(`${SATURDAY}T12:00:00`)), {
+        at: toronto('2026-10-26T00:00:00'),
+        opens: false,
+      });
+    });
+  });
+
+  describe('closesIn', () => {
+    it('returns minutes until closing while open', () => {
+      assert.equal(weekdays.closesIn(toronto(`${MONDAY}T16:15:00`)), 45);
+    });
+
+    it('counts through midnight for overnight hours', () => {
+      assert.equal(weekdays.closesIn(toronto(`${FRIDAY}T23:00:00`)), 180);
+    });
+
+    it('returns null while closed', () => {
+      assert.equal(weekdays.closesIn(toronto(`${MONDAY}T18:00:00`)), null);
+    });
+
+    it('returns null for a cafe that never closes', () => {
+      const allDay = createHoursSchedule(parseWeekdayDescriptions(googleWeek('Open 24 hours')));
+      assert.equal(allDay.closesIn(toronto(`${MONDAY}T12:00:00`)), null);
+    });
+  });
+
+  describe('todayText', () => {
+    it('uses the weekday in the cafe timezone', () => {
+      // Early Tuesday UTC is still Monday evening in Toronto
+      assert.equal(weekdays.todayText(new Date('2026-10-20T01:00:00Z')), '7:30 AM - 5:00 PM');
+      assert.equal(weekdays.todayText(toronto(`${SUNDAY}T12:00:00`)), 'Closed');
+    });
+
+    it('returns null without hours', () => {
+      assert.equal(createHoursSchedule(null).todayText(), null);
+    });
+  });
+});
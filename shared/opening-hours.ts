@@ -0,0 +1,297 @@
+// Opening hours shared by the processor (parsing at ingest) and the frontend
+// (open now, closing soon). Hours are stored as minute intervals over a week
+// so nothing has to re-parse Google's display strings at read time.
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+// Minutes since Sunday 00:00 local time; `end` is exclusive. An interval that
+// runs past midnight keeps going past the day boundary ("8 PM – 2 AM" on
+// Saturday ends after MINUTES_PER_WEEK and wraps round to Sunday morning).
+export interface HoursInterval {
+  start: number;
+  end: number;
+}
+
+// Stored in cafes.opening_hours
+export interface OpeningHours {
+  timezone: string;                                 // IANA name, e.g. America/Toronto
+  intervals: HoursInterval[];
+  weekday_text: Partial<Record<Weekday, string>>;   // Google's display strings, for the UI
+}
+
+export interface HoursChange {
+  at: Date;
+  opens: boolean;   // true if the cafe opens at `at`, false if it closes
+}
+
+export interface HoursSchedule {
+  isOpenAt(date: Date): boolean;
+  // Next time the cafe opens or closes; null if it never changes (24/7 or no hours)
+  nextChange(from?: Date): HoursChange | null;
+  // Minutes until closing while open; null when closed or never closing
+  closesIn(from?: Date): number | null;
+  // Today's display string in the cafe's timezone
+  todayText(date?: Date): string | null;
+}
+
+export const DEFAULT_TIMEZONE = 'America/Toronto';
+
+export const MINUTES_PER_DAY = 24 * 60;
+export const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+// =====================================================
+// PARSING (Google weekday descriptions)
+// =====================================================
+
+// Google puts narrow no-break spaces before AM/PM and thin spaces around the
+// dash; fold every kind of space and dash to the plain ASCII ones
+function normalizeText(text: string): string {
+  return text
+    .replace(/[\u00a0\u2000-\u200b\u202f\u205f\u3000]/g, ' ')
+    .replace(/[\u2010-\u2015\u2212]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+interface ParsedTime {
+  minutes: number;               // Minutes since midnight, before any AM/PM fix-up
+  meridiem: 'am' | 'pm' | null;
+}
+
+const TIME_PATTERN = /^(\d{1,2})(?:[:h.](\d{2}))?\s*(?:(a\.?m\.?|p\.?m\.?))?$/i;
+
+function parseTime(text: string): ParsedTime | null {
+  const value = text.trim().toLowerCase();
+  if (value === 'midnight') return { minutes: 0, meridiem: 'am' };
+  if (value === 'noon') return { minutes: 12 * 60, meridiem: 'pm' };
+
+  const match = value.match(TIME_PATTERN);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (hours > 24 || minutes > 59) return null;
+
+  const meridiem = match[3] ? (match[3].startsWith('a') ? 'am' : 'pm') : null;
+  if (meridiem && (hours === 0 || hours > 12)) return null;
+  return { minutes: hours * 60 + minutes, meridiem };
+}
+
+function applyMeridiem(time: ParsedTime, meridiem: 'am' | 'pm' | null): number {
+  if (!meridiem) return time.minutes;
+  const hours = Math.floor(time.minutes / 60) % 12;
+  return (hours + (meridiem === 'pm' ? 12 : 0)) * 60 + (time.minutes % 60);
+}
+
+// One range such as "7:30 AM - 5:00 PM". Google drops the meridiem from the
+// opening time when both ends share it ("5:00 - 10:00 PM").
+function parseRange(range: string): HoursInterval | null {
+  const [startText, endText, ...rest] = range.split(/\s*-\s*/);
+  if (!startText || !endText || rest.length > 0) return null;
+
+  const startTime = parseTime(startText);
+  const endTime = parseTime(endText);
+  if (!startTime || !endTime) return null;
+
+  const end = applyMeridiem(endTime, endTime.meridiem);
+  let start = applyMeridiem(startTime, startTime.meridiem ?? endTime.meridiem);
+  if (!startTime.meridiem && endTime.meridiem === 'pm' && start > end) {
+    // "11:00 - 2:00 PM" is 11 AM to 2 PM, not 11 PM
+    start = applyMeridiem(startTime, 'am');
+  }
+
+  // Closing at or before opening means the range runs past midnight
+  return { start, end: end <= start ? end + MINUTES_PER_DAY : end };
+}
+
+// Hours for a single day, as minute intervals relative to that day's midnight.
+// Returns [] for closed days and null when the text can't be understood.
+export function parseDayHours(text: string): HoursInterval[] | null {
+  const value = normalizeText(text).toLowerCase();
+  if (value === '' || value === 'closed') return [];
+  if (/^open 24 hours$/.test(value)) return [{ start: 0, end: MINUTES_PER_DAY }];
+
+  const intervals: HoursInterval[] = [];
+  for (const range of value.split(/\s*,\s*/)) {
+    const interval = parseRange(range);
+    if (!interval) return null;
+    intervals.push(interval);
+  }
+  return intervals;
+}
+
+function toWeekday(name: string): Weekday | null {
+  const day = name.trim().toLowerCase();
+  return WEEKDAYS.find(weekday => weekday === day || weekday.slice(0, 3) === day) ?? null;
+}
+
+// Days whose text can't be parsed keep their display string but contribute no
+// intervals, so the cafe shows as closed rather than wrongly open
+export function buildOpeningHours(days: Partial<Record<Weekday, string>>, timezone = DEFAULT_TIMEZONE): OpeningHours {
+  const intervals: HoursInterval[] = [];
+  const weekday_text: Partial<Record<Weekday, string>> = {};
+
+  WEEKDAYS.forEach((weekday, index) => {
+    const text = days[weekday];
+    if (text === undefined) return;
+    weekday_text[weekday] = normalizeText(text);
+
+    const dayOffset = index * MINUTES_PER_DAY;
+    (parseDayHours(text) || []).forEach(({ start, end }) => {
+      intervals.push({ start: dayOffset + start, end: dayOffset + end });
+    });
+  });
+
+  intervals.sort((a, b) => a.start - b.start);
+  return { timezone, intervals, weekday_text };
+}
+
+// Google Places weekdayDescriptions: ["Monday: 7:30 AM – 5:00 PM", ...]
+export function parseWeekdayDescriptions(lines: string[], timezone = DEFAULT_TIMEZONE): OpeningHours {
+  const days: Partial<Record<Weekday, string>> = {};
+
+  lines.forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator < 0) return;
+    const weekday = toWeekday(line.slice(0, separator));
+    if (weekday) days[weekday] = line.slice(separator + 1).trim() || 'Closed';
+  });
+
+  return buildOpeningHours(days, timezone);
+}
+
+function isOpeningHours(value: unknown): value is OpeningHours {
+  return !!value && typeof value === 'object' && Array.isArray((value as OpeningHours).intervals);
+}
+
+// Accepts the stored shape, a JSON string of it, or the older
+// { monday: "7:00 AM – 5:00 PM", ... } rows written before intervals existed
+export function normalizeOpeningHours(value: unknown, timezone = DEFAULT_TIMEZONE): OpeningHours | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  let data: unknown = value;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+  if (!data || typeof data !== 'object') return null;
+
+  if (isOpeningHours(data)) {
+    return { timezone: data.timezone || timezone, intervals: data.intervals, weekday_text: data.weekday_text || {} };
+  }
+
+  const days: Partial<Record<Weekday, string>> = {};
+  Object.entries(data as Record<string, unknown>).forEach(([key, text]) => {
+    const weekday = toWeekday(key);
+    if (weekday && typeof text === 'string') days[weekday] = text;
+  });
+  return Object.keys(days).length > 0 ? buildOpeningHours(days, timezone) : null;
+}
+
+// =====================================================
+// SCHEDULE
+// =====================================================
+
+interface LocalTime {
+  weekday: Weekday;
+  minuteOfWeek: number;
+  seconds: number;   // Seconds (and milliseconds) past the minute
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'long',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+function toLocalTime(date: Date, timezone: string): LocalTime {
+  const parts: Record<string, string> = {};
+  getFormatter(timezone).formatToParts(date).forEach(part => { parts[part.type] = part.value; });
+
+  const weekday = parts.weekday.toLowerCase() as Weekday;
+  const hours = parseInt(parts.hour, 10) % 24;
+  const minutes = parseInt(parts.minute, 10);
+  return {
+    weekday,
+    minuteOfWeek: WEEKDAYS.indexOf(weekday) * MINUTES_PER_DAY + hours * 60 + minutes,
+    seconds: parseInt(parts.second, 10) + date.getUTCMilliseconds() / 1000,
+  };
+}
+
+function isOpenAtMinute(intervals: HoursInterval[], minuteOfWeek: number): boolean {
+  // Checking a week later too catches Saturday-night intervals that wrap round
+  return intervals.some(({ start, end }) =>
+    (minuteOfWeek >= start && minuteOfWeek < end) ||
+    (minuteOfWeek + MINUTES_PER_WEEK >= start && minuteOfWeek + MINUTES_PER_WEEK < end)
+  );
+}
+
+// Times are worked out on the cafe's wall clock, so a change that falls on the
+// other side of a daylight-saving switch can be reported an hour off
+export function createHoursSchedule(hours: OpeningHours | null): HoursSchedule {
+  const timezone = hours?.timezone || DEFAULT_TIMEZONE;
+  const intervals = hours?.intervals || [];
+
+  // Every opening and closing minute, repeated a week later so a search from
+  // late Saturday still finds Monday morning
+  const boundaries = [...new Set(intervals.flatMap(({ start, end }) => [start, end]))]
+    .flatMap(minute => {
+      const wrapped = minute % MINUTES_PER_WEEK;
+      return [wrapped, wrapped + MINUTES_PER_WEEK];
+    })
+    .sort((a, b) => a - b);
+
+  function nextChange(from = new Date()): HoursChange | null {
+    const local = toLocalTime(from, timezone);
+    const openNow = isOpenAtMinute(intervals, local.minuteOfWeek);
+
+    for (const boundary of boundaries) {
+      if (boundary <= local.minuteOfWeek) continue;
+      const opens = isOpenAtMinute(intervals, boundary % MINUTES_PER_WEEK);
+      if (opens === openNow) continue;
+
+      const offsetMs = ((boundary - local.minuteOfWeek) * 60 - local.seconds) * 1000;
+      return { at: new Date(from.getTime() + offsetMs), opens };
+    }
+    return null;
+  }
+
+  return {
+    isOpenAt(date) {
+      return isOpenAtMinute(intervals, toLocalTime(date, timezone).minuteOfWeek);
+    },
+
+    nextChange,
+
+    closesIn(from = new Date()) {
+      if (!isOpenAtMinute(intervals, toLocalTime(from, timezone).minuteOfWeek)) return null;
+      const change = nextChange(from);
+      return change ? Math.round((change.at.getTime() - from.getTime()) / 60000) : null;
+    },
+
+    todayText(date = new Date()) {
+      return hours?.weekday_text[toLocalTime(date, timezone).weekday] ?? null;
+    },
+  };
+}